@@ -7,12 +7,23 @@ import { AuthProvider, useAuth } from "@/context/auth-context";
 import NotFound from "@/pages/not-found";
 import Login from "@/pages/login";
 import Register from "@/pages/register";
+import ForgotPassword from "@/pages/forgot-password";
+import ResetPassword from "@/pages/reset-password";
+import VerifyEmail from "@/pages/verify-email";
 import Dashboard from "@/pages/dashboard";
 import Search from "@/pages/search";
 import DocumentEditor from "@/pages/document-editor";
+import DocumentView from "@/pages/document-view";
 import QA from "@/pages/qa";
+import Trash from "@/pages/trash";
+import Admin from "@/pages/admin";
+import QAReport from "@/pages/qa-report";
+import AIUsage from "@/pages/ai-usage";
 import Support from "@/pages/support";
+import Security from "@/pages/security";
 import Sidebar from "@/components/sidebar";
+import EmailVerificationBanner from "@/components/email-verification-banner";
+import TwoFactorBanner from "@/components/two-factor-banner";
 import Footer from "@/components/footer";
 
 function AuthenticatedLayout() {
@@ -20,14 +31,23 @@ function AuthenticatedLayout() {
     <div className="flex h-screen bg-background">
       <Sidebar />
       <div className="flex-1 flex flex-col overflow-hidden">
+        <TwoFactorBanner />
+        <EmailVerificationBanner />
         <Switch>
           <Route path="/" component={Dashboard} />
           <Route path="/dashboard" component={Dashboard} />
           <Route path="/search" component={Search} />
           <Route path="/document/new" component={DocumentEditor} />
           <Route path="/document/edit/:id" component={DocumentEditor} />
-          <Route path="/qa" component={QA} />
+          <Route path="/document/:id" component={DocumentView} />
+          <Route path="/qa/:id?" component={QA} />
+          <Route path="/trash" component={Trash} />
+          <Route path="/admin" component={Admin} />
+          <Route path="/admin/qa-report" component={QAReport} />
+          <Route path="/admin/ai-usage" component={AIUsage} />
           <Route path="/support" component={Support} />
+          <Route path="/verify-email" component={VerifyEmail} />
+          <Route path="/security" component={Security} />
           <Route component={NotFound} />
         </Switch>
         <Footer />
@@ -51,6 +71,9 @@ function Router() {
     return (
       <Switch>
         <Route path="/register" component={Register} />
+        <Route path="/forgot-password" component={ForgotPassword} />
+        <Route path="/reset-password" component={ResetPassword} />
+        <Route path="/verify-email" component={VerifyEmail} />
         <Route component={Login} />
       </Switch>
     );
@@ -0,0 +1,126 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { AICacheStats } from "@shared/schema";
+import { useAuth } from "@/context/auth-context";
+import { apiRequest } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Database, RefreshCw, Trash2 } from "lucide-react";
+
+const operationLabels: Record<string, string> = {
+  summarize: "Summaries",
+  generateTags: "Tags",
+  embed: "Embeddings",
+  describeChanges: "Change descriptions",
+};
+
+export default function AICacheCard() {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: stats, isLoading, refetch, isFetching } = useQuery<AICacheStats>({
+    queryKey: ["/api/admin/ai-cache"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/admin/ai-cache", undefined, token!);
+      return await response.json();
+    },
+    enabled: !!token,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/admin/ai-cache", undefined, token!);
+      return await response.json();
+    },
+    onSuccess: (data: AICacheStats) => {
+      queryClient.setQueryData(["/api/admin/ai-cache"], data);
+      toast({ title: "AI cache cleared" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to clear AI cache",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClear = () => {
+    if (confirm("Clear all cached AI responses? They will be generated again when next needed.")) {
+      clearMutation.mutate();
+    }
+  };
+
+  const formatTtl = (seconds: number) => {
+    if (seconds % 86400 === 0) return `${seconds / 86400} day${seconds !== 86400 ? "s" : ""}`;
+    if (seconds % 3600 === 0) return `${seconds / 3600} hour${seconds !== 3600 ? "s" : ""}`;
+    return `${seconds} seconds`;
+  };
+
+  return (
+    <Card data-testid="ai-cache-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Database className="h-5 w-5" />
+          AI Cache
+        </CardTitle>
+        <CardDescription>
+          Identical AI requests are answered from the cache instead of calling the model again. Counts are since the server started.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !stats ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : stats.store === "none" ? (
+          <p className="text-sm text-muted-foreground">Caching is turned off (AI_CACHE_STORE=none).</p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground" data-testid="text-ai-cache-summary">
+              {stats.entries} of {stats.maxEntries} entries in the {stats.store} store, kept for {formatTtl(stats.ttlSeconds)}
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Operation</TableHead>
+                  <TableHead className="text-right">Hits</TableHead>
+                  <TableHead className="text-right">Misses</TableHead>
+                  <TableHead className="text-right">Hit rate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {Object.entries(stats.operations).map(([operation, { hits, misses }]) => (
+                  <TableRow key={operation} data-testid={`ai-cache-${operation}`}>
+                    <TableCell>{operationLabels[operation] ?? operation}</TableCell>
+                    <TableCell className="text-right">{hits}</TableCell>
+                    <TableCell className="text-right">{misses}</TableCell>
+                    <TableCell className="text-right">
+                      {hits + misses > 0 ? `${Math.round((hits / (hits + misses)) * 100)}%` : "–"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching} data-testid="button-refresh-ai-cache">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleClear}
+            disabled={!stats || stats.store === "none" || clearMutation.isPending}
+            data-testid="button-clear-ai-cache"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Clear cache
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
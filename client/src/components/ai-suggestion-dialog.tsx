@@ -0,0 +1,131 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/context/auth-context";
+import { apiRequest, ApiError } from "@/lib/api";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Sparkles } from "lucide-react";
+
+// A generated summary or tag list, and the document version it was made from
+export type AISuggestion =
+  | { kind: "summary"; summary: string; version: number }
+  | { kind: "tags"; tags: string[]; version: number };
+
+interface AISuggestionDialogProps {
+  document: { id: string; summary: string | null; tags: string[] | null };
+  suggestion: AISuggestion | null;
+  onClose: () => void;
+}
+
+// Previews an AI suggestion next to what the document has now. Nothing is
+// saved until the suggestion is accepted.
+export default function AISuggestionDialog({ document, suggestion, onClose }: AISuggestionDialogProps) {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const acceptMutation = useMutation({
+    mutationFn: async (suggestion: AISuggestion) => {
+      const { kind, version, ...data } = suggestion;
+      const response = await apiRequest("POST", `/api/documents/${document.id}/ai/apply`, { ...data, version }, token!);
+      return await response.json();
+    },
+    onSuccess: (_, suggestion) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      onClose();
+      toast({
+        title: suggestion.kind === "summary" ? "Summary saved" : "Tags saved",
+        description: "Saved as a new version marked as AI generated.",
+      });
+    },
+    onError: (error) => {
+      if (error instanceof ApiError && error.status === 409) {
+        queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+        onClose();
+        toast({
+          title: "Document has changed",
+          description: "It was edited after this suggestion was generated. Generate a new one to use it.",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Failed to save suggestion",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const label = suggestion?.kind === "tags" ? "tags" : "summary";
+
+  return (
+    <Dialog open={!!suggestion} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5" />
+            AI-generated {label}
+          </DialogTitle>
+          <DialogDescription>
+            Review the suggestion. Accepting it saves a new version of the document marked as AI generated.
+          </DialogDescription>
+        </DialogHeader>
+
+        {suggestion && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-muted-foreground">Current</p>
+              {suggestion.kind === "summary" ? (
+                <p className="text-sm text-foreground whitespace-pre-line" data-testid="suggestion-current">
+                  {document.summary || <span className="italic text-muted-foreground">No summary</span>}
+                </p>
+              ) : (
+                <div className="flex flex-wrap gap-2" data-testid="suggestion-current">
+                  {document.tags?.length ? document.tags.map((tag) => (
+                    <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                  )) : <span className="text-sm italic text-muted-foreground">No tags</span>}
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-muted-foreground">Suggested</p>
+              {suggestion.kind === "summary" ? (
+                <p className="text-sm text-foreground whitespace-pre-line" data-testid="suggestion-proposed">
+                  {suggestion.summary}
+                </p>
+              ) : (
+                <div className="flex flex-wrap gap-2" data-testid="suggestion-proposed">
+                  {suggestion.tags.map((tag) => (
+                    <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} data-testid="button-reject-suggestion">
+            Discard
+          </Button>
+          <Button
+            onClick={() => suggestion && acceptMutation.mutate(suggestion)}
+            disabled={acceptMutation.isPending}
+            data-testid="button-accept-suggestion"
+          >
+            {acceptMutation.isPending ? "Saving..." : `Accept ${label}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { AnswerFeedback as Feedback, AnswerRating } from "@shared/schema";
+import { useAuth } from "@/context/auth-context";
+import { apiRequest } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useToast } from "@/hooks/use-toast";
+import { ThumbsDown, ThumbsUp } from "lucide-react";
+
+interface AnswerFeedbackProps {
+  conversationId: string;
+  messageId: string;
+  feedback: Pick<Feedback, "rating" | "comment"> | null;
+}
+
+export default function AnswerFeedback({ conversationId, messageId, feedback }: AnswerFeedbackProps) {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [commentOpen, setCommentOpen] = useState(false);
+  const [comment, setComment] = useState(feedback?.comment || "");
+
+  const feedbackMutation = useMutation({
+    mutationFn: async (data: { rating: AnswerRating; comment?: string }) => {
+      const response = await apiRequest(
+        "PUT",
+        `/api/conversations/${conversationId}/messages/${messageId}/feedback`,
+        data,
+        token!,
+      );
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", conversationId] });
+      setCommentOpen(false);
+      toast({ title: "Thanks for your feedback" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save feedback",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rating = feedback?.rating;
+
+  return (
+    <div className="flex items-center gap-1" data-testid={`feedback-${messageId}`}>
+      <Button
+        variant="ghost"
+        size="icon"
+        className={`h-7 w-7 ${rating === "up" ? "text-primary" : "text-muted-foreground"}`}
+        disabled={feedbackMutation.isPending}
+        onClick={() => feedbackMutation.mutate({ rating: "up" })}
+        aria-label="Helpful answer"
+        data-testid={`button-feedback-up-${messageId}`}
+      >
+        <ThumbsUp className="h-4 w-4" />
+      </Button>
+
+      {/* A thumbs down asks what was wrong before it is saved */}
+      <Popover open={commentOpen} onOpenChange={setCommentOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={`h-7 w-7 ${rating === "down" ? "text-destructive" : "text-muted-foreground"}`}
+            disabled={feedbackMutation.isPending}
+            aria-label="Unhelpful answer"
+            data-testid={`button-feedback-down-${messageId}`}
+          >
+            <ThumbsDown className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-80">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              feedbackMutation.mutate({ rating: "down", comment: comment.trim() || undefined });
+            }}
+            className="space-y-3"
+          >
+            <p className="text-sm font-medium text-foreground">What was wrong with this answer?</p>
+            <Textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Optional: missing information, wrong source, outdated..."
+              maxLength={2000}
+              rows={3}
+              data-testid={`input-feedback-comment-${messageId}`}
+            />
+            <div className="flex justify-end">
+              <Button type="submit" size="sm" disabled={feedbackMutation.isPending} data-testid={`button-feedback-submit-${messageId}`}>
+                Send feedback
+              </Button>
+            </div>
+          </form>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
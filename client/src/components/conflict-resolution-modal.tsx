@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { mergeText, CONFLICT_MARKERS } from "@shared/diff";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertTriangle } from "lucide-react";
+
+export interface ConflictValues {
+  title: string;
+  content: string;
+  summary?: string | null;
+  tags?: string;
+}
+
+interface ConflictResolutionModalProps {
+  base: ConflictValues;
+  mine: ConflictValues;
+  theirs: ConflictValues & { version: number };
+  isSaving: boolean;
+  onKeepMine: () => void;
+  onUseTheirs: () => void;
+  onSaveMerged: (values: ConflictValues) => void;
+  onClose: () => void;
+}
+
+// Fields other than content are merged whole: my change wins if I made one
+function pickField<T>(base: T, mine: T, theirs: T): T {
+  return mine !== base ? mine : theirs;
+}
+
+export default function ConflictResolutionModal({
+  base,
+  mine,
+  theirs,
+  isSaving,
+  onKeepMine,
+  onUseTheirs,
+  onSaveMerged,
+  onClose,
+}: ConflictResolutionModalProps) {
+  const [merge] = useState(() => mergeText(base.content, mine.content, theirs.content));
+  const [mergedContent, setMergedContent] = useState(merge.text);
+
+  const hasMarkers = mergedContent.includes(CONFLICT_MARKERS.start);
+
+  const handleSaveMerged = () => {
+    onSaveMerged({
+      title: pickField(base.title, mine.title, theirs.title),
+      content: mergedContent,
+      summary: pickField(base.summary || "", mine.summary || "", theirs.summary || ""),
+      tags: pickField(base.tags || "", mine.tags || "", theirs.tags || ""),
+    });
+  };
+
+  const renderVersion = (values: ConflictValues) => (
+    <div className="space-y-3">
+      <h4 className="font-semibold text-foreground">{values.title}</h4>
+      <pre className="whitespace-pre-wrap text-sm bg-muted rounded-lg p-4 max-h-80 overflow-auto font-sans">
+        {values.content}
+      </pre>
+      {values.tags && (
+        <p className="text-xs text-muted-foreground">Tags: {values.tags}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open onOpenChange={() => onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-auto" data-testid="conflict-resolution-modal">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <AlertTriangle className="h-5 w-5 text-yellow-600" />
+            <span>Edit conflict</span>
+          </DialogTitle>
+          <DialogDescription>
+            Someone else saved this document (now at v{theirs.version}) while you were editing.
+            Choose which changes to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="merged">
+          <TabsList>
+            <TabsTrigger value="mine" data-testid="tab-conflict-mine">Mine</TabsTrigger>
+            <TabsTrigger value="theirs" data-testid="tab-conflict-theirs">Theirs</TabsTrigger>
+            <TabsTrigger value="merged" data-testid="tab-conflict-merged">
+              Merged
+              {merge.conflicts > 0 && (
+                <Badge variant="destructive" className="ml-2 text-xs">{merge.conflicts}</Badge>
+              )}
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="mine" className="space-y-4">
+            {renderVersion(mine)}
+            <div className="flex justify-end">
+              <Button onClick={onKeepMine} disabled={isSaving} data-testid="button-keep-mine">
+                Overwrite with mine
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="theirs" className="space-y-4">
+            {renderVersion(theirs)}
+            <div className="flex justify-end">
+              <Button variant="outline" onClick={onUseTheirs} disabled={isSaving} data-testid="button-use-theirs">
+                Discard mine and load theirs
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="merged" className="space-y-4">
+            {hasMarkers && (
+              <p className="text-sm text-destructive">
+                Resolve the conflicting sections between the {CONFLICT_MARKERS.start} and {CONFLICT_MARKERS.end} markers before saving.
+              </p>
+            )}
+            <Textarea
+              rows={14}
+              value={mergedContent}
+              onChange={(e) => setMergedContent(e.target.value)}
+              className="font-mono text-sm"
+              data-testid="textarea-merged-content"
+            />
+            <div className="flex justify-end">
+              <Button onClick={handleSaveMerged} disabled={isSaving || hasMarkers} data-testid="button-save-merged">
+                {isSaving ? "Saving..." : "Save merged version"}
+              </Button>
+            </div>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { Conversation } from "@shared/schema";
+import { useAuth } from "@/context/auth-context";
+import { apiRequest } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { MessageSquare, MoreVertical, Pencil, Plus, Share2, Trash2, Users } from "lucide-react";
+
+interface ConversationListProps {
+  activeId?: string;
+}
+
+export default function ConversationList({ activeId }: ConversationListProps) {
+  const [, navigate] = useLocation();
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [renaming, setRenaming] = useState<Conversation | null>(null);
+  const [title, setTitle] = useState("");
+
+  const { data: conversations = [], isLoading } = useQuery<Conversation[]>({
+    queryKey: ["/api/conversations"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/conversations", undefined, token!);
+      return await response.json();
+    },
+    enabled: !!token,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: { id: string; title?: string; shared?: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/conversations/${id}`, updates, token!);
+      return await response.json() as Conversation;
+    },
+    onSuccess: (conversation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      setRenaming(null);
+      if (conversation.shared) {
+        copyLink(conversation);
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update conversation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/conversations/${id}`, undefined, token!);
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      if (id === activeId) navigate("/qa");
+      toast({ title: "Conversation deleted" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete conversation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyLink = (conversation: Conversation) => {
+    const link = `${window.location.origin}/qa/${conversation.id}`;
+    navigator.clipboard.writeText(link).then(
+      () => toast({ title: "Link copied", description: "Teammates with the link can read this conversation." }),
+      () => toast({ title: "Conversation shared", description: link }),
+    );
+  };
+
+  const startRename = (conversation: Conversation) => {
+    setRenaming(conversation);
+    setTitle(conversation.title);
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renaming || !title.trim()) return;
+    updateMutation.mutate({ id: renaming.id, title: title.trim() });
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Delete this conversation? This cannot be undone.")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  return (
+    <Card className="w-64 flex-shrink-0 flex flex-col" data-testid="conversation-list">
+      <div className="p-3 border-b border-border">
+        <Button variant="outline" className="w-full justify-start" onClick={() => navigate("/qa")} data-testid="button-new-conversation">
+          <Plus className="h-4 w-4 mr-2" />
+          New conversation
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 p-2">
+        {isLoading ? (
+          <p className="p-2 text-sm text-muted-foreground">Loading...</p>
+        ) : conversations.length === 0 ? (
+          <p className="p-2 text-sm text-muted-foreground">No conversations yet</p>
+        ) : (
+          <div className="space-y-1">
+            {conversations.map((conversation) => (
+              <div
+                key={conversation.id}
+                className={`group flex items-center rounded-md ${conversation.id === activeId ? "bg-secondary" : "hover:bg-muted"}`}
+                data-testid={`conversation-${conversation.id}`}
+              >
+                <button
+                  type="button"
+                  onClick={() => navigate(`/qa/${conversation.id}`)}
+                  className="flex-1 min-w-0 flex items-center gap-2 px-2 py-2 text-left text-sm text-foreground"
+                >
+                  {conversation.shared ? (
+                    <Users className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                  ) : (
+                    <MessageSquare className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                  )}
+                  <span className="truncate">{conversation.title}</span>
+                </button>
+
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-7 w-7 mr-1" data-testid={`conversation-menu-${conversation.id}`}>
+                      <MoreVertical className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => startRename(conversation)} data-testid={`conversation-rename-${conversation.id}`}>
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Rename
+                    </DropdownMenuItem>
+                    {conversation.shared ? (
+                      <>
+                        <DropdownMenuItem onClick={() => copyLink(conversation)}>
+                          <Share2 className="h-4 w-4 mr-2" />
+                          Copy link
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => updateMutation.mutate({ id: conversation.id, shared: false })}
+                          data-testid={`conversation-unshare-${conversation.id}`}
+                        >
+                          <Users className="h-4 w-4 mr-2" />
+                          Stop sharing
+                        </DropdownMenuItem>
+                      </>
+                    ) : (
+                      <DropdownMenuItem
+                        onClick={() => updateMutation.mutate({ id: conversation.id, shared: true })}
+                        data-testid={`conversation-share-${conversation.id}`}
+                      >
+                        <Share2 className="h-4 w-4 mr-2" />
+                        Share link
+                      </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem
+                      onClick={() => handleDelete(conversation.id)}
+                      className="text-destructive"
+                      data-testid={`conversation-delete-${conversation.id}`}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+
+      <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename conversation</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleRename} className="space-y-4">
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={200}
+              autoFocus
+              data-testid="input-conversation-title"
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setRenaming(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!title.trim() || updateMutation.isPending} data-testid="button-save-title">
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
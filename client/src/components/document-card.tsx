@@ -1,5 +1,6 @@
 import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
+import type { Job } from "@shared/schema";
 import { useAuth } from "@/context/auth-context";
 import { apiRequest } from "@/lib/api";
 import { Button } from "@/components/ui/button";
@@ -7,6 +8,9 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { useToast } from "@/hooks/use-toast";
+import EnrichmentStatus from "@/components/enrichment-status";
+import InjectionWarning from "@/components/injection-warning";
+import AISuggestionDialog, { type AISuggestion } from "@/components/ai-suggestion-dialog";
 import { 
   Edit3, 
   Trash2, 
@@ -24,42 +28,31 @@ import {
 
 interface DocumentCardProps {
   document: any;
+  // Latest AI enrichment job, if it has not succeeded
+  enrichment?: Job;
   currentUser: any;
+  onView: (id: string) => void;
   onEdit: (id: string) => void;
   onDelete: (id: string) => void;
   onShowVersions: (id: string) => void;
 }
 
-export default function DocumentCard({ document, currentUser, onEdit, onDelete, onShowVersions }: DocumentCardProps) {
+export default function DocumentCard({ document, enrichment, currentUser, onView, onEdit, onDelete, onShowVersions }: DocumentCardProps) {
   const { token } = useAuth();
   const { toast } = useToast();
-  const queryClient = useQueryClient();
-  const [isGeneratingTags, setIsGeneratingTags] = useState(false);
-  const [isGeneratingSummary, setIsGeneratingSummary] = useState(false);
+  const [suggestion, setSuggestion] = useState<AISuggestion | null>(null);
 
   const canEdit = document.createdBy.id === currentUser.id || currentUser.role === "admin";
 
+  // Suggestions are generated from the saved document and previewed before
+  // anything is written
   const generateSummaryMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest("POST", "/api/ai/summarize", {
-        title: document.title,
-        content: document.content,
-      }, token!);
-      return await response.json();
+      const response = await apiRequest("POST", `/api/documents/${document.id}/ai/summary`, undefined, token!);
+      return await response.json() as { summary: string; version: number };
     },
     onSuccess: (data) => {
-      // Update document with new summary
-      queryClient.setQueryData(["/api/documents"], (old: any[]) => 
-        old?.map(doc => 
-          doc.id === document.id 
-            ? { ...doc, summary: data.summary }
-            : doc
-        )
-      );
-      toast({
-        title: "Summary generated",
-        description: "AI summary has been generated successfully.",
-      });
+      setSuggestion({ kind: "summary", ...data });
     },
     onError: (error) => {
       toast({
@@ -68,32 +61,15 @@ export default function DocumentCard({ document, currentUser, onEdit, onDelete,
         variant: "destructive",
       });
     },
-    onSettled: () => {
-      setIsGeneratingSummary(false);
-    },
   });
 
   const generateTagsMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest("POST", "/api/ai/generate-tags", {
-        title: document.title,
-        content: document.content,
-      }, token!);
-      return await response.json();
+      const response = await apiRequest("POST", `/api/documents/${document.id}/ai/tags`, undefined, token!);
+      return await response.json() as { tags: string[]; version: number };
     },
     onSuccess: (data) => {
-      // Update document with new tags
-      queryClient.setQueryData(["/api/documents"], (old: any[]) => 
-        old?.map(doc => 
-          doc.id === document.id 
-            ? { ...doc, tags: data.tags }
-            : doc
-        )
-      );
-      toast({
-        title: "Tags generated",
-        description: "AI tags have been generated successfully.",
-      });
+      setSuggestion({ kind: "tags", ...data });
     },
     onError: (error) => {
       toast({
@@ -102,20 +78,15 @@ export default function DocumentCard({ document, currentUser, onEdit, onDelete,
         variant: "destructive",
       });
     },
-    onSettled: () => {
-      setIsGeneratingTags(false);
-    },
   });
 
   const handleGenerateSummary = (e: React.MouseEvent) => {
     e.stopPropagation();
-    setIsGeneratingSummary(true);
     generateSummaryMutation.mutate();
   };
 
   const handleGenerateTags = (e: React.MouseEvent) => {
     e.stopPropagation();
-    setIsGeneratingTags(true);
     generateTagsMutation.mutate();
   };
 
@@ -141,7 +112,7 @@ export default function DocumentCard({ document, currentUser, onEdit, onDelete,
         <div className="flex items-start justify-between mb-4">
           <h3 
             className="text-lg font-semibold text-foreground line-clamp-2 flex-1 mr-2"
-            onClick={() => onEdit(document.id)}
+            onClick={() => onView(document.id)}
             data-testid={`document-title-${document.id}`}
           >
             {document.title}
@@ -188,6 +159,8 @@ export default function DocumentCard({ document, currentUser, onEdit, onDelete,
               +{document.tags.length - 3} more
             </Badge>
           )}
+          <EnrichmentStatus documentId={document.id} job={enrichment} canRetry={canEdit} />
+          <InjectionWarning documentId={document.id} warnings={document.injectionWarnings} />
         </div>
 
         {/* Author & Version Info */}
@@ -223,34 +196,38 @@ export default function DocumentCard({ document, currentUser, onEdit, onDelete,
         </div>
 
         {/* AI Actions */}
-        <div className="pt-4 border-t border-border">
-          <div className="flex items-center space-x-2">
-            <Button
-              variant="outline"
-              size="sm"
-              className="flex-1 bg-gradient-to-r from-accent to-primary text-white border-0 hover:opacity-90"
-              onClick={handleGenerateSummary}
-              disabled={isGeneratingSummary}
-              data-testid={`document-summarize-${document.id}`}
-            >
-              <Sparkles className="h-3 w-3 mr-1" />
-              {isGeneratingSummary ? "Generating..." : "AI Summary"}
-            </Button>
+        {canEdit && (
+          <div className="pt-4 border-t border-border">
+            <div className="flex items-center space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1 bg-gradient-to-r from-accent to-primary text-white border-0 hover:opacity-90"
+                onClick={handleGenerateSummary}
+                disabled={generateSummaryMutation.isPending}
+                data-testid={`document-summarize-${document.id}`}
+              >
+                <Sparkles className="h-3 w-3 mr-1" />
+                {generateSummaryMutation.isPending ? "Generating..." : "AI Summary"}
+              </Button>
             
-            <Button
-              variant="outline"
-              size="sm"
-              className="flex-1 bg-gradient-to-r from-accent to-primary text-white border-0 hover:opacity-90"
-              onClick={handleGenerateTags}
-              disabled={isGeneratingTags}
-              data-testid={`document-generate-tags-${document.id}`}
-            >
-              <TagsIcon className="h-3 w-3 mr-1" />
-              {isGeneratingTags ? "Generating..." : "Generate Tags"}
-            </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1 bg-gradient-to-r from-accent to-primary text-white border-0 hover:opacity-90"
+                onClick={handleGenerateTags}
+                disabled={generateTagsMutation.isPending}
+                data-testid={`document-generate-tags-${document.id}`}
+              >
+                <TagsIcon className="h-3 w-3 mr-1" />
+                {generateTagsMutation.isPending ? "Generating..." : "Generate Tags"}
+              </Button>
+            </div>
           </div>
-        </div>
+        )}
       </CardContent>
+
+      <AISuggestionDialog document={document} suggestion={suggestion} onClose={() => setSuggestion(null)} />
     </Card>
   );
 }
@@ -0,0 +1,54 @@
+import { useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/context/auth-context";
+import { apiRequest, ApiError } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { MailWarning } from "lucide-react";
+
+// Reminds users who have not followed their verification link yet
+export default function EmailVerificationBanner() {
+  const { user, token } = useAuth();
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/verify-email/resend", undefined, token!);
+      return (await response.json()) as { message: string };
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Verification email sent",
+        description: data.message,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not send verification email",
+        description: error instanceof ApiError ? error.data?.message ?? error.message : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Undefined for accounts stored before verification existed, until the
+  // current account has been fetched
+  if (user?.emailVerified !== false) return null;
+
+  return (
+    <div className="bg-amber-50 dark:bg-amber-950 border-b border-amber-200 dark:border-amber-900 px-6 py-2 flex items-center justify-between gap-4" data-testid="email-verification-banner">
+      <div className="flex items-center gap-2 text-sm text-amber-800 dark:text-amber-200">
+        <MailWarning className="h-4 w-4 shrink-0" />
+        Please verify your email address using the link we sent to {user.email}.
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => resendMutation.mutate()}
+        disabled={resendMutation.isPending || resendMutation.isSuccess}
+        data-testid="button-resend-verification"
+      >
+        {resendMutation.isSuccess ? "Sent" : resendMutation.isPending ? "Sending..." : "Resend email"}
+      </Button>
+    </div>
+  );
+}
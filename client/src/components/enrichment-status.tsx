@@ -0,0 +1,88 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { Job } from "@shared/schema";
+import { useAuth } from "@/context/auth-context";
+import { apiRequest } from "@/lib/api";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, Loader2, RotateCw } from "lucide-react";
+
+// How often pages poll while a document's enrichment job is queued or running
+export const ENRICHMENT_POLL_MS = 3000;
+
+export function isEnrichmentActive(job: Pick<Job, "status"> | null | undefined): boolean {
+  return job?.status === "pending" || job?.status === "running";
+}
+
+interface EnrichmentStatusProps {
+  documentId: string;
+  job: Job | null | undefined;
+  canRetry: boolean;
+}
+
+// Shows whether the AI summary, tags and search index of a document are
+// still being generated, or why that failed
+export default function EnrichmentStatus({ documentId, job, canRetry }: EnrichmentStatusProps) {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const retryMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/documents/${documentId}/enrich`, undefined, token!);
+      return await response.json() as Job;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/enrichment"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents", documentId, "enrichment"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to retry AI enrichment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isEnrichmentActive(job)) {
+    return (
+      <Badge variant="outline" className="text-xs text-muted-foreground" data-testid={`enrichment-pending-${documentId}`}>
+        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+        AI enrichment pending
+      </Badge>
+    );
+  }
+
+  if (job?.status !== "failed") return null;
+
+  return (
+    <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge variant="destructive" className="text-xs" data-testid={`enrichment-failed-${documentId}`}>
+            <AlertTriangle className="h-3 w-3 mr-1" />
+            AI enrichment failed
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent>
+          {job.lastError || "Unknown error"} (after {job.attempts} attempt{job.attempts !== 1 ? "s" : ""})
+        </TooltipContent>
+      </Tooltip>
+      {canRetry && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          disabled={retryMutation.isPending}
+          onClick={() => retryMutation.mutate()}
+          aria-label="Retry AI enrichment"
+          data-testid={`button-retry-enrichment-${documentId}`}
+        >
+          <RotateCw className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { ShieldAlert } from "lucide-react";
+
+const warningLabels: Record<string, string> = {
+  "instruction-override": "tells the AI to ignore its instructions",
+  "role-change": "tries to give the AI a new role",
+  "prompt-extraction": "asks the AI to reveal its instructions",
+  "fake-delimiter": "imitates prompt markup",
+  "data-exfiltration": "asks for data to be sent elsewhere",
+  "jailbreak": "contains a known jailbreak phrase",
+};
+
+interface InjectionWarningProps {
+  documentId: string;
+  warnings: string[] | null | undefined;
+}
+
+// Flags a document whose text looks written to steer the AI. Such sentences
+// are left out when the document is sent to the AI.
+export default function InjectionWarning({ documentId, warnings }: InjectionWarningProps) {
+  if (!warnings?.length) return null;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge
+          variant="outline"
+          className="text-xs border-amber-500 text-amber-700 dark:text-amber-400"
+          onClick={(e) => e.stopPropagation()}
+          data-testid={`injection-warning-${documentId}`}
+        >
+          <ShieldAlert className="h-3 w-3 mr-1" />
+          Possible prompt injection
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs">
+        This document {warnings.map(warning => warningLabels[warning] ?? warning).join(", ")}.
+        {" "}Those sentences are left out when it is sent to the AI.
+      </TooltipContent>
+    </Tooltip>
+  );
+}
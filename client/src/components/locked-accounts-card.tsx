@@ -0,0 +1,116 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { LockoutReport } from "@shared/schema";
+import { useAuth } from "@/context/auth-context";
+import { apiRequest, ApiError } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { LockKeyhole, RefreshCw, Unlock } from "lucide-react";
+
+const formatDateTime = (date: string | Date) =>
+  new Date(date).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
+export default function LockedAccountsCard() {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: report, isLoading, refetch, isFetching } = useQuery<LockoutReport>({
+    queryKey: ["/api/admin/lockouts"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/admin/lockouts", undefined, token!);
+      return await response.json();
+    },
+    enabled: !!token,
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (email: string) => {
+      const response = await apiRequest("POST", "/api/admin/lockouts/unlock", { email }, token!);
+      return (await response.json()) as LockoutReport;
+    },
+    onSuccess: (data, email) => {
+      queryClient.setQueryData(["/api/admin/lockouts"], data);
+      toast({ title: `${email} can sign in again` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to unlock account",
+        description: error instanceof ApiError ? error.data?.message ?? error.message : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card data-testid="locked-accounts-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LockKeyhole className="h-5 w-5" />
+          Locked Accounts
+        </CardTitle>
+        <CardDescription>
+          Accounts are locked for a while after repeated failed sign-in attempts. Unlock one once you have checked it is the owner trying to get in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !report ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : report.locked.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-locked-accounts">No accounts are locked.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Email</TableHead>
+                <TableHead className="text-right">Failed attempts</TableHead>
+                <TableHead>Locked until</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.locked.map((account) => (
+                <TableRow key={account.email} data-testid={`locked-account-${account.email}`}>
+                  <TableCell>{account.email}</TableCell>
+                  <TableCell className="text-right">{account.failures}</TableCell>
+                  <TableCell>{formatDateTime(account.lockedUntil)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => unlockMutation.mutate(account.email)}
+                      disabled={unlockMutation.isPending}
+                      data-testid={`button-unlock-${account.email}`}
+                    >
+                      <Unlock className="h-4 w-4 mr-2" />
+                      Unlock
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {report && report.activity.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-foreground">Recent events</h4>
+            <ul className="space-y-1 text-sm text-muted-foreground" data-testid="lockout-activity">
+              {report.activity.map((activity) => (
+                <li key={activity.id}>
+                  <span className="text-foreground">{activity.user.name}</span>: {activity.description} · {formatDateTime(activity.createdAt)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <Button variant="outline" onClick={() => refetch()} disabled={isFetching} data-testid="button-refresh-lockouts">
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,13 @@ import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
 import { 
   Home, 
   Search, 
@@ -13,14 +20,18 @@ import {
   Bot, 
   HeadphonesIcon,
   LogOut,
+  MonitorSmartphone,
   Brain,
   Bell,
-  Settings
+  Settings,
+  Trash2,
+  Shield
 } from "lucide-react";
 
 export default function Sidebar() {
   const [location] = useLocation();
-  const { user, logout, token } = useAuth();
+  const { user, logout, logoutAllDevices, token } = useAuth();
+  const { toast } = useToast();
 
   const { data: activities } = useQuery({
     queryKey: ["/api/activities"],
@@ -31,6 +42,19 @@ export default function Sidebar() {
     enabled: !!token,
   });
 
+  const handleLogoutAllDevices = async () => {
+    if (!confirm("Sign out of every device, including this one?")) return;
+    try {
+      await logoutAllDevices();
+    } catch (error) {
+      toast({
+        title: "Failed to sign out of all devices",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
   const getInitials = (name: string) => {
     return name.split(" ").map(n => n[0]).join("").toUpperCase();
   };
@@ -107,6 +131,28 @@ export default function Sidebar() {
             Support
           </Button>
         </Link>
+
+        <Link href="/trash" data-testid="nav-trash">
+          <Button
+            variant={isActive("/trash") ? "secondary" : "ghost"}
+            className="w-full justify-start"
+          >
+            <Trash2 className="h-4 w-4 mr-3" />
+            Trash
+          </Button>
+        </Link>
+
+        {user?.role === "admin" && (
+          <Link href="/admin" data-testid="nav-admin">
+            <Button
+              variant={isActive("/admin") ? "secondary" : "ghost"}
+              className="w-full justify-start"
+            >
+              <Shield className="h-4 w-4 mr-3" />
+              Admin
+            </Button>
+          </Link>
+        )}
       </nav>
 
       {/* Team Activity Feed */}
@@ -145,9 +191,11 @@ export default function Sidebar() {
             <Bell className="h-4 w-4" />
             <span className="absolute -top-1 -right-1 h-2 w-2 bg-destructive rounded-full"></span>
           </Button>
-          <Button variant="ghost" size="icon">
-            <Settings className="h-4 w-4" />
-          </Button>
+          <Link href="/security">
+            <Button variant="ghost" size="icon" aria-label="Account security" data-testid="nav-security">
+              <Settings className="h-4 w-4" />
+            </Button>
+          </Link>
         </div>
         
         <div className="flex items-center space-x-3">
@@ -164,9 +212,23 @@ export default function Sidebar() {
               {user?.role}
             </p>
           </div>
-          <Button variant="ghost" size="icon" onClick={logout} data-testid="button-logout">
-            <LogOut className="h-4 w-4" />
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" aria-label="Sign out" data-testid="button-logout">
+                <LogOut className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={logout} data-testid="button-logout-device">
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign out
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleLogoutAllDevices} data-testid="button-logout-all">
+                <MonitorSmartphone className="h-4 w-4 mr-2" />
+                Sign out of all devices
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </div>
     </div>
@@ -0,0 +1,26 @@
+import { Link } from "wouter";
+import { useAuth } from "@/context/auth-context";
+import { Button } from "@/components/ui/button";
+import { ShieldAlert } from "lucide-react";
+
+// Shown to admins whose admin access is paused until they set up
+// two-factor authentication
+export default function TwoFactorBanner() {
+  const { user } = useAuth();
+
+  if (!user?.twoFactorSetupRequired) return null;
+
+  return (
+    <div className="bg-amber-50 dark:bg-amber-950 border-b border-amber-200 dark:border-amber-900 px-6 py-2 flex items-center justify-between gap-4" data-testid="two-factor-banner">
+      <div className="flex items-center gap-2 text-sm text-amber-800 dark:text-amber-200">
+        <ShieldAlert className="h-4 w-4 shrink-0" />
+        Admins must use two-factor authentication. Your admin access is paused until you set it up.
+      </div>
+      <Link href="/security">
+        <Button variant="outline" size="sm" data-testid="button-setup-two-factor-banner">
+          Set up
+        </Button>
+      </Link>
+    </div>
+  );
+}
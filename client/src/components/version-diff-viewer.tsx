@@ -0,0 +1,276 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { DiffOp, LineChange, VersionDiff } from "@shared/diff";
+import { useAuth } from "@/context/auth-context";
+import { apiRequest } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ArrowLeft, ArrowRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface VersionDiffViewerProps {
+  documentId: string;
+  versions: any[];
+  initialFromId: string;
+  initialToId: string;
+  onBack: () => void;
+}
+
+type DiffMode = "unified" | "split";
+
+// Unchanged lines kept visible around each change
+const CONTEXT_LINES = 3;
+
+type DiffRow = LineChange | { type: "skip"; count: number };
+
+function foldUnchanged(changes: LineChange[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let i = 0;
+  while (i < changes.length) {
+    if (changes[i].type !== "equal") {
+      rows.push(changes[i++]);
+      continue;
+    }
+    let end = i;
+    while (end < changes.length && changes[end].type === "equal") end++;
+
+    const keepBefore = i === 0 ? 0 : CONTEXT_LINES;
+    const keepAfter = end === changes.length ? 0 : CONTEXT_LINES;
+    if (end - i > keepBefore + keepAfter + 1) {
+      rows.push(...changes.slice(i, i + keepBefore));
+      rows.push({ type: "skip", count: end - i - keepBefore - keepAfter });
+      rows.push(...changes.slice(end - keepAfter, end));
+    } else {
+      rows.push(...changes.slice(i, end));
+    }
+    i = end;
+  }
+  return rows;
+}
+
+function renderWords(ops: DiffOp<string>[], side: "old" | "new" | "both") {
+  return ops.map((op, index) => {
+    const text = op.items.join("");
+    if (op.type === "equal") return <span key={index}>{text}</span>;
+    if (op.type === "delete") {
+      return side === "new" ? null : (
+        <del key={index} className="bg-red-200 text-red-900 no-underline">{text}</del>
+      );
+    }
+    return side === "old" ? null : (
+      <ins key={index} className="bg-green-200 text-green-900 no-underline">{text}</ins>
+    );
+  });
+}
+
+const lineClasses = {
+  delete: "bg-red-50",
+  insert: "bg-green-50",
+  equal: "",
+};
+
+function LineNumber({ value }: { value?: number }) {
+  return (
+    <span className="w-10 shrink-0 pr-2 text-right text-muted-foreground select-none">{value ?? ""}</span>
+  );
+}
+
+function UnifiedRows({ rows }: { rows: DiffRow[] }) {
+  return (
+    <div className="font-mono text-xs">
+      {rows.map((row, index) => {
+        if (row.type === "skip") {
+          return (
+            <div key={index} className="px-2 py-1 text-muted-foreground bg-muted/50">
+              ⋯ {row.count} unchanged line{row.count !== 1 ? "s" : ""}
+            </div>
+          );
+        }
+        const oldRow = (
+          <div key={`${index}-old`} className={cn("flex", lineClasses.delete)}>
+            <LineNumber value={row.oldLine} />
+            <LineNumber />
+            <span className="w-4 shrink-0 text-red-700">-</span>
+            <span className="whitespace-pre-wrap break-words">
+              {row.words ? renderWords(row.words, "old") : row.oldText}
+            </span>
+          </div>
+        );
+        const newRow = (
+          <div key={`${index}-new`} className={cn("flex", lineClasses.insert)}>
+            <LineNumber />
+            <LineNumber value={row.newLine} />
+            <span className="w-4 shrink-0 text-green-700">+</span>
+            <span className="whitespace-pre-wrap break-words">
+              {row.words ? renderWords(row.words, "new") : row.newText}
+            </span>
+          </div>
+        );
+
+        if (row.type === "delete") return oldRow;
+        if (row.type === "insert") return newRow;
+        if (row.type === "modify") return [oldRow, newRow];
+        return (
+          <div key={index} className="flex">
+            <LineNumber value={row.oldLine} />
+            <LineNumber value={row.newLine} />
+            <span className="w-4 shrink-0" />
+            <span className="whitespace-pre-wrap break-words">{row.oldText}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function SplitRows({ rows }: { rows: DiffRow[] }) {
+  return (
+    <div className="font-mono text-xs grid grid-cols-2 divide-x divide-border">
+      {rows.map((row, index) => {
+        if (row.type === "skip") {
+          return (
+            <div key={index} className="col-span-2 px-2 py-1 text-muted-foreground bg-muted/50">
+              ⋯ {row.count} unchanged line{row.count !== 1 ? "s" : ""}
+            </div>
+          );
+        }
+        const hasOld = row.type !== "insert";
+        const hasNew = row.type !== "delete";
+        return [
+          <div
+            key={`${index}-old`}
+            className={cn("flex", hasOld && row.type !== "equal" && lineClasses.delete, !hasOld && "bg-muted/30")}
+          >
+            <LineNumber value={row.oldLine} />
+            <span className="whitespace-pre-wrap break-words">
+              {hasOld && (row.words ? renderWords(row.words, "old") : row.oldText)}
+            </span>
+          </div>,
+          <div
+            key={`${index}-new`}
+            className={cn("flex", hasNew && row.type !== "equal" && lineClasses.insert, !hasNew && "bg-muted/30")}
+          >
+            <LineNumber value={row.newLine} />
+            <span className="whitespace-pre-wrap break-words">
+              {hasNew && (row.words ? renderWords(row.words, "new") : row.newText)}
+            </span>
+          </div>,
+        ];
+      })}
+    </div>
+  );
+}
+
+export default function VersionDiffViewer({ documentId, versions, initialFromId, initialToId, onBack }: VersionDiffViewerProps) {
+  const { token } = useAuth();
+  const [fromId, setFromId] = useState(initialFromId);
+  const [toId, setToId] = useState(initialToId);
+  const [mode, setMode] = useState<DiffMode>("unified");
+
+  const { data: diff, isLoading } = useQuery<VersionDiff>({
+    queryKey: ["/api/documents", documentId, "diff", fromId, toId],
+    queryFn: async () => {
+      const response = await apiRequest(
+        "GET",
+        `/api/documents/${documentId}/diff?from=${encodeURIComponent(fromId)}&to=${encodeURIComponent(toId)}`,
+        undefined,
+        token!,
+      );
+      return await response.json();
+    },
+    enabled: !!token && !!fromId && !!toId,
+  });
+
+  const versionSelect = (value: string, onChange: (id: string) => void, testId: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-28" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version: any) => (
+          <SelectItem key={version.id} value={version.id}>v{version.version}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const hasChanges = (ops: DiffOp<string>[]) => ops.some(op => op.type !== "equal");
+  const rows = diff ? foldUnchanged(diff.content) : [];
+
+  return (
+    <div className="space-y-4" data-testid="version-diff-viewer">
+      <div className="flex flex-wrap items-center gap-3">
+        <Button variant="ghost" size="sm" onClick={onBack} data-testid="button-diff-back">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Versions
+        </Button>
+        {versionSelect(fromId, setFromId, "select-diff-from")}
+        <ArrowRight className="h-4 w-4 text-muted-foreground" />
+        {versionSelect(toId, setToId, "select-diff-to")}
+        <ToggleGroup
+          type="single"
+          value={mode}
+          onValueChange={(value) => value && setMode(value as DiffMode)}
+          size="sm"
+          className="ml-auto"
+        >
+          <ToggleGroupItem value="unified" data-testid="toggle-diff-unified">Unified</ToggleGroupItem>
+          <ToggleGroupItem value="split" data-testid="toggle-diff-split">Side by side</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {isLoading || !diff ? (
+        <div className="space-y-2">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <div key={i} className="h-4 bg-muted rounded animate-pulse"></div>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {hasChanges(diff.title) && (
+            <div>
+              <p className="text-xs font-medium text-muted-foreground mb-1">Title</p>
+              <p className="text-sm">{renderWords(diff.title, "both")}</p>
+            </div>
+          )}
+
+          {(diff.tags.added.length > 0 || diff.tags.removed.length > 0) && (
+            <div>
+              <p className="text-xs font-medium text-muted-foreground mb-1">Tags</p>
+              <div className="flex flex-wrap gap-2">
+                {diff.tags.added.map(tag => (
+                  <Badge key={`added-${tag}`} className="bg-green-100 text-green-800 border-green-200" variant="outline">+ {tag}</Badge>
+                ))}
+                {diff.tags.removed.map(tag => (
+                  <Badge key={`removed-${tag}`} className="bg-red-100 text-red-800 border-red-200 line-through" variant="outline">{tag}</Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {hasChanges(diff.summary) && (
+            <div>
+              <p className="text-xs font-medium text-muted-foreground mb-1">Summary</p>
+              <p className="text-sm">{renderWords(diff.summary, "both")}</p>
+            </div>
+          )}
+
+          <div>
+            <p className="text-xs font-medium text-muted-foreground mb-1">Content</p>
+            <div className="border border-border rounded-lg overflow-hidden">
+              {diff.content.every(change => change.type === "equal") ? (
+                <p className="p-4 text-sm text-muted-foreground">No content changes</p>
+              ) : mode === "unified" ? (
+                <UnifiedRows rows={rows} />
+              ) : (
+                <SplitRows rows={rows} />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/context/auth-context";
 import { apiRequest } from "@/lib/api";
 import {
@@ -11,7 +12,9 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { History, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import VersionDiffViewer from "@/components/version-diff-viewer";
+import { History, RotateCcw, GitCompare, Sparkles } from "lucide-react";
 
 interface VersionHistoryModalProps {
   documentId: string;
@@ -19,7 +22,10 @@ interface VersionHistoryModalProps {
 }
 
 export default function VersionHistoryModal({ documentId, onClose }: VersionHistoryModalProps) {
-  const { token } = useAuth();
+  const { user, token } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [comparing, setComparing] = useState<{ fromId: string; toId: string } | null>(null);
 
   const { data: versions = [], isLoading } = useQuery({
     queryKey: ["/api/documents", documentId, "versions"],
@@ -53,14 +59,39 @@ export default function VersionHistoryModal({ documentId, onClose }: VersionHist
     });
   };
 
-  const handleRestore = (versionId: string) => {
-    // TODO: Implement version restoration
-    console.log("Restore version:", versionId);
+  const restoreMutation = useMutation({
+    mutationFn: async (versionId: string) => {
+      const response = await apiRequest("POST", `/api/documents/${documentId}/versions/${versionId}/restore`, undefined, token!);
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      toast({
+        title: "Version restored",
+        description: `The document is now at version ${data.version}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Restore failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canRestore = !!document && !!user && (document.createdBy.id === user.id || user.role === "admin");
+
+  const handleRestore = (version: any) => {
+    if (confirm(`Restore version ${version.version}? This creates a new version with its content.`)) {
+      restoreMutation.mutate(version.id);
+    }
   };
 
   return (
     <Dialog open={!!documentId} onOpenChange={() => onClose()} data-testid="version-history-modal">
-      <DialogContent className="max-w-2xl max-h-[80vh]">
+      <DialogContent className={comparing ? "max-w-5xl max-h-[90vh] overflow-auto" : "max-w-2xl max-h-[80vh]"}>
         <DialogHeader>
           <DialogTitle className="flex items-center space-x-2">
             <History className="h-5 w-5" />
@@ -69,68 +100,100 @@ export default function VersionHistoryModal({ documentId, onClose }: VersionHist
           </DialogTitle>
         </DialogHeader>
 
-        <ScrollArea className="max-h-96 pr-4">
-          {isLoading ? (
-            <div className="space-y-4">
-              {Array.from({ length: 3 }).map((_, i) => (
-                <div key={i} className="flex items-center space-x-4 p-4 border border-border rounded-lg animate-pulse">
-                  <div className="h-8 w-16 bg-muted rounded"></div>
-                  <div className="flex-1 space-y-2">
-                    <div className="h-4 bg-muted rounded w-3/4"></div>
-                    <div className="h-3 bg-muted rounded w-1/2"></div>
-                  </div>
-                </div>
-              ))}
-            </div>
-          ) : (
-            <div className="space-y-4">
-              {versions.map((version: any) => (
-                <div 
-                  key={version.id} 
-                  className="flex items-center space-x-4 p-4 border border-border rounded-lg hover:bg-muted/50 transition-colors"
-                  data-testid={`version-${version.version}`}
-                >
-                  <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
-                    v{version.version}
-                  </Badge>
-                  
-                  <div className="flex-1">
-                    <p className="text-foreground font-medium">
-                      {version.changeDescription || `Version ${version.version}`}
-                    </p>
-                    <div className="flex items-center space-x-2 mt-1">
-                      <Avatar className="h-4 w-4">
-                        <AvatarFallback className="text-xs bg-primary text-primary-foreground">
-                          {getInitials(version.createdBy?.name || "U")}
-                        </AvatarFallback>
-                      </Avatar>
-                      <span className="text-sm text-muted-foreground">
-                        {version.createdBy?.name || "Unknown"} • {formatDate(version.createdAt)}
-                      </span>
+        {comparing ? (
+          <VersionDiffViewer
+            documentId={documentId}
+            versions={versions}
+            initialFromId={comparing.fromId}
+            initialToId={comparing.toId}
+            onBack={() => setComparing(null)}
+          />
+        ) : (
+          <ScrollArea className="max-h-96 pr-4">
+            {isLoading ? (
+              <div className="space-y-4">
+                {Array.from({ length: 3 }).map((_, i) => (
+                  <div key={i} className="flex items-center space-x-4 p-4 border border-border rounded-lg animate-pulse">
+                    <div className="h-8 w-16 bg-muted rounded"></div>
+                    <div className="flex-1 space-y-2">
+                      <div className="h-4 bg-muted rounded w-3/4"></div>
+                      <div className="h-3 bg-muted rounded w-1/2"></div>
                     </div>
                   </div>
-                  
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleRestore(version.id)}
-                    className="flex items-center space-x-1"
-                    data-testid={`restore-version-${version.version}`}
+                ))}
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {versions.map((version: any, index: number) => (
+                  <div 
+                    key={version.id} 
+                    className="flex items-center space-x-4 p-4 border border-border rounded-lg hover:bg-muted/50 transition-colors"
+                    data-testid={`version-${version.version}`}
                   >
-                    <RotateCcw className="h-3 w-3" />
-                    <span>Restore</span>
-                  </Button>
-                </div>
-              ))}
-              
-              {versions.length === 0 && (
-                <div className="text-center py-8 text-muted-foreground">
-                  No version history available
-                </div>
-              )}
-            </div>
-          )}
-        </ScrollArea>
+                    <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
+                      v{version.version}
+                    </Badge>
+                    
+                    <div className="flex-1">
+                      <p className="text-foreground font-medium">
+                        {version.changeDescription || `Version ${version.version}`}
+                        {version.aiGenerated && (
+                          <Badge variant="secondary" className="ml-2 text-xs" data-testid={`version-ai-generated-${version.version}`}>
+                            <Sparkles className="h-3 w-3 mr-1" />
+                            AI generated
+                          </Badge>
+                        )}
+                      </p>
+                      <div className="flex items-center space-x-2 mt-1">
+                        <Avatar className="h-4 w-4">
+                          <AvatarFallback className="text-xs bg-primary text-primary-foreground">
+                            {getInitials(version.createdBy?.name || "U")}
+                          </AvatarFallback>
+                        </Avatar>
+                        <span className="text-sm text-muted-foreground">
+                          {version.createdBy?.name || "Unknown"} • {formatDate(version.createdAt)}
+                        </span>
+                      </div>
+                    </div>
+                    
+                    {index < versions.length - 1 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setComparing({ fromId: versions[index + 1].id, toId: version.id })}
+                        className="flex items-center space-x-1"
+                        data-testid={`compare-version-${version.version}`}
+                      >
+                        <GitCompare className="h-3 w-3" />
+                        <span>Changes</span>
+                      </Button>
+                    )}
+
+                    {canRestore && version.version !== document.version && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRestore(version)}
+                        disabled={restoreMutation.isPending}
+                        className="flex items-center space-x-1"
+                        data-testid={`restore-version-${version.version}`}
+                      >
+                        <RotateCcw className="h-3 w-3" />
+                        <span>Restore</span>
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                
+                {versions.length === 0 && (
+                  <div className="text-center py-8 text-muted-foreground">
+                    No version history available
+                  </div>
+                )}
+              </div>
+            )}
+          </ScrollArea>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -1,54 +1,159 @@
-import { createContext, useContext, useState, useEffect } from "react";
+import { createContext, useContext, useState, useEffect, useRef } from "react";
+import { apiRequest, setAccessTokenRefresher } from "@/lib/api";
 
 interface User {
   id: string;
   email: string;
   name: string;
   role: string;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  // An admin who must set up two-factor authentication before acting as one
+  twoFactorSetupRequired: boolean;
+}
+
+// What the login, register and refresh routes return
+export interface AuthSession {
+  token: string;
+  refreshToken: string;
+  user: User;
 }
 
 interface AuthContextType {
   user: User | null;
   token: string | null;
-  login: (token: string, user: User) => void;
+  login: (session: AuthSession) => void;
   logout: () => void;
+  logoutAllDevices: () => Promise<void>;
+  // Fetches the current account, e.g. after its email was verified
+  refreshUser: () => Promise<void>;
   isLoading: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+function storeSession(session: AuthSession) {
+  localStorage.setItem("auth_token", session.token);
+  localStorage.setItem("auth_refresh_token", session.refreshToken);
+  localStorage.setItem("auth_user", JSON.stringify(session.user));
+}
+
+function clearStoredSession() {
+  localStorage.removeItem("auth_token");
+  localStorage.removeItem("auth_refresh_token");
+  localStorage.removeItem("auth_user");
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  // Shared by requests that fail at the same time, so the refresh token is
+  // only exchanged once
+  const refreshing = useRef<Promise<string | null> | null>(null);
+
+  const applySession = (session: AuthSession) => {
+    setToken(session.token);
+    setUser(session.user);
+    storeSession(session);
+  };
+
+  const clearSession = () => {
+    setToken(null);
+    setUser(null);
+    clearStoredSession();
+  };
+
+  const fetchCurrentUser = async (accessToken: string) => {
+    const response = await apiRequest("GET", "/api/auth/me", undefined, accessToken);
+    const { user: currentUser }: { user: User } = await response.json();
+    setUser(currentUser);
+    localStorage.setItem("auth_user", JSON.stringify(currentUser));
+  };
 
   useEffect(() => {
     const storedToken = localStorage.getItem("auth_token");
+    const storedRefreshToken = localStorage.getItem("auth_refresh_token");
     const storedUser = localStorage.getItem("auth_user");
 
-    if (storedToken && storedUser) {
+    // Tokens from before refresh tokens existed cannot be renewed
+    if (storedToken && storedRefreshToken && storedUser) {
       setToken(storedToken);
       setUser(JSON.parse(storedUser));
+
+      // The stored copy may be out of date, e.g. after a role change
+      fetchCurrentUser(storedToken).catch(() => undefined);
+    } else {
+      clearStoredSession();
     }
     setIsLoading(false);
   }, []);
 
-  const login = (newToken: string, newUser: User) => {
-    setToken(newToken);
-    setUser(newUser);
-    localStorage.setItem("auth_token", newToken);
-    localStorage.setItem("auth_user", JSON.stringify(newUser));
+  useEffect(() => {
+    const refresh = async (rejectedToken: string): Promise<string | null> => {
+      // Another tab or an earlier request may have renewed it already
+      const storedToken = localStorage.getItem("auth_token");
+      if (storedToken && storedToken !== rejectedToken) {
+        setToken(storedToken);
+        return storedToken;
+      }
+
+      const refreshToken = localStorage.getItem("auth_refresh_token");
+      if (!refreshToken) {
+        clearSession();
+        return null;
+      }
+
+      try {
+        const response = await apiRequest("POST", "/api/auth/refresh", { refreshToken });
+        const session: AuthSession = await response.json();
+        applySession(session);
+        return session.token;
+      } catch (error) {
+        // A tab refreshing at the same moment wins the race and stores its tokens
+        const renewedToken = localStorage.getItem("auth_token");
+        if (localStorage.getItem("auth_refresh_token") !== refreshToken && renewedToken) {
+          setToken(renewedToken);
+          return renewedToken;
+        }
+        clearSession();
+        return null;
+      }
+    };
+
+    setAccessTokenRefresher((rejectedToken) => {
+      refreshing.current ??= refresh(rejectedToken).finally(() => {
+        refreshing.current = null;
+      });
+      return refreshing.current;
+    });
+    return () => setAccessTokenRefresher(null);
+  }, []);
+
+  const login = (session: AuthSession) => {
+    applySession(session);
   };
 
+  // Signing out locally never waits on or fails with the server
   const logout = () => {
-    setToken(null);
-    setUser(null);
-    localStorage.removeItem("auth_token");
-    localStorage.removeItem("auth_user");
+    const refreshToken = localStorage.getItem("auth_refresh_token");
+    if (refreshToken) {
+      apiRequest("POST", "/api/auth/logout", { refreshToken }).catch(() => undefined);
+    }
+    clearSession();
+  };
+
+  const logoutAllDevices = async () => {
+    await apiRequest("POST", "/api/auth/logout-all", undefined, token!);
+    clearSession();
+  };
+
+  const refreshUser = async () => {
+    if (token) await fetchCurrentUser(token);
   };
 
   return (
-    <AuthContext.Provider value={{ user, token, login, logout, isLoading }}>
+    <AuthContext.Provider value={{ user, token, login, logout, logoutAllDevices, refreshUser, isLoading }}>
       {children}
     </AuthContext.Provider>
   );
@@ -1,29 +1,105 @@
+export class ApiError extends Error {
+  constructor(public status: number, public body: string) {
+    super(`${status}: ${body}`);
+    this.name = "ApiError";
+  }
+
+  // Parsed JSON error body, if the server sent one
+  get data(): any {
+    try {
+      return JSON.parse(this.body);
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+// Given an access token the server rejected, returns one to retry with, or
+// null when the session has ended. Set by AuthProvider.
+type AccessTokenRefresher = (rejectedToken: string) => Promise<string | null>;
+
+let refreshAccessToken: AccessTokenRefresher | null = null;
+
+export function setAccessTokenRefresher(refresher: AccessTokenRefresher | null) {
+  refreshAccessToken = refresher;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown,
-  token?: string
+  token?: string,
+  signal?: AbortSignal
 ): Promise<Response> {
-  const headers: Record<string, string> = {};
-  
-  if (data) {
-    headers["Content-Type"] = "application/json";
-  }
-  
-  if (token) {
-    headers["Authorization"] = `Bearer ${token}`;
-  }
+  const send = (accessToken?: string) => {
+    const headers: Record<string, string> = {};
+
+    if (data) {
+      headers["Content-Type"] = "application/json";
+    }
+
+    if (accessToken) {
+      headers["Authorization"] = `Bearer ${accessToken}`;
+    }
 
-  const res = await fetch(url, {
-    method,
-    headers,
-    body: data ? JSON.stringify(data) : undefined,
-  });
+    return fetch(url, {
+      method,
+      headers,
+      body: data ? JSON.stringify(data) : undefined,
+      signal,
+    });
+  };
+
+  let res = await send(token);
+
+  // Access tokens are short-lived: renew an expired one and try once more
+  if (res.status === 401 && token && refreshAccessToken) {
+    const renewed = await refreshAccessToken(token);
+    if (renewed) res = await send(renewed);
+  }
 
   if (!res.ok) {
     const errorText = await res.text();
-    throw new Error(`${res.status}: ${errorText}`);
+    throw new ApiError(res.status, errorText);
   }
 
   return res;
 }
+
+export interface StreamEvent {
+  event: string;
+  data: any;
+}
+
+// POSTs data and yields the Server-Sent Events of the response as they
+// arrive. Aborting signal cancels the request.
+export async function* streamRequest(
+  url: string,
+  data: unknown,
+  token?: string,
+  signal?: AbortSignal
+): AsyncGenerator<StreamEvent> {
+  const res = await apiRequest("POST", url, data, token, signal);
+  const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = "message";
+      const lines: string[] = [];
+      for (const line of frame.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) lines.push(line.slice(5).trimStart());
+      }
+      if (lines.length) yield { event, data: JSON.parse(lines.join("\n")) };
+    }
+  }
+}
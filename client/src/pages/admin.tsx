@@ -0,0 +1,237 @@
+import { useEffect } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { appSettingsSchema, type AppSettings } from "@shared/schema";
+import { useAuth } from "@/context/auth-context";
+import { apiRequest, ApiError } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import AICacheCard from "@/components/ai-cache-card";
+import LockedAccountsCard from "@/components/locked-accounts-card";
+import { BarChart3, Gauge, Save, ShieldCheck, Trash2 } from "lucide-react";
+
+const quotaFields = [
+  { name: "aiUserDailyTokens", label: "Per user, per day" },
+  { name: "aiUserMonthlyTokens", label: "Per user, per month" },
+  { name: "aiWorkspaceDailyTokens", label: "Whole workspace, per day" },
+  { name: "aiWorkspaceMonthlyTokens", label: "Whole workspace, per month" },
+] as const;
+
+export default function Admin() {
+  const { user, token } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<AppSettings>({
+    resolver: zodResolver(appSettingsSchema),
+    defaultValues: {
+      trashRetentionDays: 30,
+      aiUserDailyTokens: 0,
+      aiUserMonthlyTokens: 0,
+      aiWorkspaceDailyTokens: 0,
+      aiWorkspaceMonthlyTokens: 0,
+      requireAdminTwoFactor: false,
+    },
+  });
+
+  const { data: settings, isLoading } = useQuery<AppSettings>({
+    queryKey: ["/api/admin/settings"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/admin/settings", undefined, token!);
+      return await response.json();
+    },
+    enabled: !!token && user?.role === "admin",
+  });
+
+  useEffect(() => {
+    if (settings) {
+      form.reset(settings);
+    }
+  }, [settings, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: AppSettings) => {
+      const response = await apiRequest("PUT", "/api/admin/settings", data, token!);
+      return await response.json();
+    },
+    onSuccess: (data: AppSettings) => {
+      queryClient.setQueryData(["/api/admin/settings"], data);
+      toast({
+        title: "Settings saved",
+        description: "Your changes have been applied.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Save failed",
+        description: error instanceof ApiError ? error.data?.message ?? error.message : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (user?.role !== "admin") {
+    return (
+      <div className="flex-1 overflow-auto p-6">
+        <Card className="max-w-2xl mx-auto">
+          <CardContent className="p-12 text-center">
+            <h3 className="text-lg font-semibold text-foreground mb-2">Admin access required</h3>
+            <p className="text-muted-foreground">Only administrators can change workspace settings.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-auto" data-testid="admin-page">
+      {/* Header */}
+      <header className="bg-card border-b border-border px-6 py-4">
+        <h2 className="text-xl font-semibold text-foreground">Admin Settings</h2>
+        <p className="text-sm text-muted-foreground mt-1">Workspace-wide configuration</p>
+      </header>
+
+      {/* Main Content */}
+      <main className="p-6">
+        <div className="max-w-2xl mx-auto space-y-6">
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))}>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Trash2 className="h-5 w-5" />
+                  Trash
+                </CardTitle>
+                <CardDescription>
+                  Documents in the trash are permanently deleted once they are older than the retention period.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="trashRetentionDays">Retention period (days)</Label>
+                  <Input
+                    id="trashRetentionDays"
+                    type="number"
+                    min={1}
+                    disabled={isLoading}
+                    className="w-40"
+                    {...form.register("trashRetentionDays", { valueAsNumber: true })}
+                    data-testid="input-trash-retention"
+                  />
+                  {form.formState.errors.trashRetentionDays && (
+                    <p className="text-sm text-destructive">{form.formState.errors.trashRetentionDays.message}</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Gauge className="h-5 w-5" />
+                  AI Quotas
+                </CardTitle>
+                <CardDescription>
+                  Token limits for AI features, counted over UTC days and calendar months. Users over a limit are refused until it resets. Use 0 for no limit.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  {quotaFields.map(({ name, label }) => (
+                    <div key={name} className="space-y-2">
+                      <Label htmlFor={name}>{label}</Label>
+                      <Input
+                        id={name}
+                        type="number"
+                        min={0}
+                        disabled={isLoading}
+                        {...form.register(name, { valueAsNumber: true })}
+                        data-testid={`input-${name}`}
+                      />
+                      {form.formState.errors[name] && (
+                        <p className="text-sm text-destructive">{form.formState.errors[name]?.message}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldCheck className="h-5 w-5" />
+                  Security
+                </CardTitle>
+                <CardDescription>
+                  When two-factor authentication is required, admins without it act as regular users until they set it up.
+                  Set it up for your own account first.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center gap-3">
+                  <Switch
+                    id="requireAdminTwoFactor"
+                    disabled={isLoading}
+                    checked={form.watch("requireAdminTwoFactor")}
+                    onCheckedChange={(checked) => form.setValue("requireAdminTwoFactor", checked, { shouldDirty: true })}
+                    data-testid="switch-require-admin-two-factor"
+                  />
+                  <Label htmlFor="requireAdminTwoFactor">Require two-factor authentication for admins</Label>
+                </div>
+
+                <Button type="submit" disabled={isLoading || saveMutation.isPending} data-testid="button-save-settings">
+                  <Save className="h-4 w-4 mr-2" />
+                  {saveMutation.isPending ? "Saving..." : "Save Settings"}
+                </Button>
+              </CardContent>
+            </Card>
+          </form>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <BarChart3 className="h-5 w-5" />
+                Q&A Quality
+              </CardTitle>
+              <CardDescription>
+                Answers users rated unhelpful and questions the knowledge base has no good source for.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link href="/admin/qa-report">
+                <Button variant="outline" data-testid="button-qa-report">View report</Button>
+              </Link>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Gauge className="h-5 w-5" />
+                AI Usage
+              </CardTitle>
+              <CardDescription>
+                Tokens used and estimated cost of AI calls, by user and by operation.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link href="/admin/ai-usage">
+                <Button variant="outline" data-testid="button-ai-usage">View usage</Button>
+              </Link>
+            </CardContent>
+          </Card>
+
+          <AICacheCard />
+
+          <LockedAccountsCard />
+        </div>
+      </main>
+    </div>
+  );
+}
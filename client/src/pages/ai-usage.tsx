@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import type { AIUsageReport, AIUsageTotals } from "@shared/schema";
+import { useAuth } from "@/context/auth-context";
+import { apiRequest } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Cpu, Users } from "lucide-react";
+
+const periods = [7, 30, 90, 365];
+
+const operationLabels: Record<string, string> = {
+  summarize: "Summaries",
+  generateTags: "Tags",
+  answerQuestion: "Q&A answers",
+  embed: "Embeddings",
+  describeChanges: "Change descriptions",
+};
+
+const formatNumber = (value: number) => value.toLocaleString("en-US");
+
+const formatCost = (value: number) => {
+  return value.toLocaleString("en-US", { style: "currency", currency: "USD", minimumFractionDigits: 2, maximumFractionDigits: 4 });
+};
+
+const formatQuota = (tokens: number) => (tokens === 0 ? "Unlimited" : `${formatNumber(tokens)} tokens`);
+
+function UsageCells({ totals }: { totals: AIUsageTotals }) {
+  return (
+    <>
+      <TableCell className="text-right">{formatNumber(totals.calls)}</TableCell>
+      <TableCell className="text-right">{formatNumber(totals.inputTokens)}</TableCell>
+      <TableCell className="text-right">{formatNumber(totals.outputTokens)}</TableCell>
+      <TableCell className="text-right">{formatCost(totals.estimatedCost)}</TableCell>
+    </>
+  );
+}
+
+function UsageHeads() {
+  return (
+    <>
+      <TableHead className="w-24 text-right">Calls</TableHead>
+      <TableHead className="w-32 text-right">Input tokens</TableHead>
+      <TableHead className="w-32 text-right">Output tokens</TableHead>
+      <TableHead className="w-32 text-right">Est. cost</TableHead>
+    </>
+  );
+}
+
+export default function AIUsagePage() {
+  const { user, token } = useAuth();
+  const [days, setDays] = useState(30);
+
+  const { data: report, isLoading } = useQuery<AIUsageReport>({
+    queryKey: ["/api/admin/ai-usage", days],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/admin/ai-usage?days=${days}`, undefined, token!);
+      return await response.json();
+    },
+    enabled: !!token && user?.role === "admin",
+  });
+
+  if (user?.role !== "admin") {
+    return (
+      <div className="flex-1 overflow-auto p-6">
+        <Card className="max-w-2xl mx-auto">
+          <CardContent className="p-12 text-center">
+            <h3 className="text-lg font-semibold text-foreground mb-2">Admin access required</h3>
+            <p className="text-muted-foreground">Only administrators can view AI usage.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const totals = report?.totals;
+
+  return (
+    <div className="flex-1 overflow-auto" data-testid="ai-usage-page">
+      {/* Header */}
+      <header className="bg-card border-b border-border px-6 py-4 flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <Link href="/admin">
+            <Button variant="ghost" size="icon" data-testid="button-back">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h2 className="text-xl font-semibold text-foreground">AI Usage</h2>
+            <p className="text-sm text-muted-foreground mt-1">Tokens used and estimated cost of AI calls</p>
+          </div>
+        </div>
+        <Select value={String(days)} onValueChange={(value) => setDays(parseInt(value, 10))}>
+          <SelectTrigger className="w-40" data-testid="select-usage-period">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {periods.map((period) => (
+              <SelectItem key={period} value={String(period)}>Last {period} days</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </header>
+
+      {/* Main Content */}
+      <main className="p-6">
+        <div className="max-w-5xl mx-auto space-y-6">
+          {isLoading || !report ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin h-8 w-8 border-2 border-primary border-t-transparent rounded-full" />
+            </div>
+          ) : (
+            <>
+              {/* Totals */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <Card>
+                  <CardContent className="p-4">
+                    <p className="text-sm text-muted-foreground">AI calls</p>
+                    <p className="text-2xl font-semibold text-foreground" data-testid="text-total-calls">{formatNumber(totals!.calls)}</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4">
+                    <p className="text-sm text-muted-foreground">Input tokens</p>
+                    <p className="text-2xl font-semibold text-foreground" data-testid="text-total-input">{formatNumber(totals!.inputTokens)}</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4">
+                    <p className="text-sm text-muted-foreground">Output tokens</p>
+                    <p className="text-2xl font-semibold text-foreground" data-testid="text-total-output">{formatNumber(totals!.outputTokens)}</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4">
+                    <p className="text-sm text-muted-foreground">Estimated cost</p>
+                    <p className="text-2xl font-semibold text-foreground" data-testid="text-total-cost">{formatCost(totals!.estimatedCost)}</p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <p className="text-sm text-muted-foreground" data-testid="text-quotas">
+                Quotas per user: {formatQuota(report.quotas.aiUserDailyTokens)} a day, {formatQuota(report.quotas.aiUserMonthlyTokens)} a month.
+                {" "}For the workspace: {formatQuota(report.quotas.aiWorkspaceDailyTokens)} a day, {formatQuota(report.quotas.aiWorkspaceMonthlyTokens)} a month.
+              </p>
+
+              {/* By user */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Users className="h-5 w-5" />
+                    By user
+                  </CardTitle>
+                  <CardDescription>Heaviest users first. Calls not made on behalf of a user are listed under "No user".</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {report.byUser.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No AI calls were made in this period.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>User</TableHead>
+                          <UsageHeads />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {report.byUser.map((entry) => (
+                          <TableRow key={entry.user?.id ?? "none"} data-testid={`usage-user-${entry.user?.id ?? "none"}`}>
+                            <TableCell>
+                              {entry.user ? (
+                                <>
+                                  <p className="text-foreground">{entry.user.name}</p>
+                                  <p className="text-xs text-muted-foreground">{entry.user.email}</p>
+                                </>
+                              ) : (
+                                <span className="text-muted-foreground">No user</span>
+                              )}
+                            </TableCell>
+                            <UsageCells totals={entry} />
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* By operation */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Cpu className="h-5 w-5" />
+                    By operation
+                  </CardTitle>
+                  <CardDescription>Cached responses are not counted, as they do not call the model.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {report.byOperation.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No AI calls were made in this period.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Operation</TableHead>
+                          <UsageHeads />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {report.byOperation.map((entry) => (
+                          <TableRow key={entry.operation} data-testid={`usage-operation-${entry.operation}`}>
+                            <TableCell>{operationLabels[entry.operation] ?? entry.operation}</TableCell>
+                            <UsageCells totals={entry} />
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Link, useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { Job } from "@shared/schema";
 import { useAuth } from "@/context/auth-context";
 import { apiRequest } from "@/lib/api";
 import { Button } from "@/components/ui/button";
@@ -10,6 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useToast } from "@/hooks/use-toast";
 import DocumentCard from "@/components/document-card";
 import VersionHistoryModal from "@/components/version-history-modal";
+import { ENRICHMENT_POLL_MS, isEnrichmentActive } from "@/components/enrichment-status";
 import { 
   FileText, 
   Bot, 
@@ -39,6 +41,30 @@ export default function Dashboard() {
     enabled: !!token,
   });
 
+  // Documents whose AI enrichment is queued, running or failed
+  const { data: enrichmentJobs = [] } = useQuery<Job[]>({
+    queryKey: ["/api/enrichment"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/enrichment", undefined, token!);
+      return await response.json();
+    },
+    enabled: !!token,
+    staleTime: 0,
+    refetchInterval: (query) => query.state.data?.some(isEnrichmentActive) ? ENRICHMENT_POLL_MS : false,
+  });
+
+  // Reload the documents once enrichment has saved their summaries and tags
+  const activeEnrichments = enrichmentJobs.filter(isEnrichmentActive).map(job => job.documentId).join(",");
+  const previousEnrichments = useRef(activeEnrichments);
+  useEffect(() => {
+    const active = activeEnrichments.split(",");
+    const finished = previousEnrichments.current.split(",").some(id => id && !active.includes(id));
+    previousEnrichments.current = activeEnrichments;
+    if (finished) {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"], exact: true });
+    }
+  }, [activeEnrichments, queryClient]);
+
   // Delete mutation
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
@@ -48,8 +74,8 @@ export default function Dashboard() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
       toast({
-        title: "Document deleted",
-        description: "The document has been successfully deleted.",
+        title: "Moved to trash",
+        description: "The document can be restored from the trash.",
       });
     },
     onError: (error) => {
@@ -62,7 +88,7 @@ export default function Dashboard() {
   });
 
   // Get all unique tags from documents
-  const allTags = Array.from(new Set(documents.flatMap((doc: any) => doc.tags || [])));
+  const allTags = Array.from(new Set<string>(documents.flatMap((doc: any) => doc.tags || [])));
 
   // Filter and sort documents
   const filteredDocuments = documents
@@ -98,7 +124,7 @@ export default function Dashboard() {
   };
 
   const handleDelete = (id: string) => {
-    if (confirm("Are you sure you want to delete this document?")) {
+    if (confirm("Move this document to the trash?")) {
       deleteMutation.mutate(id);
     }
   };
@@ -264,7 +290,9 @@ export default function Dashboard() {
                   <DocumentCard
                     key={document.id}
                     document={document}
+                    enrichment={enrichmentJobs.find(job => job.documentId === document.id)}
                     currentUser={user!}
+                    onView={(id) => navigate(`/document/${id}`)}
                     onEdit={(id) => navigate(`/document/edit/${id}`)}
                     onDelete={handleDelete}
                     onShowVersions={setSelectedDocumentId}
@@ -5,22 +5,30 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertDocumentSchema } from "@shared/schema";
 import { useAuth } from "@/context/auth-context";
-import { apiRequest } from "@/lib/api";
+import { apiRequest, ApiError } from "@/lib/api";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import ConflictResolutionModal from "@/components/conflict-resolution-modal";
 import { ArrowLeft, Save, Sparkles, Tags as TagsIcon, FileText } from "lucide-react";
 import { z } from "zod";
 
 const documentFormSchema = insertDocumentSchema.extend({
   tags: z.string().optional(),
+  changeDescription: z.string().max(500).optional(),
 });
 
 type DocumentFormData = z.infer<typeof documentFormSchema>;
 
+interface SaveRequest {
+  data: DocumentFormData;
+  // Version the edit is based on; the server rejects the save if it moved on
+  version?: number;
+}
+
 export default function DocumentEditor() {
   const [, navigate] = useLocation();
   const [, params] = useRoute("/document/edit/:id");
@@ -29,6 +37,7 @@ export default function DocumentEditor() {
   const queryClient = useQueryClient();
   const [isGeneratingSummary, setIsGeneratingSummary] = useState(false);
   const [isGeneratingTags, setIsGeneratingTags] = useState(false);
+  const [conflict, setConflict] = useState<{ mine: DocumentFormData; theirs: any } | null>(null);
 
   const isEditing = !!params?.id;
   const documentId = params?.id;
@@ -40,6 +49,7 @@ export default function DocumentEditor() {
       content: "",
       summary: "",
       tags: "",
+      changeDescription: "",
     },
   });
 
@@ -56,25 +66,20 @@ export default function DocumentEditor() {
   // Update form when document loads
   useEffect(() => {
     if (document) {
-      form.reset({
-        title: document.title,
-        content: document.content,
-        summary: document.summary || "",
-        tags: document.tags?.join(", ") || "",
-      });
+      form.reset(toFormValues(document));
     }
   }, [document, form]);
 
   // Save mutation
   const saveMutation = useMutation({
-    mutationFn: async (data: DocumentFormData) => {
+    mutationFn: async ({ data, version }: SaveRequest) => {
       const payload = {
         ...data,
         tags: data.tags ? data.tags.split(",").map(tag => tag.trim()).filter(Boolean) : [],
       };
 
       if (isEditing) {
-        const response = await apiRequest("PUT", `/api/documents/${documentId}`, payload, token!);
+        const response = await apiRequest("PUT", `/api/documents/${documentId}`, { ...payload, version }, token!);
         return await response.json();
       } else {
         const response = await apiRequest("POST", "/api/documents", payload, token!);
@@ -82,6 +87,7 @@ export default function DocumentEditor() {
       }
     },
     onSuccess: () => {
+      setConflict(null);
       queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
       toast({
         title: isEditing ? "Document updated" : "Document created",
@@ -89,7 +95,11 @@ export default function DocumentEditor() {
       });
       navigate("/");
     },
-    onError: (error) => {
+    onError: (error, { data }) => {
+      if (error instanceof ApiError && error.status === 409 && error.data?.document) {
+        setConflict({ mine: data, theirs: error.data.document });
+        return;
+      }
       toast({
         title: "Save failed",
         description: error.message,
@@ -163,7 +173,33 @@ export default function DocumentEditor() {
   });
 
   const onSubmit = (data: DocumentFormData) => {
-    saveMutation.mutate(data);
+    saveMutation.mutate({ data, version: document?.version });
+  };
+
+  const toFormValues = (doc: any): DocumentFormData => ({
+    title: doc.title,
+    content: doc.content,
+    summary: doc.summary || "",
+    tags: doc.tags?.join(", ") || "",
+    changeDescription: "",
+  });
+
+  const handleKeepMine = () => {
+    if (!conflict) return;
+    saveMutation.mutate({ data: conflict.mine, version: conflict.theirs.version });
+  };
+
+  const handleUseTheirs = () => {
+    if (!conflict) return;
+    // Replacing the cached document resets the form to their version
+    queryClient.setQueryData(["/api/documents", documentId], conflict.theirs);
+    setConflict(null);
+  };
+
+  const handleSaveMerged = (values: DocumentFormData) => {
+    if (!conflict) return;
+    form.reset(values);
+    saveMutation.mutate({ data: values, version: conflict.theirs.version });
   };
 
   const handleGenerateSummary = () => {
@@ -326,6 +362,21 @@ export default function DocumentEditor() {
               </CardContent>
             </Card>
 
+            {isEditing && (
+              <div className="space-y-2">
+                <Label htmlFor="changeDescription">Change note (optional)</Label>
+                <Input
+                  id="changeDescription"
+                  placeholder="Describe what you changed"
+                  {...form.register("changeDescription")}
+                  data-testid="input-change-description"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Leave empty to have a description generated from your changes
+                </p>
+              </div>
+            )}
+
             {/* Action Buttons */}
             <div className="flex items-center justify-between">
               <Button
@@ -351,6 +402,19 @@ export default function DocumentEditor() {
           </form>
         </div>
       </main>
+
+      {conflict && document && (
+        <ConflictResolutionModal
+          base={toFormValues(document)}
+          mine={conflict.mine}
+          theirs={{ ...toFormValues(conflict.theirs), version: conflict.theirs.version }}
+          isSaving={saveMutation.isPending}
+          onKeepMine={handleKeepMine}
+          onUseTheirs={handleUseTheirs}
+          onSaveMerged={handleSaveMerged}
+          onClose={() => setConflict(null)}
+        />
+      )}
     </div>
   );
 }
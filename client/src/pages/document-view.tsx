@@ -0,0 +1,283 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useLocation, useRoute, useSearch } from "wouter";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import type { Job } from "@shared/schema";
+import { useAuth } from "@/context/auth-context";
+import { apiRequest } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Toggle } from "@/components/ui/toggle";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import VersionHistoryModal from "@/components/version-history-modal";
+import EnrichmentStatus, { ENRICHMENT_POLL_MS, isEnrichmentActive } from "@/components/enrichment-status";
+import InjectionWarning from "@/components/injection-warning";
+import { ArrowLeft, Edit3, History, GitBranch } from "lucide-react";
+
+interface BlameVersion {
+  version: number;
+  createdAt: string;
+  changeDescription: string | null;
+  author: { id: string; name: string } | null;
+}
+
+interface BlameResult {
+  version: number;
+  lines: { text: string; versionId: string }[];
+  versions: Record<string, BlameVersion>;
+}
+
+// Range of the content to highlight, from ?version=&start=&end= as set by
+// Q&A citations
+function useCitedRange(document: any): { start: number; end: number } | null {
+  const search = useSearch();
+
+  return useMemo(() => {
+    const query = new URLSearchParams(search);
+    const version = parseInt(query.get("version") || "", 10);
+    const start = parseInt(query.get("start") || "", 10);
+    const end = parseInt(query.get("end") || "", 10);
+    if (!document || isNaN(version) || isNaN(start) || isNaN(end) || start >= end) return null;
+
+    if (version === document.version) {
+      return end <= document.content.length ? { start, end } : null;
+    }
+
+    // Cited from an older version: look for the same text in the current one
+    const cited = document.versions?.find((v: any) => v.version === version);
+    const quote = cited?.content.slice(start, end);
+    const index = quote ? document.content.indexOf(quote) : -1;
+    return index === -1 ? null : { start: index, end: index + quote.length };
+  }, [search, document]);
+}
+
+export default function DocumentView() {
+  const [, navigate] = useLocation();
+  const [, params] = useRoute("/document/:id");
+  const { user, token } = useAuth();
+  const queryClient = useQueryClient();
+  const [showBlame, setShowBlame] = useState(false);
+  const [showVersions, setShowVersions] = useState(false);
+
+  const documentId = params?.id;
+
+  const { data: document, isLoading } = useQuery({
+    queryKey: ["/api/documents", documentId],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/documents/${documentId}`, undefined, token!);
+      return await response.json();
+    },
+    enabled: !!documentId && !!token,
+  });
+
+  const { data: enrichment } = useQuery<Job | null>({
+    queryKey: ["/api/documents", documentId, "enrichment"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/documents/${documentId}/enrichment`, undefined, token!);
+      return await response.json();
+    },
+    enabled: !!documentId && !!token,
+    staleTime: 0,
+    refetchInterval: (query) => isEnrichmentActive(query.state.data) ? ENRICHMENT_POLL_MS : false,
+  });
+
+  // Reload the document once enrichment has saved its summary and tags
+  const enriching = isEnrichmentActive(enrichment);
+  const wasEnriching = useRef(enriching);
+  useEffect(() => {
+    if (wasEnriching.current && !enriching) {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents", documentId], exact: true });
+    }
+    wasEnriching.current = enriching;
+  }, [enriching, documentId, queryClient]);
+
+  const { data: blame, isLoading: isBlameLoading } = useQuery<BlameResult>({
+    queryKey: ["/api/documents", documentId, "blame", document?.version],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/documents/${documentId}/blame`, undefined, token!);
+      return await response.json();
+    },
+    enabled: showBlame && !!documentId && !!token && !!document,
+  });
+
+  const citedRange = useCitedRange(document);
+  const citedRef = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    if (citedRange && !showBlame) {
+      citedRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+  }, [citedRange, showBlame]);
+
+  const getInitials = (name: string) => {
+    return name.split(" ").map(n => n[0]).join("").toUpperCase();
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString();
+  };
+
+  const canEdit = !!document && !!user && (document.createdBy.id === user.id || user.role === "admin");
+
+  if (isLoading || !document) {
+    return (
+      <div className="flex-1 overflow-auto">
+        <header className="bg-card border-b border-border px-6 py-4">
+          <div className="h-6 bg-muted rounded w-48 animate-pulse"></div>
+        </header>
+        <main className="p-6">
+          <div className="max-w-4xl mx-auto">
+            <Card>
+              <CardContent className="p-6 space-y-4">
+                <div className="h-4 bg-muted rounded animate-pulse"></div>
+                <div className="h-4 bg-muted rounded w-2/3 animate-pulse"></div>
+                <div className="h-4 bg-muted rounded w-1/2 animate-pulse"></div>
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="flex-1 overflow-auto" data-testid="document-view">
+        {/* Header */}
+        <header className="bg-card border-b border-border px-6 py-4 flex items-center space-x-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")} data-testid="button-back">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div className="flex-1 min-w-0">
+            <h2 className="text-xl font-semibold text-foreground truncate" data-testid="document-view-title">
+              {document.title}
+            </h2>
+            <div className="flex items-center gap-2">
+              <p className="text-sm text-muted-foreground">
+                {document.createdBy.name} • Updated {formatDate(document.updatedAt)} • v{document.version}
+              </p>
+              <EnrichmentStatus documentId={document.id} job={enrichment} canRetry={canEdit} />
+              <InjectionWarning documentId={document.id} warnings={document.injectionWarnings} />
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Toggle
+              pressed={showBlame}
+              onPressedChange={setShowBlame}
+              aria-label="Toggle blame"
+              data-testid="toggle-blame"
+            >
+              <GitBranch className="h-4 w-4 mr-2" />
+              Blame
+            </Toggle>
+            <Button variant="outline" onClick={() => setShowVersions(true)} data-testid="button-view-history">
+              <History className="h-4 w-4 mr-2" />
+              History
+            </Button>
+            {canEdit && (
+              <Button onClick={() => navigate(`/document/edit/${document.id}`)} data-testid="button-edit">
+                <Edit3 className="h-4 w-4 mr-2" />
+                Edit
+              </Button>
+            )}
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <main className="p-6">
+          <div className="max-w-4xl mx-auto space-y-6">
+            {(document.summary || document.tags?.length > 0) && (
+              <Card>
+                <CardContent className="p-6 space-y-4">
+                  {document.summary && (
+                    <p className="text-sm text-muted-foreground" data-testid="document-view-summary">{document.summary}</p>
+                  )}
+                  {document.tags?.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {document.tags.map((tag: string) => (
+                        <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardContent className="p-6">
+                {!showBlame ? (
+                  <div className="whitespace-pre-wrap text-foreground leading-relaxed" data-testid="document-view-content">
+                    {citedRange ? (
+                      <>
+                        {document.content.slice(0, citedRange.start)}
+                        <mark ref={citedRef} className="bg-yellow-200 text-yellow-900 rounded-sm" data-testid="cited-passage">
+                          {document.content.slice(citedRange.start, citedRange.end)}
+                        </mark>
+                        {document.content.slice(citedRange.end)}
+                      </>
+                    ) : (
+                      document.content
+                    )}
+                  </div>
+                ) : isBlameLoading || !blame ? (
+                  <div className="space-y-2">
+                    {Array.from({ length: 6 }).map((_, i) => (
+                      <div key={i} className="h-4 bg-muted rounded animate-pulse"></div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="font-mono text-xs" data-testid="document-blame">
+                    {blame.lines.map((line, index) => {
+                      const version = blame.versions[line.versionId];
+                      const startsGroup = index === 0 || blame.lines[index - 1].versionId !== line.versionId;
+                      return (
+                        <div
+                          key={index}
+                          className={`flex ${startsGroup && index > 0 ? "border-t border-border" : ""}`}
+                          data-testid={`blame-line-${index + 1}`}
+                        >
+                          <div className="w-48 shrink-0 pr-3 py-0.5 border-r border-border">
+                            {startsGroup && version && (
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <div className="flex items-center space-x-2 cursor-default">
+                                    <Avatar className="h-4 w-4">
+                                      <AvatarFallback className="text-[8px] bg-primary text-primary-foreground">
+                                        {getInitials(version.author?.name || "U")}
+                                      </AvatarFallback>
+                                    </Avatar>
+                                    <span className="truncate text-muted-foreground">
+                                      {version.author?.name || "Unknown"}
+                                    </span>
+                                    <Badge variant="outline" className="text-[10px] px-1 py-0">v{version.version}</Badge>
+                                  </div>
+                                </TooltipTrigger>
+                                <TooltipContent>
+                                  <p>{version.changeDescription || `Version ${version.version}`}</p>
+                                  <p className="text-xs text-muted-foreground">{formatDate(version.createdAt)}</p>
+                                </TooltipContent>
+                              </Tooltip>
+                            )}
+                          </div>
+                          <span className="w-10 shrink-0 pr-2 text-right text-muted-foreground select-none py-0.5">
+                            {index + 1}
+                          </span>
+                          <span className="whitespace-pre-wrap break-words py-0.5">{line.text || " "}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+
+      {showVersions && (
+        <VersionHistoryModal documentId={document.id} onClose={() => setShowVersions(false)} />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,92 @@
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { forgotPasswordSchema, type ForgotPasswordData } from "@shared/schema";
+import { apiRequest, ApiError } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { MailCheck } from "lucide-react";
+
+export default function ForgotPassword() {
+  const { toast } = useToast();
+
+  const form = useForm<ForgotPasswordData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  const forgotMutation = useMutation({
+    mutationFn: async (data: ForgotPasswordData) => {
+      const response = await apiRequest("POST", "/api/auth/forgot-password", data);
+      return (await response.json()) as { message: string };
+    },
+    onError: (error) => {
+      toast({
+        title: "Request failed",
+        description: error instanceof ApiError ? error.data?.message ?? error.message : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: ForgotPasswordData) => {
+    forgotMutation.mutate(data);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 px-4" data-testid="forgot-password-page">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold">Forgot your password?</CardTitle>
+          <p className="text-sm text-muted-foreground">We'll email you a link to choose a new one</p>
+        </CardHeader>
+        <CardContent>
+          {forgotMutation.isSuccess ? (
+            <div className="text-center space-y-3" data-testid="forgot-password-sent">
+              <MailCheck className="h-10 w-10 text-primary mx-auto" />
+              <p className="text-sm text-foreground">{forgotMutation.data.message}</p>
+              <p className="text-sm text-muted-foreground">The link expires in an hour.</p>
+            </div>
+          ) : (
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email address</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="Enter your email"
+                  {...form.register("email")}
+                  data-testid="input-email"
+                />
+                {form.formState.errors.email && (
+                  <p className="text-sm text-destructive">{form.formState.errors.email.message}</p>
+                )}
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={forgotMutation.isPending}
+                data-testid="button-send-reset-link"
+              >
+                {forgotMutation.isPending ? "Sending..." : "Send reset link"}
+              </Button>
+            </form>
+          )}
+
+          <div className="mt-6 text-center">
+            <Link href="/" className="text-sm font-medium text-primary hover:underline" data-testid="link-login">
+              Back to sign in
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,19 +3,24 @@ import { Link, useLocation } from "wouter";
 import { useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { loginSchema, type LoginData } from "@shared/schema";
-import { apiRequest } from "@/lib/api";
-import { useAuth } from "@/context/auth-context";
+import { loginSchema, type LoginData, type TwoFactorLoginData } from "@shared/schema";
+import { apiRequest, ApiError } from "@/lib/api";
+import { useAuth, type AuthSession } from "@/context/auth-context";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { useToast } from "@/hooks/use-toast";
 
 export default function Login() {
   const [, navigate] = useLocation();
   const { login } = useAuth();
   const { toast } = useToast();
+  // Set when the password was right and a two-factor code is needed
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
 
   const form = useForm<LoginData>({
     resolver: zodResolver(loginSchema),
@@ -25,23 +30,51 @@ export default function Login() {
     },
   });
 
+  const signedIn = (session: AuthSession) => {
+    login(session);
+    navigate("/");
+    toast({
+      title: "Welcome back!",
+      description: "You have been successfully logged in.",
+    });
+  };
+
   const loginMutation = useMutation({
     mutationFn: async (data: LoginData) => {
       const response = await apiRequest("POST", "/api/auth/login", data);
       return await response.json();
     },
     onSuccess: (data) => {
-      login(data.token, data.user);
-      navigate("/");
+      if (data.twoFactorRequired) {
+        setChallengeToken(data.challengeToken);
+        return;
+      }
+      signedIn(data);
+    },
+    onError: (error) => {
       toast({
-        title: "Welcome back!",
-        description: "You have been successfully logged in.",
+        title: "Login failed",
+        description: error instanceof ApiError ? error.data?.message ?? error.message : error.message,
+        variant: "destructive",
       });
     },
+  });
+
+  const twoFactorMutation = useMutation({
+    mutationFn: async (data: TwoFactorLoginData) => {
+      const response = await apiRequest("POST", "/api/auth/login/two-factor", data);
+      return await response.json();
+    },
+    onSuccess: signedIn,
     onError: (error) => {
+      setCode("");
+      // The challenge has expired: start again from the password
+      if (error instanceof ApiError && error.status === 401 && error.data?.message?.startsWith("Sign-in has expired")) {
+        setChallengeToken(null);
+      }
       toast({
         title: "Login failed",
-        description: error.message,
+        description: error instanceof ApiError ? error.data?.message ?? error.message : error.message,
         variant: "destructive",
       });
     },
@@ -51,6 +84,13 @@ export default function Login() {
     loginMutation.mutate(data);
   };
 
+  const onSubmitCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (challengeToken && code.trim()) {
+      twoFactorMutation.mutate({ challengeToken, code });
+    }
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 px-4" data-testid="login-page">
       <Card className="w-full max-w-md">
@@ -61,46 +101,122 @@ export default function Login() {
             </svg>
           </div>
           <CardTitle className="text-2xl font-bold">AI Knowledge Hub</CardTitle>
-          <p className="text-sm text-muted-foreground">Sign in to your collaborative workspace</p>
+          <p className="text-sm text-muted-foreground">
+            {challengeToken ? "Two-factor authentication" : "Sign in to your collaborative workspace"}
+          </p>
         </CardHeader>
         <CardContent>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="email">Email address</Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="Enter your email"
-                {...form.register("email")}
-                data-testid="input-email"
-              />
-              {form.formState.errors.email && (
-                <p className="text-sm text-destructive">{form.formState.errors.email.message}</p>
+          {challengeToken ? (
+            <form onSubmit={onSubmitCode} className="space-y-4" data-testid="form-two-factor">
+              {useRecoveryCode ? (
+                <div className="space-y-2">
+                  <Label htmlFor="recoveryCode">Recovery code</Label>
+                  <Input
+                    id="recoveryCode"
+                    placeholder="xxxxx-xxxxx"
+                    autoComplete="off"
+                    autoFocus
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    data-testid="input-recovery-code"
+                  />
+                  <p className="text-xs text-muted-foreground">Each recovery code can be used once.</p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label>Enter the 6-digit code from your authenticator app</Label>
+                  <div className="flex justify-center">
+                    <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus data-testid="input-two-factor-code">
+                      <InputOTPGroup>
+                        {Array.from({ length: 6 }, (_, index) => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                </div>
               )}
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                placeholder="Enter your password"
-                {...form.register("password")}
-                data-testid="input-password"
-              />
-              {form.formState.errors.password && (
-                <p className="text-sm text-destructive">{form.formState.errors.password.message}</p>
-              )}
-            </div>
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={twoFactorMutation.isPending || !code.trim()}
+                data-testid="button-verify-code"
+              >
+                {twoFactorMutation.isPending ? "Verifying..." : "Verify"}
+              </Button>
+
+              <div className="flex justify-between">
+                <Button
+                  type="button"
+                  variant="link"
+                  className="px-0"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setCode("");
+                  }}
+                  data-testid="button-toggle-recovery-code"
+                >
+                  {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="link"
+                  className="px-0"
+                  onClick={() => {
+                    setChallengeToken(null);
+                    setCode("");
+                  }}
+                  data-testid="button-back-to-password"
+                >
+                  Back
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email address</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="Enter your email"
+                  {...form.register("email")}
+                  data-testid="input-email"
+                />
+                {form.formState.errors.email && (
+                  <p className="text-sm text-destructive">{form.formState.errors.email.message}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password">Password</Label>
+                  <Link href="/forgot-password" className="text-sm text-primary hover:underline" data-testid="link-forgot-password">
+                    Forgot password?
+                  </Link>
+                </div>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="Enter your password"
+                  {...form.register("password")}
+                  data-testid="input-password"
+                />
+                {form.formState.errors.password && (
+                  <p className="text-sm text-destructive">{form.formState.errors.password.message}</p>
+                )}
+              </div>
             
-            <Button
-              type="submit"
-              className="w-full"
-              disabled={loginMutation.isPending}
-              data-testid="button-login"
-            >
-              {loginMutation.isPending ? "Signing in..." : "Sign in"}
-            </Button>
-          </form>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={loginMutation.isPending}
+                data-testid="button-login"
+              >
+                {loginMutation.isPending ? "Signing in..." : "Sign in"}
+              </Button>
+            </form>
+          )}
           
           <div className="mt-6 text-center">
             <span className="text-sm text-muted-foreground">Don't have an account? </span>
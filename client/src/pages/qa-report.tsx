@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import type { QAReport } from "@shared/schema";
+import { useAuth } from "@/context/auth-context";
+import { apiRequest } from "@/lib/api";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, FileQuestion, FileText, ThumbsDown } from "lucide-react";
+
+const periods = [7, 30, 90, 365];
+
+export default function QAReportPage() {
+  const { user, token } = useAuth();
+  const [days, setDays] = useState(30);
+
+  const { data: report, isLoading } = useQuery<QAReport>({
+    queryKey: ["/api/admin/qa-report", days],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/admin/qa-report?days=${days}`, undefined, token!);
+      return await response.json();
+    },
+    enabled: !!token && user?.role === "admin",
+  });
+
+  const formatDate = (date: string | Date) => {
+    return new Date(date).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+  };
+
+  if (user?.role !== "admin") {
+    return (
+      <div className="flex-1 overflow-auto p-6">
+        <Card className="max-w-2xl mx-auto">
+          <CardContent className="p-12 text-center">
+            <h3 className="text-lg font-semibold text-foreground mb-2">Admin access required</h3>
+            <p className="text-muted-foreground">Only administrators can view Q&A quality reports.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const totals = report?.totals;
+  const rated = totals ? totals.ratedUp + totals.ratedDown : 0;
+
+  return (
+    <div className="flex-1 overflow-auto" data-testid="qa-report-page">
+      {/* Header */}
+      <header className="bg-card border-b border-border px-6 py-4 flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <Link href="/admin">
+            <Button variant="ghost" size="icon" data-testid="button-back">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h2 className="text-xl font-semibold text-foreground">Q&A Quality</h2>
+            <p className="text-sm text-muted-foreground mt-1">How well the assistant answers, and what the knowledge base is missing</p>
+          </div>
+        </div>
+        <Select value={String(days)} onValueChange={(value) => setDays(parseInt(value, 10))}>
+          <SelectTrigger className="w-40" data-testid="select-report-period">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {periods.map((period) => (
+              <SelectItem key={period} value={String(period)}>Last {period} days</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </header>
+
+      {/* Main Content */}
+      <main className="p-6">
+        <div className="max-w-5xl mx-auto space-y-6">
+          {isLoading || !report ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin h-8 w-8 border-2 border-primary border-t-transparent rounded-full" />
+            </div>
+          ) : (
+            <>
+              {/* Totals */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <Card>
+                  <CardContent className="p-4">
+                    <p className="text-sm text-muted-foreground">Answers</p>
+                    <p className="text-2xl font-semibold text-foreground" data-testid="text-total-answers">{totals!.answers}</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4">
+                    <p className="text-sm text-muted-foreground">Without a source</p>
+                    <p className="text-2xl font-semibold text-foreground" data-testid="text-total-uncited">{totals!.uncited}</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4">
+                    <p className="text-sm text-muted-foreground">Rated helpful</p>
+                    <p className="text-2xl font-semibold text-foreground" data-testid="text-total-up">
+                      {rated > 0 ? `${Math.round((totals!.ratedUp / rated) * 100)}%` : "–"}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{rated} rating{rated !== 1 ? "s" : ""}</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4">
+                    <p className="text-sm text-muted-foreground">Rated unhelpful</p>
+                    <p className="text-2xl font-semibold text-foreground" data-testid="text-total-down">{totals!.ratedDown}</p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              {/* Unsourced questions */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <FileQuestion className="h-5 w-5" />
+                    Questions without a good source
+                  </CardTitle>
+                  <CardDescription>
+                    Questions answered without citing a document, or rated unhelpful. Frequent ones are good candidates for new documents.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {report.unsourcedQuestions.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Every question in this period was answered from a source.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Question</TableHead>
+                          <TableHead className="w-24 text-right">Asked</TableHead>
+                          <TableHead className="w-28 text-right">Rated down</TableHead>
+                          <TableHead className="w-32">Last asked</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {report.unsourcedQuestions.map((entry, index) => (
+                          <TableRow key={index} data-testid={`unsourced-question-${index}`}>
+                            <TableCell className="text-foreground">{entry.question}</TableCell>
+                            <TableCell className="text-right">{entry.count}</TableCell>
+                            <TableCell className="text-right">{entry.ratedDown}</TableCell>
+                            <TableCell className="text-muted-foreground">{formatDate(entry.lastAskedAt)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Low-rated answers */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ThumbsDown className="h-5 w-5" />
+                    Low-rated answers
+                  </CardTitle>
+                  <CardDescription>Answers users marked as unhelpful, newest first.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {report.lowRated.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No answers were rated unhelpful in this period.</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {report.lowRated.map((entry) => (
+                        <div key={entry.id} className="border border-border rounded-lg p-4 space-y-2" data-testid={`low-rated-${entry.id}`}>
+                          <div className="flex items-center justify-between">
+                            <p className="font-medium text-foreground">{entry.question || "(question unavailable)"}</p>
+                            <span className="text-xs text-muted-foreground whitespace-nowrap ml-4">
+                              {entry.user.name} · {formatDate(entry.createdAt)}
+                            </span>
+                          </div>
+                          <p className="text-sm text-muted-foreground line-clamp-3 whitespace-pre-line">{entry.answer}</p>
+                          {entry.comment && (
+                            <blockquote className="border-l-2 border-destructive pl-3 text-sm italic text-foreground">
+                              {entry.comment}
+                            </blockquote>
+                          )}
+                          <div className="flex flex-wrap items-center gap-2">
+                            {entry.citedDocuments.map((document) => (
+                              <Link key={document.id} href={`/document/${document.id}`}>
+                                <Badge variant="secondary" className="cursor-pointer">
+                                  <FileText className="h-3 w-3 mr-1" />
+                                  {document.title}
+                                </Badge>
+                              </Link>
+                            ))}
+                            {entry.citedDocuments.length === 0 && (
+                              <Badge variant="outline">No sources cited</Badge>
+                            )}
+                            {entry.model && (
+                              <span className="text-xs text-muted-foreground ml-auto">{entry.model}</span>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
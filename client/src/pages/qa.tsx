@@ -1,28 +1,53 @@
-import { useState } from "react";
-import { useMutation, useQuery } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { useLocation, useRoute } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { Citation, ConversationMessageWithFeedback, ConversationWithMessages } from "@shared/schema";
 import { useAuth } from "@/context/auth-context";
-import { apiRequest } from "@/lib/api";
+import { apiRequest, streamRequest } from "@/lib/api";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import ConversationList from "@/components/conversation-list";
+import AnswerFeedback from "@/components/answer-feedback";
 import { useToast } from "@/hooks/use-toast";
-import { Send, Bot, User, Sparkles, FileText } from "lucide-react";
+import { Send, Bot, User, Sparkles, FileText, Square, Users } from "lucide-react";
 
 interface ChatMessage {
   id: string;
   type: "user" | "ai";
   content: string;
   timestamp: Date;
-  sources?: string[];
+  sources?: Citation[];
+  // Set when the user stopped the answer before it finished
+  stopped?: boolean;
+  // Present on messages loaded from the server, which can be rated
+  feedback?: ConversationMessageWithFeedback["feedback"];
+}
+
+function toChatMessage(message: ConversationMessageWithFeedback): ChatMessage {
+  return {
+    id: message.id,
+    type: message.role === "user" ? "user" : "ai",
+    content: message.content,
+    timestamp: new Date(message.createdAt),
+    sources: message.citations,
+    feedback: message.feedback,
+  };
 }
 
 export default function QAPage() {
+  const [, navigate] = useLocation();
+  const [, params] = useRoute("/qa/:id?");
+  const conversationId = params?.id;
   const { user, token } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [question, setQuestion] = useState("");
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
 
   // Fetch documents for context (optional - to show available knowledge)
   const { data: documents = [] } = useQuery({
@@ -34,28 +59,71 @@ export default function QAPage() {
     enabled: !!token,
   });
 
-  const askQuestionMutation = useMutation({
-    mutationFn: async (question: string) => {
-      const response = await apiRequest("POST", "/api/ai/qa", { question }, token!);
+  const { data: conversation, error: conversationError } = useQuery<ConversationWithMessages>({
+    queryKey: ["/api/conversations", conversationId],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/conversations/${conversationId}`, undefined, token!);
       return await response.json();
     },
-    onSuccess: (data, question) => {
-      const userMessage: ChatMessage = {
-        id: Date.now().toString() + "-user",
-        type: "user",
-        content: question,
-        timestamp: new Date(),
-      };
+    enabled: !!token && !!conversationId,
+  });
+
+  // Shared conversations of other users can be read but not continued
+  const readOnly = !!conversation && conversation.userId !== user?.id;
+  const askerName = (readOnly ? conversation.owner.name : user?.name) || "You";
 
-      const aiMessage: ChatMessage = {
-        id: Date.now().toString() + "-ai",
-        type: "ai",
-        content: data.answer,
-        timestamp: new Date(),
-      };
+  const updateMessage = (id: string, update: (message: ChatMessage) => ChatMessage) => {
+    setMessages(prev => prev.map(message => message.id === id ? update(message) : message));
+  };
 
-      setMessages(prev => [...prev, userMessage, aiMessage]);
+  const askQuestionMutation = useMutation({
+    mutationFn: async (question: string) => {
+      const now = Date.now().toString();
+      const aiMessageId = now + "-ai";
+      setMessages(prev => [
+        ...prev,
+        { id: now + "-user", type: "user", content: question, timestamp: new Date() },
+        { id: aiMessageId, type: "ai", content: "", timestamp: new Date() },
+      ]);
       setQuestion("");
+
+      const controller = new AbortController();
+      abortRef.current = controller;
+      let answeredIn = conversationId;
+      try {
+        const events = streamRequest("/api/ai/qa/stream", { question, conversationId }, token!, controller.signal);
+        for await (const { event, data } of events) {
+          if (event === "conversation") {
+            answeredIn = data.conversationId;
+            if (answeredIn !== conversationId) navigate(`/qa/${answeredIn}`);
+          } else if (event === "token") {
+            updateMessage(aiMessageId, message => ({ ...message, content: message.content + data.text }));
+          } else if (event === "citations") {
+            updateMessage(aiMessageId, message => ({ ...message, sources: data.citations }));
+          } else if (event === "done") {
+            // The final answer has its markers renumbered to match the citations
+            updateMessage(aiMessageId, message => ({ ...message, content: data.answer }));
+          } else if (event === "error") {
+            throw new Error(data.message);
+          }
+        }
+      } catch (error) {
+        if (controller.signal.aborted) {
+          updateMessage(aiMessageId, message => ({ ...message, stopped: true }));
+          return;
+        }
+        setMessages(prev => prev.filter(message => message.id !== aiMessageId || message.content));
+        throw error;
+      } finally {
+        abortRef.current = null;
+        queryClient.invalidateQueries({ queryKey: ["/api/conversations"], exact: true });
+        // A stopped answer is saved by the server after the request is gone,
+        // so its conversation is only reloaded the next time it is opened
+        queryClient.invalidateQueries({
+          queryKey: ["/api/conversations", answeredIn],
+          refetchType: controller.signal.aborted ? "none" : "active",
+        });
+      }
     },
     onError: (error) => {
       toast({
@@ -66,6 +134,17 @@ export default function QAPage() {
     },
   });
 
+  const stopAnswer = () => {
+    abortRef.current?.abort();
+  };
+
+  // Show the stored messages of the open conversation, except while an answer
+  // is streaming into the local copy
+  useEffect(() => {
+    if (askQuestionMutation.isPending) return;
+    setMessages(conversation ? conversation.messages.map(toChatMessage) : []);
+  }, [conversationId, conversation]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!question.trim()) return;
@@ -73,6 +152,16 @@ export default function QAPage() {
     askQuestionMutation.mutate(question.trim());
   };
 
+  if (conversationError) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center p-6 text-center" data-testid="qa-page">
+        <h2 className="text-lg font-semibold text-foreground mb-2">Conversation not found</h2>
+        <p className="text-muted-foreground mb-4">It may have been deleted, or it isn't shared with you.</p>
+        <Button onClick={() => navigate("/qa")}>New conversation</Button>
+      </div>
+    );
+  }
+
   const getInitials = (name: string) => {
     return name.split(" ").map(n => n[0]).join("").toUpperCase();
   };
@@ -84,8 +173,13 @@ export default function QAPage() {
     });
   };
 
-  const clearChat = () => {
-    setMessages([]);
+  const openCitation = (citation: Citation) => {
+    const params = new URLSearchParams({
+      version: String(citation.version),
+      start: String(citation.startOffset),
+      end: String(citation.endOffset),
+    });
+    navigate(`/document/${citation.documentId}?${params}`);
   };
 
   return (
@@ -98,18 +192,21 @@ export default function QAPage() {
             <span>AI Q&A Assistant</span>
           </h2>
           <p className="text-sm text-muted-foreground mt-1">
-            Ask questions about your team's knowledge base
+            {conversation ? conversation.title : "Ask questions about your team's knowledge base"}
           </p>
         </div>
-        {messages.length > 0 && (
-          <Button variant="outline" onClick={clearChat} data-testid="button-clear-chat">
-            Clear Chat
-          </Button>
+        {readOnly && (
+          <div className="flex items-center space-x-2 text-sm text-muted-foreground" data-testid="text-shared-by">
+            <Users className="h-4 w-4" />
+            <span>Shared by {conversation.owner.name}</span>
+          </div>
         )}
       </header>
 
       {/* Main Content */}
-      <main className="p-6 flex-1 flex flex-col">
+      <main className="p-6 flex-1 flex gap-6">
+        {!readOnly && <ConversationList activeId={conversationId} />}
+
         <div className="max-w-4xl mx-auto w-full flex-1 flex flex-col">
           {/* Knowledge Base Info */}
           {documents.length > 0 && messages.length === 0 && (
@@ -152,7 +249,7 @@ export default function QAPage() {
                   </div>
                 ) : (
                   <div className="space-y-6">
-                    {messages.map((message) => (
+                    {messages.filter(message => message.type === "user" || message.content).map((message) => (
                       <div 
                         key={message.id} 
                         className="flex items-start space-x-3"
@@ -167,7 +264,7 @@ export default function QAPage() {
                             }
                           >
                             {message.type === "user" ? (
-                              getInitials(user?.name || "You")
+                              getInitials(askerName)
                             ) : (
                               <Bot className="h-4 w-4" />
                             )}
@@ -177,7 +274,7 @@ export default function QAPage() {
                         <div className="flex-1 min-w-0">
                           <div className="flex items-center space-x-2 mb-1">
                             <span className="text-sm font-medium text-foreground">
-                              {message.type === "user" ? user?.name || "You" : "AI Assistant"}
+                              {message.type === "user" ? askerName : "AI Assistant"}
                             </span>
                             <span className="text-xs text-muted-foreground">
                               {formatTime(message.timestamp)}
@@ -185,22 +282,48 @@ export default function QAPage() {
                           </div>
                           
                           {message.type === "ai" ? (
-                            <div className="bg-muted rounded-lg p-4">
-                              <div className="prose prose-sm max-w-none text-foreground">
-                                {message.content.split('\n').map((paragraph, index) => (
-                                  <p key={index} className={index > 0 ? "mt-2" : ""}>
-                                    {paragraph}
-                                  </p>
-                                ))}
+                            <>
+                              <div className="bg-muted rounded-lg p-4">
+                                <div className="prose prose-sm max-w-none text-foreground">
+                                  {message.content.split('\n').map((paragraph, index) => (
+                                    <p key={index} className={index > 0 ? "mt-2" : ""}>
+                                      {paragraph}
+                                    </p>
+                                  ))}
+                                </div>
+                                {message.stopped && (
+                                  <p className="mt-2 text-xs text-muted-foreground italic">Stopped</p>
+                                )}
+                                {message.sources && message.sources.length > 0 && (
+                                  <div className="mt-3 pt-3 border-t border-border flex flex-wrap gap-2" data-testid={`sources-${message.id}`}>
+                                    {message.sources.map((citation) => (
+                                      <Tooltip key={citation.marker}>
+                                        <TooltipTrigger asChild>
+                                          <button
+                                            type="button"
+                                            onClick={() => openCitation(citation)}
+                                            className="inline-flex items-center gap-1 rounded-full border border-border bg-background px-2 py-0.5 text-xs text-foreground hover:bg-accent hover:text-accent-foreground"
+                                            data-testid={`citation-${message.id}-${citation.marker}`}
+                                          >
+                                            <span className="font-medium">[{citation.marker}]</span>
+                                            <FileText className="h-3 w-3" />
+                                            <span className="max-w-[12rem] truncate">{citation.title}</span>
+                                          </button>
+                                        </TooltipTrigger>
+                                        <TooltipContent className="max-w-sm">
+                                          <p className="text-xs italic">"{citation.quote}"</p>
+                                        </TooltipContent>
+                                      </Tooltip>
+                                    ))}
+                                  </div>
+                                )}
                               </div>
-                              {message.sources && message.sources.length > 0 && (
-                                <div className="mt-3 pt-3 border-t border-border">
-                                  <p className="text-xs text-muted-foreground">
-                                    Sources: {message.sources.join(", ")}
-                                  </p>
+                              {message.feedback !== undefined && conversationId && !readOnly && (
+                                <div className="mt-1">
+                                  <AnswerFeedback conversationId={conversationId} messageId={message.id} feedback={message.feedback} />
                                 </div>
                               )}
-                            </div>
+                            </>
                           ) : (
                             <p className="text-foreground">{message.content}</p>
                           )}
@@ -208,7 +331,7 @@ export default function QAPage() {
                       </div>
                     ))}
                     
-                    {askQuestionMutation.isPending && (
+                    {askQuestionMutation.isPending && !messages[messages.length - 1]?.content && (
                       <div className="flex items-start space-x-3">
                         <Avatar className="h-8 w-8">
                           <AvatarFallback className="bg-accent text-accent-foreground">
@@ -235,38 +358,55 @@ export default function QAPage() {
             </div>
 
             {/* Chat Input */}
-            <div className="border-t border-border p-4">
-              <form onSubmit={handleSubmit} className="flex space-x-2">
-                <Input
-                  type="text"
-                  placeholder="Ask a question about your team's knowledge..."
-                  value={question}
-                  onChange={(e) => setQuestion(e.target.value)}
-                  className="flex-1"
-                  disabled={askQuestionMutation.isPending}
-                  data-testid="input-question"
-                />
-                <Button
-                  type="submit"
-                  disabled={!question.trim() || askQuestionMutation.isPending}
-                  className="bg-gradient-to-r from-accent to-primary text-white border-0 hover:opacity-90"
-                  data-testid="button-send-question"
-                >
+            {readOnly ? (
+              <div className="border-t border-border p-4 text-center text-sm text-muted-foreground">
+                This conversation is read-only.{" "}
+                <button type="button" onClick={() => navigate("/qa")} className="text-primary hover:underline">
+                  Start your own
+                </button>
+              </div>
+            ) : (
+              <div className="border-t border-border p-4">
+                <form onSubmit={handleSubmit} className="flex space-x-2">
+                  <Input
+                    type="text"
+                    placeholder="Ask a question about your team's knowledge..."
+                    value={question}
+                    onChange={(e) => setQuestion(e.target.value)}
+                    className="flex-1"
+                    disabled={askQuestionMutation.isPending}
+                    data-testid="input-question"
+                  />
                   {askQuestionMutation.isPending ? (
-                    <div className="animate-spin h-4 w-4 border-2 border-white border-t-transparent rounded-full" />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={stopAnswer}
+                      data-testid="button-stop-answer"
+                    >
+                      <Square className="h-4 w-4 mr-2" />
+                      Stop
+                    </Button>
                   ) : (
-                    <Send className="h-4 w-4" />
+                    <Button
+                      type="submit"
+                      disabled={!question.trim()}
+                      className="bg-gradient-to-r from-accent to-primary text-white border-0 hover:opacity-90"
+                      data-testid="button-send-question"
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
                   )}
-                </Button>
-              </form>
+                </form>
               
-              <div className="flex items-center justify-center mt-2">
-                <div className="flex items-center space-x-1 text-xs text-muted-foreground">
-                  <Sparkles className="h-3 w-3" />
-                  <span>Powered by AI • Answers based on your knowledge base</span>
+                <div className="flex items-center justify-center mt-2">
+                  <div className="flex items-center space-x-1 text-xs text-muted-foreground">
+                    <Sparkles className="h-3 w-3" />
+                    <span>Powered by AI • Answers based on your knowledge base</span>
+                  </div>
                 </div>
               </div>
-            </div>
+            )}
           </Card>
         </div>
       </main>
@@ -33,11 +33,11 @@ export default function Register() {
       return await response.json();
     },
     onSuccess: (data) => {
-      login(data.token, data.user);
+      login(data);
       navigate("/");
       toast({
         title: "Account created!",
-        description: "Welcome to the AI Knowledge Hub.",
+        description: "Welcome to the AI Knowledge Hub. Check your email for a link to verify your address.",
       });
     },
     onError: (error) => {
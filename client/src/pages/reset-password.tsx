@@ -0,0 +1,123 @@
+import { Link, useLocation, useSearch } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { resetPasswordSchema, type ResetPasswordData } from "@shared/schema";
+import { apiRequest, ApiError } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+
+const resetFormSchema = resetPasswordSchema
+  .pick({ password: true })
+  .extend({ confirmPassword: z.string() })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
+type ResetFormData = z.infer<typeof resetFormSchema>;
+
+export default function ResetPassword() {
+  const [, navigate] = useLocation();
+  const token = new URLSearchParams(useSearch()).get("token");
+  const { toast } = useToast();
+
+  const form = useForm<ResetFormData>({
+    resolver: zodResolver(resetFormSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (data: ResetPasswordData) => {
+      const response = await apiRequest("POST", "/api/auth/reset-password", data);
+      return (await response.json()) as { message: string };
+    },
+    onSuccess: (data) => {
+      navigate("/");
+      toast({
+        title: "Password reset",
+        description: data.message,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Password reset failed",
+        description: error instanceof ApiError ? error.data?.message ?? error.message : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: ResetFormData) => {
+    resetMutation.mutate({ token: token!, password: data.password });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 px-4" data-testid="reset-password-page">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold">Choose a new password</CardTitle>
+          <p className="text-sm text-muted-foreground">You'll be signed out of all your devices</p>
+        </CardHeader>
+        <CardContent>
+          {!token ? (
+            <p className="text-sm text-center text-muted-foreground" data-testid="text-missing-token">
+              This link is incomplete. Open the link from your email again, or ask for a new one.
+            </p>
+          ) : (
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="password">New password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="Enter a new password"
+                  {...form.register("password")}
+                  data-testid="input-password"
+                />
+                {form.formState.errors.password && (
+                  <p className="text-sm text-destructive">{form.formState.errors.password.message}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  placeholder="Enter it again"
+                  {...form.register("confirmPassword")}
+                  data-testid="input-confirm-password"
+                />
+                {form.formState.errors.confirmPassword && (
+                  <p className="text-sm text-destructive">{form.formState.errors.confirmPassword.message}</p>
+                )}
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={resetMutation.isPending}
+                data-testid="button-reset-password"
+              >
+                {resetMutation.isPending ? "Saving..." : "Reset password"}
+              </Button>
+            </form>
+          )}
+
+          <div className="mt-6 text-center">
+            <Link href="/forgot-password" className="text-sm font-medium text-primary hover:underline" data-testid="link-forgot-password">
+              Send a new link
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
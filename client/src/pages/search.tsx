@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/context/auth-context";
 import { apiRequest } from "@/lib/api";
@@ -12,6 +13,7 @@ import { Label } from "@/components/ui/label";
 import { Search, Sparkles, ExternalLink } from "lucide-react";
 
 export default function SearchPage() {
+  const [, navigate] = useLocation();
   const { token } = useAuth();
   const [query, setQuery] = useState("");
   const [searchType, setSearchType] = useState("text");
@@ -149,7 +151,10 @@ export default function SearchPage() {
                     <Card key={result.id} className="hover:shadow-md transition-shadow" data-testid={`search-result-${result.id}`}>
                       <CardContent className="p-6">
                         <div className="flex items-start justify-between mb-4">
-                          <h4 className="text-lg font-semibold text-foreground hover:text-primary cursor-pointer flex-1">
+                          <h4
+                            className="text-lg font-semibold text-foreground hover:text-primary cursor-pointer flex-1"
+                            onClick={() => navigate(`/document/${result.id}`)}
+                          >
                             {highlightText(result.title, query)}
                           </h4>
                           <div className="flex items-center space-x-2 ml-4">
@@ -158,18 +163,40 @@ export default function SearchPage() {
                                 {result.relevance}% match
                               </Badge>
                             )}
-                            <Button variant="ghost" size="icon" className="h-8 w-8">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => navigate(`/document/${result.id}`)}
+                              data-testid={`search-open-${result.id}`}
+                            >
                               <ExternalLink className="h-3 w-3" />
                             </Button>
                           </div>
                         </div>
 
-                        <p className="text-muted-foreground mb-4 leading-relaxed" data-testid={`search-snippet-${result.id}`}>
-                          {highlightText(
-                            result.summary || result.content.substring(0, 200) + "...",
-                            query
-                          )}
-                        </p>
+                        {result.matches?.length > 0 ? (
+                          <blockquote
+                            className="border-l-2 border-primary pl-3 text-muted-foreground mb-4 leading-relaxed"
+                            data-testid={`search-snippet-${result.id}`}
+                          >
+                            {result.matches[0].content.length > 300
+                              ? result.matches[0].content.substring(0, 300) + "..."
+                              : result.matches[0].content}
+                            {result.matches.length > 1 && (
+                              <span className="block text-xs mt-1">
+                                +{result.matches.length - 1} more matching passage{result.matches.length > 2 ? "s" : ""}
+                              </span>
+                            )}
+                          </blockquote>
+                        ) : (
+                          <p className="text-muted-foreground mb-4 leading-relaxed" data-testid={`search-snippet-${result.id}`}>
+                            {highlightText(
+                              result.summary || result.content.substring(0, 200) + "...",
+                              query
+                            )}
+                          </p>
+                        )}
 
                         {/* Tags */}
                         <div className="flex flex-wrap gap-2 mb-4">
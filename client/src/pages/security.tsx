@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { TwoFactorSetup, TwoFactorStatus } from "@shared/schema";
+import { useAuth } from "@/context/auth-context";
+import { apiRequest, ApiError } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, KeyRound, ShieldCheck } from "lucide-react";
+
+const errorMessage = (error: Error) => (error instanceof ApiError ? error.data?.message ?? error.message : error.message);
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} data-testid="input-two-factor-code">
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+// Shown once, right after they are created
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const { toast } = useToast();
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    toast({ title: "Recovery codes copied" });
+  };
+
+  return (
+    <div className="space-y-4" data-testid="recovery-codes">
+      <p className="text-sm text-muted-foreground">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose access to your authenticator app.
+        They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border border-border bg-muted p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={copy} data-testid="button-copy-recovery-codes">
+          <Copy className="h-4 w-4 mr-2" />
+          Copy
+        </Button>
+        <Button onClick={onDone} data-testid="button-recovery-codes-saved">I've saved them</Button>
+      </div>
+    </div>
+  );
+}
+
+export default function Security() {
+  const { user, token, refreshUser } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/two-factor"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/auth/two-factor", undefined, token!);
+      return await response.json();
+    },
+    enabled: !!token,
+  });
+
+  const changed = () => {
+    setCode("");
+    setPassword("");
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/two-factor"] });
+    // The user's role can depend on whether two-factor authentication is on
+    refreshUser().catch(() => undefined);
+  };
+
+  const onError = (error: Error) => {
+    setCode("");
+    setPassword("");
+    toast({
+      title: "Two-factor authentication",
+      description: errorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/two-factor/setup", undefined, token!);
+      return (await response.json()) as TwoFactorSetup;
+    },
+    onSuccess: (data) => {
+      setCode("");
+      setSetup(data);
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/two-factor/enable", { code }, token!);
+      return (await response.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      setSetup(null);
+      setRecoveryCodes(data.recoveryCodes);
+      changed();
+      toast({ title: "Two-factor authentication is on" });
+    },
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/two-factor/recovery-codes", { code }, token!);
+      return (await response.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      changed();
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/two-factor/disable", { password, code }, token!);
+    },
+    onSuccess: () => {
+      changed();
+      toast({ title: "Two-factor authentication is off" });
+    },
+    onError,
+  });
+
+  const busy = enableMutation.isPending || regenerateMutation.isPending || disableMutation.isPending;
+
+  return (
+    <div className="flex-1 overflow-auto" data-testid="security-page">
+      {/* Header */}
+      <header className="bg-card border-b border-border px-6 py-4">
+        <h2 className="text-xl font-semibold text-foreground">Account Security</h2>
+        <p className="text-sm text-muted-foreground mt-1">Sign-in protection for {user?.email}</p>
+      </header>
+
+      {/* Main Content */}
+      <main className="p-6">
+        <div className="max-w-2xl mx-auto space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5" />
+                Two-factor authentication
+                {status?.enabled && <Badge variant="secondary" data-testid="badge-two-factor-on">On</Badge>}
+              </CardTitle>
+              <CardDescription>
+                Asks for a code from an authenticator app, such as Google Authenticator or 1Password, each time you sign in.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {user?.twoFactorSetupRequired && (
+                <p className="text-sm text-amber-700 dark:text-amber-400">
+                  Admins must use two-factor authentication. Your admin access is paused until you turn it on.
+                </p>
+              )}
+
+              {isLoading || !status ? (
+                <div className="flex justify-center py-6">
+                  <div className="animate-spin h-6 w-6 border-2 border-primary border-t-transparent rounded-full" />
+                </div>
+              ) : recoveryCodes ? (
+                <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+              ) : status.enabled ? (
+                <div className="space-y-4">
+                  <p className="text-sm text-muted-foreground" data-testid="text-recovery-codes-remaining">
+                    {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining !== 1 ? "s" : ""} left.
+                  </p>
+                  <div className="space-y-2">
+                    <Label>Enter a code from your app to make changes</Label>
+                    <CodeInput value={code} onChange={setCode} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="two-factor-password">Password, to turn it off</Label>
+                    <Input
+                      id="two-factor-password"
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="max-w-xs"
+                      data-testid="input-two-factor-password"
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      disabled={busy || code.length < 6}
+                      onClick={() => regenerateMutation.mutate()}
+                      data-testid="button-regenerate-recovery-codes"
+                    >
+                      <KeyRound className="h-4 w-4 mr-2" />
+                      New recovery codes
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      disabled={busy || code.length < 6 || !password}
+                      onClick={() => disableMutation.mutate()}
+                      data-testid="button-disable-two-factor"
+                    >
+                      Turn off
+                    </Button>
+                  </div>
+                </div>
+              ) : setup ? (
+                <div className="space-y-4" data-testid="two-factor-setup">
+                  <p className="text-sm text-muted-foreground">
+                    Scan this QR code with your authenticator app, or enter the key by hand. Then enter the code the app shows.
+                  </p>
+                  <img src={setup.qrCode} alt="QR code for your authenticator app" className="h-48 w-48 rounded-md border border-border" />
+                  <div className="space-y-2">
+                    <Label htmlFor="secret">Key</Label>
+                    <Input id="secret" readOnly value={setup.secret} className="font-mono" data-testid="text-two-factor-secret" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Code from your app</Label>
+                    <CodeInput value={code} onChange={setCode} />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      disabled={busy || code.length < 6}
+                      onClick={() => enableMutation.mutate()}
+                      data-testid="button-enable-two-factor"
+                    >
+                      {enableMutation.isPending ? "Checking..." : "Turn on"}
+                    </Button>
+                    <Button variant="ghost" onClick={() => setSetup(null)} data-testid="button-cancel-setup">
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <Button
+                  onClick={() => setupMutation.mutate()}
+                  disabled={setupMutation.isPending}
+                  data-testid="button-setup-two-factor"
+                >
+                  {setupMutation.isPending ? "Preparing..." : "Set up two-factor authentication"}
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/context/auth-context";
+import { apiRequest } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { useToast } from "@/hooks/use-toast";
+import { Trash2, RotateCcw } from "lucide-react";
+
+export default function TrashPage() {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: documents = [], isLoading } = useQuery({
+    queryKey: ["/api/trash"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/trash", undefined, token!);
+      return await response.json();
+    },
+    enabled: !!token,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/trash/${id}/restore`, undefined, token!);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      toast({
+        title: "Document restored",
+        description: "The document is back on the dashboard.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Restore failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/trash/${id}`, undefined, token!);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      toast({
+        title: "Document deleted",
+        description: "The document has been permanently deleted.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Delete failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handlePurge = (id: string) => {
+    if (confirm("Permanently delete this document and its version history? This cannot be undone.")) {
+      purgeMutation.mutate(id);
+    }
+  };
+
+  const getInitials = (name: string) => {
+    return name.split(" ").map(n => n[0]).join("").toUpperCase();
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString();
+  };
+
+  return (
+    <div className="flex-1 overflow-auto" data-testid="trash-page">
+      {/* Header */}
+      <header className="bg-card border-b border-border px-6 py-4">
+        <h2 className="text-xl font-semibold text-foreground">Trash</h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          Deleted documents are kept here for a while before they are removed permanently
+        </p>
+      </header>
+
+      {/* Main Content */}
+      <main className="p-6">
+        <div className="max-w-4xl mx-auto space-y-4">
+          {isLoading ? (
+            Array.from({ length: 3 }).map((_, i) => (
+              <Card key={i} className="animate-pulse">
+                <CardContent className="p-6">
+                  <div className="h-4 bg-muted rounded w-3/4 mb-4"></div>
+                  <div className="h-3 bg-muted rounded w-1/2"></div>
+                </CardContent>
+              </Card>
+            ))
+          ) : documents.length === 0 ? (
+            <Card>
+              <CardContent className="p-12 text-center">
+                <Trash2 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-semibold text-foreground mb-2">Trash is empty</h3>
+                <p className="text-muted-foreground">Documents you delete will appear here.</p>
+              </CardContent>
+            </Card>
+          ) : (
+            documents.map((document: any) => (
+              <Card key={document.id} data-testid={`trash-item-${document.id}`}>
+                <CardContent className="p-6 flex items-center justify-between">
+                  <div className="flex-1 min-w-0 mr-4">
+                    <h4 className="text-lg font-semibold text-foreground truncate">{document.title}</h4>
+                    <div className="flex items-center space-x-2 mt-1">
+                      <Avatar className="h-5 w-5">
+                        <AvatarFallback className="text-xs bg-primary text-primary-foreground">
+                          {getInitials(document.createdBy.name)}
+                        </AvatarFallback>
+                      </Avatar>
+                      <span className="text-sm text-muted-foreground">
+                        {document.createdBy.name} • Deleted {formatDate(document.deletedAt)}
+                        {document.deletedBy && ` by ${document.deletedBy.name}`}
+                      </span>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => restoreMutation.mutate(document.id)}
+                      disabled={restoreMutation.isPending}
+                      data-testid={`trash-restore-${document.id}`}
+                    >
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Restore
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() => handlePurge(document.id)}
+                      disabled={purgeMutation.isPending}
+                      data-testid={`trash-purge-${document.id}`}
+                    >
+                      <Trash2 className="h-3 w-3 mr-1" />
+                      Delete forever
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
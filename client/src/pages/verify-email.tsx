@@ -0,0 +1,68 @@
+import { useEffect, useRef } from "react";
+import { Link, useSearch } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, ApiError } from "@/lib/api";
+import { useAuth } from "@/context/auth-context";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle2, XCircle } from "lucide-react";
+
+// Opened from the emailed link, signed in or not
+export default function VerifyEmail() {
+  const token = new URLSearchParams(useSearch()).get("token");
+  const { user, refreshUser } = useAuth();
+  const sent = useRef(false);
+
+  const verifyMutation = useMutation({
+    mutationFn: async (verificationToken: string) => {
+      const response = await apiRequest("POST", "/api/auth/verify-email", { token: verificationToken });
+      return (await response.json()) as { message: string };
+    },
+    onSuccess: () => {
+      if (user) refreshUser().catch(() => undefined);
+    },
+  });
+
+  // The link works once, so it must not be sent again on a re-render
+  useEffect(() => {
+    if (!token || sent.current) return;
+    sent.current = true;
+    verifyMutation.mutate(token);
+  }, [token]);
+
+  const error = verifyMutation.error;
+  const errorMessage = !token
+    ? "This link is incomplete. Open the link from your email again."
+    : error instanceof ApiError ? error.data?.message ?? error.message : error?.message;
+
+  return (
+    <div className="flex-1 min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 px-4" data-testid="verify-email-page">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold">Email verification</CardTitle>
+        </CardHeader>
+        <CardContent className="text-center space-y-4">
+          {verifyMutation.isSuccess ? (
+            <div className="space-y-3" data-testid="verify-email-success">
+              <CheckCircle2 className="h-10 w-10 text-green-600 mx-auto" />
+              <p className="text-sm text-foreground">{verifyMutation.data.message}</p>
+            </div>
+          ) : errorMessage ? (
+            <div className="space-y-3" data-testid="verify-email-error">
+              <XCircle className="h-10 w-10 text-destructive mx-auto" />
+              <p className="text-sm text-foreground">{errorMessage}</p>
+              {user && <p className="text-sm text-muted-foreground">You can ask for a new link from the banner at the top of the app.</p>}
+            </div>
+          ) : (
+            <div className="flex justify-center py-4">
+              <div className="animate-spin h-8 w-8 border-2 border-primary border-t-transparent rounded-full" />
+            </div>
+          )}
+
+          <Link href="/" className="inline-block text-sm font-medium text-primary hover:underline" data-testid="link-continue">
+            {user ? "Go to the dashboard" : "Sign in"}
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
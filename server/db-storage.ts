@@ -0,0 +1,782 @@
+import { and, asc, cosineDistance, count, desc, eq, gt, gte, ilike, inArray, isNotNull, isNull, lt, lte, notInArray, or, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import {
+  users,
+  sessions,
+  twoFactor,
+  loginThrottles,
+  accountTokens,
+  accountActivityTypes,
+  documents,
+  documentVersions,
+  documentChunks,
+  activities,
+  conversations,
+  conversationMessages,
+  answerFeedback,
+  jobs,
+  aiUsage,
+  aiCacheEntries,
+  settings,
+  type User,
+  type InsertUser,
+  type Session,
+  type InsertSession,
+  type TwoFactor,
+  type InsertTwoFactor,
+  type LoginThrottle,
+  type AccountToken,
+  type InsertAccountToken,
+  type AccountTokenPurpose,
+  type Document,
+  type DocumentWrite,
+  type DocumentEnrichment,
+  type DocumentVersion,
+  type InsertDocumentVersion,
+  type DocumentChunk,
+  type InsertDocumentChunk,
+  type ChunkMatch,
+  type Activity,
+  type InsertActivity,
+  type Conversation,
+  type InsertConversation,
+  type ConversationMessage,
+  type InsertConversationMessage,
+  type AnsweredQuestion,
+  type AnswerFeedback,
+  type InsertAnswerFeedback,
+  type Job,
+  type InsertJob,
+  type AIUsage,
+  type InsertAIUsage,
+  type AIUsageTotals,
+  type AIUsageGroup,
+  type AICacheEntry,
+  type InsertAICacheEntry,
+  type DocumentWithUser,
+  type DocumentWithDetails,
+  type TrashedDocument,
+  type Setting,
+} from "@shared/schema";
+import type { Database } from "./db";
+import type { IStorage } from "./storage";
+import { tokenize } from "./text";
+
+// Sums of AI usage columns for a group of calls
+const aiUsageTotals = {
+  calls: count(),
+  inputTokens: sql<number>`coalesce(sum(${aiUsage.inputTokens}), 0)`.mapWith(Number),
+  outputTokens: sql<number>`coalesce(sum(${aiUsage.outputTokens}), 0)`.mapWith(Number),
+  estimatedCost: sql<number>`coalesce(sum(${aiUsage.estimatedCost}), 0)`.mapWith(Number),
+};
+
+// Chunk columns returned by searches; the embedding itself is left out
+const chunkColumns = {
+  id: documentChunks.id,
+  documentId: documentChunks.documentId,
+  version: documentChunks.version,
+  chunkIndex: documentChunks.chunkIndex,
+  content: documentChunks.content,
+  startOffset: documentChunks.startOffset,
+  endOffset: documentChunks.endOffset,
+};
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: string, updates: Partial<Omit<User, "id" | "createdAt" | "updatedAt">>): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async createSession(insertSession: InsertSession): Promise<Session> {
+    const [session] = await this.db.insert(sessions).values(insertSession).returning();
+    return session;
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    const [session] = await this.db.select().from(sessions).where(eq(sessions.id, id));
+    return session;
+  }
+
+  async getSessionByRefreshTokenHash(hash: string): Promise<Session | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(sessions)
+      .where(or(eq(sessions.refreshTokenHash, hash), eq(sessions.previousRefreshTokenHash, hash)))
+      .limit(1);
+    return session;
+  }
+
+  async rotateSession(id: string, currentHash: string, nextHash: string, expiresAt: Date): Promise<Session | undefined> {
+    const [session] = await this.db
+      .update(sessions)
+      .set({
+        refreshTokenHash: nextHash,
+        previousRefreshTokenHash: currentHash,
+        lastUsedAt: new Date(),
+        expiresAt,
+      })
+      .where(and(eq(sessions.id, id), eq(sessions.refreshTokenHash, currentHash), isNull(sessions.revokedAt)))
+      .returning();
+    return session;
+  }
+
+  async revokeSession(id: string, revokedAt: Date): Promise<boolean> {
+    const revoked = await this.db
+      .update(sessions)
+      .set({ revokedAt })
+      .where(and(eq(sessions.id, id), isNull(sessions.revokedAt)))
+      .returning({ id: sessions.id });
+    return revoked.length > 0;
+  }
+
+  async revokeUserSessions(userId: string, revokedAt: Date): Promise<number> {
+    const revoked = await this.db
+      .update(sessions)
+      .set({ revokedAt })
+      .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt)))
+      .returning({ id: sessions.id });
+    return revoked.length;
+  }
+
+  async deleteEndedSessions(now: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(sessions)
+      .where(or(lte(sessions.expiresAt, now), isNotNull(sessions.revokedAt)))
+      .returning({ id: sessions.id });
+    return deleted.length;
+  }
+
+  async getTwoFactor(userId: string): Promise<TwoFactor | undefined> {
+    const [row] = await this.db.select().from(twoFactor).where(eq(twoFactor.userId, userId));
+    return row;
+  }
+
+  async saveTwoFactor(insertTwoFactor: InsertTwoFactor): Promise<TwoFactor> {
+    const now = new Date();
+    const replaced = {
+      secret: insertTwoFactor.secret,
+      enabledAt: insertTwoFactor.enabledAt ?? null,
+      lastUsedStep: insertTwoFactor.lastUsedStep ?? null,
+      recoveryCodeHashes: insertTwoFactor.recoveryCodeHashes ?? [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    const [row] = await this.db
+      .insert(twoFactor)
+      .values({ ...insertTwoFactor, ...replaced })
+      .onConflictDoUpdate({ target: twoFactor.userId, set: replaced })
+      .returning();
+    return row;
+  }
+
+  async updateTwoFactor(userId: string, updates: Partial<InsertTwoFactor>): Promise<TwoFactor | undefined> {
+    const [row] = await this.db
+      .update(twoFactor)
+      .set({ ...updates, userId, updatedAt: new Date() })
+      .where(eq(twoFactor.userId, userId))
+      .returning();
+    return row;
+  }
+
+  async deleteTwoFactor(userId: string): Promise<boolean> {
+    const deleted = await this.db.delete(twoFactor).where(eq(twoFactor.userId, userId)).returning({ userId: twoFactor.userId });
+    return deleted.length > 0;
+  }
+
+  async useTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const used = await this.db
+      .update(twoFactor)
+      .set({ lastUsedStep: step, updatedAt: new Date() })
+      .where(and(eq(twoFactor.userId, userId), or(isNull(twoFactor.lastUsedStep), lt(twoFactor.lastUsedStep, step))))
+      .returning({ userId: twoFactor.userId });
+    return used.length > 0;
+  }
+
+  async useRecoveryCode(userId: string, hash: string): Promise<boolean> {
+    const used = await this.db
+      .update(twoFactor)
+      .set({ recoveryCodeHashes: sql`array_remove(${twoFactor.recoveryCodeHashes}, ${hash})`, updatedAt: new Date() })
+      .where(and(eq(twoFactor.userId, userId), sql`${hash} = any(${twoFactor.recoveryCodeHashes})`))
+      .returning({ userId: twoFactor.userId });
+    return used.length > 0;
+  }
+
+  async getLoginThrottle(key: string): Promise<LoginThrottle | undefined> {
+    const [throttle] = await this.db.select().from(loginThrottles).where(eq(loginThrottles.key, key));
+    return throttle;
+  }
+
+  async recordLoginFailure(key: string, now: Date, windowStart: Date): Promise<LoginThrottle> {
+    const restart = sql`(case when ${loginThrottles.lockedUntil} is null then ${loginThrottles.firstFailureAt} < ${windowStart} else ${loginThrottles.lockedUntil} <= ${now} end)`;
+    const [throttle] = await this.db
+      .insert(loginThrottles)
+      .values({ key, failures: 1, firstFailureAt: now, lastFailureAt: now })
+      .onConflictDoUpdate({
+        target: loginThrottles.key,
+        set: {
+          failures: sql`case when ${restart} then 1 else ${loginThrottles.failures} + 1 end`,
+          firstFailureAt: sql`case when ${restart} then ${now} else ${loginThrottles.firstFailureAt} end`,
+          lockedUntil: sql`case when ${restart} then null else ${loginThrottles.lockedUntil} end`,
+          lastFailureAt: now,
+        },
+      })
+      .returning();
+    return throttle;
+  }
+
+  async lockLoginThrottle(key: string, lockedUntil: Date): Promise<LoginThrottle | undefined> {
+    const [throttle] = await this.db
+      .update(loginThrottles)
+      .set({ lockedUntil })
+      .where(eq(loginThrottles.key, key))
+      .returning();
+    return throttle;
+  }
+
+  async clearLoginThrottle(key: string): Promise<boolean> {
+    const deleted = await this.db.delete(loginThrottles).where(eq(loginThrottles.key, key)).returning({ key: loginThrottles.key });
+    return deleted.length > 0;
+  }
+
+  async getLockedLoginThrottles(now: Date): Promise<LoginThrottle[]> {
+    return this.db
+      .select()
+      .from(loginThrottles)
+      .where(gt(loginThrottles.lockedUntil, now))
+      .orderBy(desc(loginThrottles.lockedUntil));
+  }
+
+  async deleteStaleLoginThrottles(before: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(loginThrottles)
+      .where(and(
+        lt(loginThrottles.lastFailureAt, before),
+        or(isNull(loginThrottles.lockedUntil), lt(loginThrottles.lockedUntil, before)),
+      ))
+      .returning({ key: loginThrottles.key });
+    return deleted.length;
+  }
+
+  async createAccountToken(insertToken: InsertAccountToken): Promise<AccountToken> {
+    const [token] = await this.db.insert(accountTokens).values(insertToken).returning();
+    return token;
+  }
+
+  async getAccountTokenByHash(hash: string): Promise<AccountToken | undefined> {
+    const [token] = await this.db.select().from(accountTokens).where(eq(accountTokens.tokenHash, hash));
+    return token;
+  }
+
+  async useAccountToken(id: string, usedAt: Date): Promise<boolean> {
+    const used = await this.db
+      .update(accountTokens)
+      .set({ usedAt })
+      .where(and(eq(accountTokens.id, id), isNull(accountTokens.usedAt)))
+      .returning({ id: accountTokens.id });
+    return used.length > 0;
+  }
+
+  async deleteUserAccountTokens(userId: string, purpose: AccountTokenPurpose): Promise<number> {
+    const deleted = await this.db
+      .delete(accountTokens)
+      .where(and(eq(accountTokens.userId, userId), eq(accountTokens.purpose, purpose)))
+      .returning({ id: accountTokens.id });
+    return deleted.length;
+  }
+
+  async getDocuments(): Promise<DocumentWithUser[]> {
+    const rows = await this.db
+      .select({ document: documents, user: users })
+      .from(documents)
+      .innerJoin(users, eq(documents.createdBy, users.id))
+      .where(isNull(documents.deletedAt))
+      .orderBy(desc(documents.updatedAt));
+
+    return rows.map(({ document, user }) => ({ ...document, createdBy: user }));
+  }
+
+  async getDocument(id: string, options: { includeDeleted?: boolean } = {}): Promise<DocumentWithDetails | undefined> {
+    const [row] = await this.db
+      .select({ document: documents, user: users })
+      .from(documents)
+      .innerJoin(users, eq(documents.createdBy, users.id))
+      .where(options.includeDeleted ? eq(documents.id, id) : and(eq(documents.id, id), isNull(documents.deletedAt)));
+    if (!row) return undefined;
+
+    const versions = await this.getDocumentVersions(id);
+    return { ...row.document, createdBy: row.user, versions };
+  }
+
+  async createDocument(insertDocument: DocumentWrite, createdBy: string): Promise<Document> {
+    const [document] = await this.db
+      .insert(documents)
+      .values({
+        ...insertDocument,
+        summary: insertDocument.summary || null,
+        tags: insertDocument.tags || [],
+        injectionWarnings: insertDocument.injectionWarnings || [],
+        createdBy,
+        version: 1,
+      })
+      .returning();
+    return document;
+  }
+
+  async updateDocument(id: string, updates: Partial<DocumentWrite>, expectedVersion?: number): Promise<Document | undefined> {
+    const [updatedDocument] = await this.db
+      .update(documents)
+      .set({
+        ...updates,
+        updatedAt: new Date(),
+        version: sql`${documents.version} + 1`,
+      })
+      .where(
+        expectedVersion === undefined
+          ? eq(documents.id, id)
+          : and(eq(documents.id, id), eq(documents.version, expectedVersion)),
+      )
+      .returning();
+    return updatedDocument;
+  }
+
+  async saveDocumentEnrichment(id: string, version: number, enrichment: DocumentEnrichment): Promise<Document | undefined> {
+    const [document] = await this.db
+      .update(documents)
+      .set(enrichment)
+      .where(and(eq(documents.id, id), eq(documents.version, version), isNull(documents.deletedAt)))
+      .returning();
+    return document;
+  }
+
+  async deleteDocument(id: string): Promise<boolean> {
+    // Versions, chunks and activities are removed by the ON DELETE CASCADE foreign keys
+    const deleted = await this.db
+      .delete(documents)
+      .where(eq(documents.id, id))
+      .returning({ id: documents.id });
+    return deleted.length > 0;
+  }
+
+  async searchDocuments(query: string): Promise<DocumentWithUser[]> {
+    const pattern = `%${query}%`;
+    const rows = await this.db
+      .select({ document: documents, user: users })
+      .from(documents)
+      .innerJoin(users, eq(documents.createdBy, users.id))
+      .where(
+        and(
+          isNull(documents.deletedAt),
+          or(
+            ilike(documents.title, pattern),
+            ilike(documents.content, pattern),
+            ilike(documents.summary, pattern),
+            sql`array_to_string(${documents.tags}, ' ') ilike ${pattern}`,
+          ),
+        ),
+      )
+      .orderBy(desc(documents.updatedAt));
+
+    return rows.map(({ document, user }) => ({ ...document, createdBy: user }));
+  }
+
+  async getTrashedDocuments(): Promise<TrashedDocument[]> {
+    const deleters = alias(users, "deleters");
+    const rows = await this.db
+      .select({ document: documents, user: users, deletedBy: { id: deleters.id, name: deleters.name } })
+      .from(documents)
+      .innerJoin(users, eq(documents.createdBy, users.id))
+      .leftJoin(deleters, eq(documents.deletedBy, deleters.id))
+      .where(isNotNull(documents.deletedAt))
+      .orderBy(desc(documents.deletedAt));
+
+    return rows.map(({ document, user, deletedBy }) => ({ ...document, createdBy: user, deletedBy }));
+  }
+
+  async setDocumentDeleted(id: string, deletedBy: string | null): Promise<Document | undefined> {
+    const [document] = await this.db
+      .update(documents)
+      .set({ deletedAt: deletedBy ? new Date() : null, deletedBy })
+      .where(eq(documents.id, id))
+      .returning();
+    return document;
+  }
+
+  async getDocumentVersions(documentId: string): Promise<DocumentVersion[]> {
+    return this.db
+      .select()
+      .from(documentVersions)
+      .where(eq(documentVersions.documentId, documentId))
+      .orderBy(desc(documentVersions.version));
+  }
+
+  async getDocumentVersion(id: string): Promise<DocumentVersion | undefined> {
+    const [version] = await this.db.select().from(documentVersions).where(eq(documentVersions.id, id));
+    return version;
+  }
+
+  async createDocumentVersion(insertVersion: InsertDocumentVersion): Promise<DocumentVersion> {
+    const [version] = await this.db
+      .insert(documentVersions)
+      .values({
+        ...insertVersion,
+        summary: insertVersion.summary || null,
+        tags: insertVersion.tags || [],
+        changeDescription: insertVersion.changeDescription || null,
+        aiGenerated: insertVersion.aiGenerated ?? false,
+      })
+      .returning();
+    return version;
+  }
+
+  async getDocumentChunks(documentId: string): Promise<DocumentChunk[]> {
+    return this.db
+      .select()
+      .from(documentChunks)
+      .where(eq(documentChunks.documentId, documentId))
+      .orderBy(asc(documentChunks.chunkIndex));
+  }
+
+  async replaceDocumentChunks(documentId: string, chunks: InsertDocumentChunk[]): Promise<void> {
+    await this.db.delete(documentChunks).where(eq(documentChunks.documentId, documentId));
+    if (chunks.length > 0) {
+      await this.db.insert(documentChunks).values(chunks.map(chunk => ({ ...chunk, documentId })));
+    }
+  }
+
+  async searchDocumentChunks(embedding: number[], limit: number): Promise<ChunkMatch[]> {
+    const distance = cosineDistance(documentChunks.embedding, embedding);
+    return this.db
+      .select({ ...chunkColumns, similarity: sql<number>`1 - (${distance})`.mapWith(Number) })
+      .from(documentChunks)
+      .innerJoin(documents, eq(documentChunks.documentId, documents.id))
+      .where(isNull(documents.deletedAt))
+      .orderBy(distance)
+      .limit(limit);
+  }
+
+  async searchDocumentChunksByText(query: string, limit: number): Promise<ChunkMatch[]> {
+    // Any of the words may match; ts_rank orders chunks that contain more of them first
+    const words = Array.from(new Set(tokenize(query).flatMap(word => word.split(/['-]/)).filter(Boolean)));
+    if (words.length === 0) return [];
+
+    const tsQuery = sql`to_tsquery('english', ${words.join(" | ")})`;
+    const vector = sql`to_tsvector('english', ${documentChunks.content})`;
+    // Normalisation 32 maps the rank into 0..1
+    const rank = sql<number>`ts_rank(${vector}, ${tsQuery}, 32)`.mapWith(Number);
+
+    return this.db
+      .select({ ...chunkColumns, similarity: rank })
+      .from(documentChunks)
+      .innerJoin(documents, eq(documentChunks.documentId, documents.id))
+      .where(and(isNull(documents.deletedAt), sql`${vector} @@ ${tsQuery}`))
+      .orderBy(desc(rank))
+      .limit(limit);
+  }
+
+  async getRecentActivities(limit = 10, kind: "document" | "account" = "document"): Promise<(Activity & { user: User; document?: Document })[]> {
+    const rows = await this.db
+      .select({ activity: activities, user: users, document: documents })
+      .from(activities)
+      .innerJoin(users, eq(activities.userId, users.id))
+      .leftJoin(documents, eq(activities.documentId, documents.id))
+      .where(kind === "account" ? inArray(activities.type, [...accountActivityTypes]) : notInArray(activities.type, [...accountActivityTypes]))
+      .orderBy(desc(activities.createdAt))
+      .limit(limit);
+
+    return rows.map(({ activity, user, document }) => ({
+      ...activity,
+      user,
+      document: document ?? undefined,
+    }));
+  }
+
+  async createActivity(insertActivity: InsertActivity): Promise<Activity> {
+    const [activity] = await this.db
+      .insert(activities)
+      .values({
+        ...insertActivity,
+        documentId: insertActivity.documentId || null,
+      })
+      .returning();
+    return activity;
+  }
+
+  async getConversations(userId: string): Promise<Conversation[]> {
+    return this.db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.userId, userId))
+      .orderBy(desc(conversations.updatedAt));
+  }
+
+  async getConversation(id: string): Promise<Conversation | undefined> {
+    const [conversation] = await this.db.select().from(conversations).where(eq(conversations.id, id));
+    return conversation;
+  }
+
+  async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
+    const [conversation] = await this.db.insert(conversations).values(insertConversation).returning();
+    return conversation;
+  }
+
+  async updateConversation(id: string, updates: Partial<InsertConversation>): Promise<Conversation | undefined> {
+    const [conversation] = await this.db
+      .update(conversations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(conversations.id, id))
+      .returning();
+    return conversation;
+  }
+
+  async deleteConversation(id: string): Promise<boolean> {
+    // Messages are removed by the ON DELETE CASCADE foreign key
+    const deleted = await this.db
+      .delete(conversations)
+      .where(eq(conversations.id, id))
+      .returning({ id: conversations.id });
+    return deleted.length > 0;
+  }
+
+  async getConversationMessages(conversationId: string): Promise<ConversationMessage[]> {
+    return this.db
+      .select()
+      .from(conversationMessages)
+      .where(eq(conversationMessages.conversationId, conversationId))
+      .orderBy(asc(conversationMessages.createdAt));
+  }
+
+  async createConversationMessage(insertMessage: InsertConversationMessage): Promise<ConversationMessage> {
+    const [message] = await this.db.insert(conversationMessages).values(insertMessage).returning();
+    return message;
+  }
+
+  async getAnsweredQuestions(since: Date): Promise<AnsweredQuestion[]> {
+    const answers = await this.db
+      .select()
+      .from(conversationMessages)
+      .where(and(eq(conversationMessages.role, "assistant"), gte(conversationMessages.createdAt, since)))
+      .orderBy(asc(conversationMessages.createdAt));
+    if (answers.length === 0) return [];
+
+    const questions = await this.db
+      .select()
+      .from(conversationMessages)
+      .where(and(
+        inArray(conversationMessages.conversationId, Array.from(new Set(answers.map(answer => answer.conversationId)))),
+        eq(conversationMessages.role, "user"),
+      ))
+      .orderBy(desc(conversationMessages.createdAt));
+
+    // The question is the latest user message before the answer
+    return answers.flatMap(answer => {
+      const question = questions.find(question =>
+        question.conversationId === answer.conversationId && question.createdAt <= answer.createdAt,
+      );
+      return question ? [{ question: question.content, answer }] : [];
+    });
+  }
+
+  async getAnswerFeedback(messageIds: string[]): Promise<AnswerFeedback[]> {
+    if (messageIds.length === 0) return [];
+    return this.db.select().from(answerFeedback).where(inArray(answerFeedback.messageId, messageIds));
+  }
+
+  async getAnswerFeedbackSince(since: Date): Promise<AnswerFeedback[]> {
+    return this.db
+      .select()
+      .from(answerFeedback)
+      .where(gte(answerFeedback.updatedAt, since))
+      .orderBy(desc(answerFeedback.updatedAt));
+  }
+
+  async saveAnswerFeedback(insertFeedback: InsertAnswerFeedback): Promise<AnswerFeedback> {
+    const { messageId, userId, ...rating } = insertFeedback;
+    const [feedback] = await this.db
+      .insert(answerFeedback)
+      .values(insertFeedback)
+      .onConflictDoUpdate({
+        target: answerFeedback.messageId,
+        set: { ...rating, updatedAt: new Date() },
+      })
+      .returning();
+    return feedback;
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [job] = await this.db.insert(jobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getDocumentJobs(documentId: string): Promise<Job[]> {
+    return this.db
+      .select()
+      .from(jobs)
+      .where(eq(jobs.documentId, documentId))
+      .orderBy(desc(jobs.createdAt));
+  }
+
+  async getLatestDocumentJobs(type: string): Promise<Job[]> {
+    return this.db
+      .selectDistinctOn([jobs.documentId])
+      .from(jobs)
+      .where(and(eq(jobs.type, type), isNotNull(jobs.documentId)))
+      .orderBy(jobs.documentId, desc(jobs.createdAt));
+  }
+
+  async claimNextJob(now: Date): Promise<Job | undefined> {
+    // SKIP LOCKED lets several processes claim jobs without taking the same one
+    const [job] = await this.db
+      .update(jobs)
+      .set({ status: "running", attempts: sql`${jobs.attempts} + 1`, updatedAt: now })
+      .where(eq(jobs.id, sql`(
+        select ${jobs.id} from ${jobs}
+        where ${jobs.status} = 'pending' and ${jobs.runAt} <= ${now}
+        order by ${jobs.runAt}
+        limit 1
+        for update skip locked
+      )`))
+      .returning();
+    return job;
+  }
+
+  async updateJob(id: string, updates: Partial<Omit<Job, "id" | "createdAt">>): Promise<Job | undefined> {
+    const [job] = await this.db
+      .update(jobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async requeueRunningJobs(): Promise<number> {
+    const requeued = await this.db
+      .update(jobs)
+      .set({ status: "pending", updatedAt: new Date() })
+      .where(eq(jobs.status, "running"))
+      .returning({ id: jobs.id });
+    return requeued.length;
+  }
+
+  async deleteSucceededJobs(finishedBefore: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(jobs)
+      .where(and(eq(jobs.status, "succeeded"), lt(jobs.finishedAt, finishedBefore)))
+      .returning({ id: jobs.id });
+    return deleted.length;
+  }
+
+  async recordAIUsage(insertUsage: InsertAIUsage): Promise<AIUsage> {
+    const [usage] = await this.db.insert(aiUsage).values(insertUsage).returning();
+    return usage;
+  }
+
+  async getAIUsageTotals(since: Date, userId?: string): Promise<AIUsageTotals> {
+    const [totals] = await this.db
+      .select(aiUsageTotals)
+      .from(aiUsage)
+      .where(and(
+        gte(aiUsage.createdAt, since),
+        userId === undefined ? undefined : eq(aiUsage.userId, userId),
+      ));
+    return totals;
+  }
+
+  async getAIUsageGroups(since: Date): Promise<AIUsageGroup[]> {
+    return this.db
+      .select({ userId: aiUsage.userId, operation: aiUsage.operation, ...aiUsageTotals })
+      .from(aiUsage)
+      .where(gte(aiUsage.createdAt, since))
+      .groupBy(aiUsage.userId, aiUsage.operation);
+  }
+
+  async getAICacheEntry(key: string, now: Date): Promise<AICacheEntry | undefined> {
+    const [entry] = await this.db
+      .select()
+      .from(aiCacheEntries)
+      .where(and(eq(aiCacheEntries.key, key), gt(aiCacheEntries.expiresAt, now)));
+    return entry;
+  }
+
+  async setAICacheEntry(insertEntry: InsertAICacheEntry): Promise<AICacheEntry> {
+    const [entry] = await this.db
+      .insert(aiCacheEntries)
+      .values({ ...insertEntry, value: insertEntry.value ?? null })
+      .onConflictDoUpdate({
+        target: aiCacheEntries.key,
+        set: { value: insertEntry.value, expiresAt: insertEntry.expiresAt, createdAt: new Date() },
+      })
+      .returning();
+    return entry;
+  }
+
+  async countAICacheEntries(): Promise<number> {
+    const [result] = await this.db.select({ count: count() }).from(aiCacheEntries);
+    return result.count;
+  }
+
+  async pruneAICache(now: Date, maxEntries: number): Promise<number> {
+    const expired = await this.db
+      .delete(aiCacheEntries)
+      .where(lte(aiCacheEntries.expiresAt, now))
+      .returning({ key: aiCacheEntries.key });
+    const oldest = await this.db
+      .delete(aiCacheEntries)
+      .where(inArray(
+        aiCacheEntries.key,
+        this.db
+          .select({ key: aiCacheEntries.key })
+          .from(aiCacheEntries)
+          .orderBy(desc(aiCacheEntries.createdAt))
+          .offset(maxEntries),
+      ))
+      .returning({ key: aiCacheEntries.key });
+    return expired.length + oldest.length;
+  }
+
+  async clearAICache(): Promise<number> {
+    const deleted = await this.db.delete(aiCacheEntries).returning({ key: aiCacheEntries.key });
+    return deleted.length;
+  }
+
+  async getSetting(key: string): Promise<Setting | undefined> {
+    const [setting] = await this.db.select().from(settings).where(eq(settings.key, key));
+    return setting;
+  }
+
+  async setSetting(key: string, value: unknown, updatedBy: string): Promise<Setting> {
+    const [setting] = await this.db
+      .insert(settings)
+      .values({ key, value, updatedBy })
+      .onConflictDoUpdate({
+        target: settings.key,
+        set: { value, updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return setting;
+  }
+
+  async transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction((tx) => fn(new DbStorage(tx)));
+  }
+}
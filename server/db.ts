@@ -0,0 +1,16 @@
+import pg from "pg";
+import { drizzle, type NodePgQueryResultHKT } from "drizzle-orm/node-postgres";
+import type { ExtractTablesWithRelations } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+// Connects over the PostgreSQL wire protocol, so any Postgres works: a local
+// server, a container, or a hosted one such as Neon or Supabase
+export function createDb(connectionString: string) {
+  const pool = new pg.Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
+
+// Common shape of the root database handle and of a transaction handle, so a
+// DbStorage can be bound to either.
+export type Database = PgDatabase<NodePgQueryResultHKT, typeof schema, ExtractTablesWithRelations<typeof schema>>;
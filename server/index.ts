@@ -2,8 +2,20 @@ import 'dotenv/config';
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { scheduleTrashPurge } from "./services/trash";
+import { scheduleIndexing } from "./services/semantic-search";
+import { startJobWorker } from "./services/jobs";
+import { registerEnrichmentJobs } from "./services/enrichment";
+import { scheduleSessionCleanup } from "./services/sessions";
+import { scheduleLoginThrottleCleanup } from "./services/login-throttle";
 
 const app = express();
+// Behind a reverse proxy, req.ip comes from X-Forwarded-For only when this
+// is set, as a hop count or a list of trusted addresses
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set("trust proxy", Number.isInteger(hops) ? hops : process.env.TRUST_PROXY === "true" || process.env.TRUST_PROXY);
+}
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -69,4 +81,11 @@ server.listen(port, host, () => {
   log(`serving on http://${host}:${port}`);
 });
 
+scheduleTrashPurge();
+scheduleIndexing();
+scheduleSessionCleanup();
+scheduleLoginThrottleCleanup();
+registerEnrichmentJobs();
+startJobWorker();
+
 })();
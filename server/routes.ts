@@ -1,11 +1,76 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { authenticateToken, requireAdmin, AuthRequest, generateToken, hashPassword, comparePassword } from "./services/auth";
-import { summarizeDocument, generateTags, performSemanticSearch, answerQuestion } from "./services/gemini";
-import { loginSchema, registerSchema, insertDocumentSchema } from "@shared/schema";
+import { authenticateToken, requireAdmin, AuthRequest, hashPassword, comparePassword, generateTwoFactorChallenge, verifyTwoFactorChallenge } from "./services/auth";
+import { startSession, refreshSession, endSession, endAllSessions, InvalidRefreshTokenError } from "./services/sessions";
+import { isTwoFactorEnabled, getTwoFactorStatus, startTwoFactorSetup, enableTwoFactor, verifySecondFactor, disableTwoFactor, regenerateRecoveryCodes, TwoFactorError, InvalidTwoFactorCodeError, IncorrectPasswordError } from "./services/two-factor";
+import { checkLoginAllowed, recordFailedLogin, clearLoginFailures, checkPasswordResetAllowed, checkVerificationEmailAllowed, sendLoginThrottled, buildLockoutReport, unlockAccount, LoginThrottledError } from "./services/login-throttle";
+import { requestPasswordReset, resetPassword, sendVerificationEmail, verifyEmail, InvalidAccountTokenError } from "./services/account";
+import { createDocument, updateDocument, restoreDocumentVersion, applyEnrichment, VersionConflictError } from "./services/documents";
+import { trashDocument, restoreFromTrash, purgeDocument } from "./services/trash";
+import { getSettings, updateSettings } from "./services/settings";
+import { summarizeDocument, generateTags, aiCache } from "./services/ai";
+import { semanticSearch } from "./services/semantic-search";
+import { retrievalOptionsSchema } from "./services/retrieval";
+import { askQuestion, askQuestionStream } from "./services/qa";
+import { beginTurn, recordAnswer, getConversationWithMessages, rateAnswer } from "./services/conversations";
+import { buildQAReport } from "./services/qa-analytics";
+import { retryEnrichment } from "./services/enrichment";
+import { enforceAIQuota, checkAIQuota, sendQuotaExceeded, buildAIUsageReport } from "./services/ai-usage";
+import { loginSchema, registerSchema, refreshTokenSchema, twoFactorLoginSchema, twoFactorCodeSchema, disableTwoFactorSchema, forgotPasswordSchema, resetPasswordSchema, verifyEmailSchema, unlockAccountSchema, insertDocumentSchema, insertConversationSchema, insertAnswerFeedbackSchema, appSettingsSchema, type Citation, type Conversation } from "@shared/schema";
+import { diffVersions, blameLines } from "@shared/diff";
 import { z } from "zod";
 
+const updateNoteSchema = z.object({
+  changeDescription: z.string().max(500).optional(),
+});
+
+// Retrieval settings left out fall back to the server defaults
+// Questions without a conversationId start a new conversation
+const qaSchema = retrievalOptionsSchema.partial().extend({
+  question: z.string().trim().min(1, "Question required"),
+  conversationId: z.string().optional(),
+});
+
+const updateConversationSchema = insertConversationSchema.pick({ title: true, shared: true }).partial().extend({
+  title: z.string().trim().min(1, "Title required").max(200).optional(),
+});
+
+// The version a client last saw, taken from an If-Match ETag or the body.
+function getExpectedVersion(req: Request): number | undefined {
+  const ifMatch = req.get("If-Match");
+  if (ifMatch) {
+    const version = parseInt(ifMatch.replace(/^W\//, "").replace(/"/g, ""), 10);
+    return Number.isInteger(version) ? version : undefined;
+  }
+  const version = req.body?.version;
+  return Number.isInteger(version) ? version : undefined;
+}
+
+// Users can only modify their own docs, admins can modify any
+function canModifyDocument(document: { createdBy: { id: string } }, user: NonNullable<AuthRequest["user"]>): boolean {
+  return document.createdBy.id === user.id || user.role === "admin";
+}
+
+// An AI suggestion the user accepted from the preview
+const applySuggestionSchema = z.object({
+  summary: z.string().trim().min(1, "Summary required").max(2000).optional(),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+}).refine(data => data.summary !== undefined || data.tags !== undefined, {
+  message: "Summary or tags required",
+});
+
+const answerFeedbackSchema = insertAnswerFeedbackSchema.pick({ rating: true, comment: true });
+
+const reportQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+// Conversations are private to their owner until shared, then readable by all
+function canViewConversation(conversation: Conversation, user: NonNullable<AuthRequest["user"]>): boolean {
+  return conversation.userId === user.id || conversation.shared;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth routes
   app.post("/api/auth/register", async (req, res) => {
@@ -24,23 +89,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...data,
         password: hashedPassword,
       });
+
+      // Registration goes ahead even if the email cannot be sent; the user
+      // can ask for another one once signed in
+      sendVerificationEmail(user).catch(error => console.error("Error sending verification email:", error));
       
-      const token = generateToken({
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-      });
-      
-      res.json({
-        token,
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          role: user.role,
-        },
-      });
+      res.json(await startSession(user, req));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
@@ -52,45 +106,279 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/auth/login", async (req, res) => {
     try {
       const data = loginSchema.parse(req.body);
+      await checkLoginAllowed(data.email, req.ip);
       
       const user = await storage.getUserByEmail(data.email);
       if (!user) {
+        await recordFailedLogin(data.email, req.ip);
         return res.status(401).json({ message: "Invalid credentials" });
       }
       
       const isValidPassword = await comparePassword(data.password, user.password);
       if (!isValidPassword) {
+        await recordFailedLogin(data.email, req.ip);
         return res.status(401).json({ message: "Invalid credentials" });
       }
+
+      if (user.disabled) {
+        return res.status(403).json({ message: "Account is disabled" });
+      }
+
+      // The session only starts once the second step succeeds, and earlier
+      // failures are kept until then so codes cannot be guessed freely
+      if (await isTwoFactorEnabled(user.id)) {
+        return res.json({ twoFactorRequired: true, challengeToken: generateTwoFactorChallenge(user.id) });
+      }
       
-      const token = generateToken({
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-      });
-      
-      res.json({
-        token,
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          role: user.role,
-        },
-      });
+      await clearLoginFailures(data.email);
+      res.json(await startSession(user, req));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
+      if (error instanceof LoginThrottledError) {
+        return sendLoginThrottled(res, error);
+      }
       res.status(500).json({ message: "Login failed" });
     }
   });
 
+  app.post("/api/auth/login/two-factor", async (req, res) => {
+    try {
+      const { challengeToken, code } = twoFactorLoginSchema.parse(req.body);
+      const userId = verifyTwoFactorChallenge(challengeToken);
+      if (!userId) {
+        return res.status(401).json({ message: "Sign-in has expired, please enter your password again" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user || user.disabled) {
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+      await checkLoginAllowed(user.email, req.ip);
+      if (!(await verifySecondFactor(user.id, code))) {
+        await recordFailedLogin(user.email, req.ip);
+        return res.status(401).json({ message: "Invalid authentication code" });
+      }
+
+      await clearLoginFailures(user.email);
+      res.json(await startSession(user, req));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof LoginThrottledError) {
+        return sendLoginThrottled(res, error);
+      }
+      res.status(500).json({ message: "Login failed" });
+    }
+  });
+
+  // The current account as stored, not as it was when the token was issued
   app.get("/api/auth/me", authenticateToken, (req: AuthRequest, res) => {
     res.json({ user: req.user });
   });
 
+  // Exchanges a refresh token for a new access token and refresh token
+  app.post("/api/auth/refresh", async (req, res) => {
+    try {
+      const { refreshToken } = refreshTokenSchema.parse(req.body);
+      res.json(await refreshSession(refreshToken));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof InvalidRefreshTokenError) {
+        return res.status(401).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to refresh session" });
+    }
+  });
+
+  // Takes the refresh token rather than the access token, so a device can
+  // sign out after its access token has expired
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      const { refreshToken } = refreshTokenSchema.parse(req.body);
+      await endSession(refreshToken);
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to sign out" });
+    }
+  });
+
+  app.post("/api/auth/logout-all", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      await endAllSessions(req.user!.id);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to sign out of all devices" });
+    }
+  });
+
+  // Always answers the same way, whether or not the email has an account
+  app.post("/api/auth/forgot-password", async (req, res) => {
+    try {
+      const { email } = forgotPasswordSchema.parse(req.body);
+      await checkPasswordResetAllowed(email, req.ip);
+      await requestPasswordReset(email);
+      res.json({ message: "If an account exists for that email, a link to reset its password has been sent." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof LoginThrottledError) {
+        return sendLoginThrottled(res, error);
+      }
+      res.status(500).json({ message: "Failed to request a password reset" });
+    }
+  });
+
+  app.post("/api/auth/reset-password", async (req, res) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+      await resetPassword(token, password);
+      res.json({ message: "Your password has been reset. Sign in with your new password." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof InvalidAccountTokenError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  // Needs no access token, so the link works in any browser
+  app.post("/api/auth/verify-email", async (req, res) => {
+    try {
+      const { token } = verifyEmailSchema.parse(req.body);
+      await verifyEmail(token);
+      res.json({ message: "Your email address has been verified." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof InvalidAccountTokenError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to verify email" });
+    }
+  });
+
+  app.post("/api/auth/verify-email/resend", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (req.user!.emailVerified) {
+        return res.status(400).json({ message: "Your email address is already verified" });
+      }
+      await checkVerificationEmailAllowed(req.user!.email, req.ip);
+      const user = await storage.getUser(req.user!.id);
+      await sendVerificationEmail(user!);
+      res.json({ message: `A verification link has been sent to ${user!.email}.` });
+    } catch (error) {
+      if (error instanceof LoginThrottledError) {
+        return sendLoginThrottled(res, error);
+      }
+      res.status(500).json({ message: "Failed to send verification email" });
+    }
+  });
+
+  // Two-factor authentication for the signed-in account
+  app.get("/api/auth/two-factor", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      res.json(await getTwoFactorStatus(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch two-factor status" });
+    }
+  });
+
+  app.post("/api/auth/two-factor/setup", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      res.json(await startTwoFactorSetup(req.user!));
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to set up two-factor authentication" });
+    }
+  });
+
+  app.post("/api/auth/two-factor/enable", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      res.json({ recoveryCodes: await enableTwoFactor(req.user!.id, code) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof TwoFactorError || error instanceof InvalidTwoFactorCodeError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  // Wrong passwords and codes here count as failed sign-ins, like in the
+  // second sign-in step, so a signed-in session cannot guess them freely
+  app.post("/api/auth/two-factor/disable", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { password, code } = disableTwoFactorSchema.parse(req.body);
+      await checkLoginAllowed(req.user!.email, req.ip);
+      try {
+        await disableTwoFactor(req.user!, password, code);
+      } catch (error) {
+        if (error instanceof IncorrectPasswordError || error instanceof InvalidTwoFactorCodeError) {
+          await recordFailedLogin(req.user!.email, req.ip);
+        }
+        throw error;
+      }
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof LoginThrottledError) {
+        return sendLoginThrottled(res, error);
+      }
+      if (error instanceof TwoFactorError || error instanceof IncorrectPasswordError || error instanceof InvalidTwoFactorCodeError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/auth/two-factor/recovery-codes", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      await checkLoginAllowed(req.user!.email, req.ip);
+      let recoveryCodes: string[];
+      try {
+        recoveryCodes = await regenerateRecoveryCodes(req.user!.id, code);
+      } catch (error) {
+        if (error instanceof InvalidTwoFactorCodeError) {
+          await recordFailedLogin(req.user!.email, req.ip);
+        }
+        throw error;
+      }
+      res.json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof LoginThrottledError) {
+        return sendLoginThrottled(res, error);
+      }
+      if (error instanceof TwoFactorError || error instanceof InvalidTwoFactorCodeError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create recovery codes" });
+    }
+  });
+
   // Document routes
   app.get("/api/documents", authenticateToken, async (req: AuthRequest, res) => {
     try {
@@ -107,6 +395,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!document) {
         return res.status(404).json({ message: "Document not found" });
       }
+      res.set("ETag", `"${document.version}"`);
       res.json(document);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch document" });
@@ -116,7 +405,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/documents", authenticateToken, async (req: AuthRequest, res) => {
     try {
       const data = insertDocumentSchema.parse(req.body);
-      const document = await storage.createDocument(data, req.user!.id);
+      const document = await createDocument(data, req.user!.id);
       res.json(document);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -133,18 +422,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Document not found" });
       }
       
-      // Check permissions - users can only edit their own docs, admins can edit any
-      if (document.createdBy.id !== req.user!.id && req.user!.role !== "admin") {
+      if (!canModifyDocument(document, req.user!)) {
         return res.status(403).json({ message: "Permission denied" });
       }
       
+      const expectedVersion = getExpectedVersion(req);
+      if (expectedVersion === undefined) {
+        return res.status(428).json({ message: "Document version required" });
+      }
+      
       const data = insertDocumentSchema.partial().parse(req.body);
-      const updatedDocument = await storage.updateDocument(req.params.id, data, req.user!.id);
+      const { changeDescription } = updateNoteSchema.parse(req.body);
+      const updatedDocument = await updateDocument(req.params.id, data, req.user!.id, {
+        expectedVersion,
+        changeDescription,
+      });
+      if (!updatedDocument) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      res.set("ETag", `"${updatedDocument.version}"`);
       res.json(updatedDocument);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
+      if (error instanceof VersionConflictError) {
+        return res.status(409).json({
+          message: "Document was modified by someone else",
+          currentVersion: error.current.version,
+          document: error.current,
+        });
+      }
       res.status(500).json({ message: "Failed to update document" });
     }
   });
@@ -156,17 +464,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Document not found" });
       }
       
-      // Check permissions - users can only delete their own docs, admins can delete any
-      if (document.createdBy.id !== req.user!.id && req.user!.role !== "admin") {
+      if (!canModifyDocument(document, req.user!)) {
         return res.status(403).json({ message: "Permission denied" });
       }
       
-      const success = await storage.deleteDocument(req.params.id);
-      if (success) {
-        res.json({ message: "Document deleted successfully" });
-      } else {
-        res.status(500).json({ message: "Failed to delete document" });
+      await trashDocument(req.params.id, req.user!.id);
+      res.json({ message: "Document moved to trash" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete document" });
+    }
+  });
+
+  // Trash routes
+  app.get("/api/trash", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const documents = await storage.getTrashedDocuments();
+      res.json(documents.filter(document => canModifyDocument(document, req.user!)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch trash" });
+    }
+  });
+
+  app.post("/api/trash/:id/restore", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const document = await storage.getDocument(req.params.id, { includeDeleted: true });
+      if (!document || !document.deletedAt) {
+        return res.status(404).json({ message: "Document not found in trash" });
+      }
+      
+      if (!canModifyDocument(document, req.user!)) {
+        return res.status(403).json({ message: "Permission denied" });
+      }
+      
+      const restoredDocument = await restoreFromTrash(req.params.id, req.user!.id);
+      res.json(restoredDocument);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore document" });
+    }
+  });
+
+  app.delete("/api/trash/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const document = await storage.getDocument(req.params.id, { includeDeleted: true });
+      if (!document || !document.deletedAt) {
+        return res.status(404).json({ message: "Document not found in trash" });
+      }
+      
+      if (!canModifyDocument(document, req.user!)) {
+        return res.status(403).json({ message: "Permission denied" });
       }
+      
+      await purgeDocument(req.params.id, document.title, req.user!.id);
+      res.json({ message: "Document permanently deleted" });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete document" });
     }
@@ -175,6 +524,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Document versions
   app.get("/api/documents/:id/versions", authenticateToken, async (req: AuthRequest, res) => {
     try {
+      const document = await storage.getDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
       const versions = await storage.getDocumentVersions(req.params.id);
       res.json(versions);
     } catch (error) {
@@ -182,6 +536,225 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/documents/:id/diff", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { from, to } = req.query;
+      if (typeof from !== "string" || typeof to !== "string") {
+        return res.status(400).json({ message: "from and to version ids required" });
+      }
+      
+      const document = await storage.getDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const [fromVersion, toVersion] = await Promise.all([
+        storage.getDocumentVersion(from),
+        storage.getDocumentVersion(to),
+      ]);
+      if (
+        !fromVersion || !toVersion ||
+        fromVersion.documentId !== req.params.id || toVersion.documentId !== req.params.id
+      ) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      
+      res.json(diffVersions(fromVersion, toVersion));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to compare versions" });
+    }
+  });
+
+  app.get("/api/documents/:id/blame", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const document = await storage.getDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const versions = (await storage.getDocumentVersions(req.params.id)).sort((a, b) => a.version - b.version);
+      const lines = blameLines(versions.map(version => ({ content: version.content, revision: version.id })));
+      
+      // Only the versions some line is attributed to, with their authors
+      const versionIds = new Set(lines.map(line => line.revision));
+      const blamedVersions: Record<string, unknown> = {};
+      for (const version of versions.filter(v => versionIds.has(v.id))) {
+        const author = await storage.getUser(version.createdBy);
+        blamedVersions[version.id] = {
+          version: version.version,
+          createdAt: version.createdAt,
+          changeDescription: version.changeDescription,
+          author: author ? { id: author.id, name: author.name } : null,
+        };
+      }
+      
+      res.json({
+        documentId: document.id,
+        version: document.version,
+        lines: lines.map(line => ({ text: line.text, versionId: line.revision })),
+        versions: blamedVersions,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to compute blame" });
+    }
+  });
+
+  app.post("/api/documents/:id/versions/:versionId/restore", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const document = await storage.getDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      if (!canModifyDocument(document, req.user!)) {
+        return res.status(403).json({ message: "Permission denied" });
+      }
+      
+      const restoredDocument = await restoreDocumentVersion(req.params.id, req.params.versionId, req.user!.id);
+      if (!restoredDocument) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      res.set("ETag", `"${restoredDocument.version}"`);
+      res.json(restoredDocument);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore document version" });
+    }
+  });
+
+  // Document-scoped AI suggestions. Generating one only returns a preview
+  // together with the version it was made from; accepting it saves it as a
+  // new version marked as AI generated.
+  app.post("/api/documents/:id/ai/summary", authenticateToken, enforceAIQuota, async (req: AuthRequest, res) => {
+    try {
+      const document = await storage.getDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      if (!canModifyDocument(document, req.user!)) {
+        return res.status(403).json({ message: "Permission denied" });
+      }
+
+      if (!document.content.trim()) {
+        return res.status(400).json({ message: "Document has no content to summarize" });
+      }
+
+      const summary = await summarizeDocument(document.title, document.content);
+      res.json({ summary, version: document.version });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to generate summary" });
+    }
+  });
+
+  app.post("/api/documents/:id/ai/tags", authenticateToken, enforceAIQuota, async (req: AuthRequest, res) => {
+    try {
+      const document = await storage.getDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      if (!canModifyDocument(document, req.user!)) {
+        return res.status(403).json({ message: "Permission denied" });
+      }
+
+      if (!document.content.trim()) {
+        return res.status(400).json({ message: "Document has no content to tag" });
+      }
+
+      const tags = await generateTags(document.title, document.content);
+      res.json({ tags, version: document.version });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to generate tags" });
+    }
+  });
+
+  app.post("/api/documents/:id/ai/apply", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const document = await storage.getDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      if (!canModifyDocument(document, req.user!)) {
+        return res.status(403).json({ message: "Permission denied" });
+      }
+
+      const expectedVersion = getExpectedVersion(req);
+      if (expectedVersion === undefined) {
+        return res.status(428).json({ message: "Document version required" });
+      }
+
+      const suggestion = applySuggestionSchema.parse(req.body);
+      const updatedDocument = await applyEnrichment(req.params.id, suggestion, req.user!.id, expectedVersion);
+      if (!updatedDocument) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      res.set("ETag", `"${updatedDocument.version}"`);
+      res.json(updatedDocument);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof VersionConflictError) {
+        return res.status(409).json({
+          message: "Document was modified since the suggestion was generated",
+          currentVersion: error.current.version,
+          document: error.current,
+        });
+      }
+      res.status(500).json({ message: "Failed to save suggestion" });
+    }
+  });
+
+  // AI enrichment status. Documents are listed while their latest job is
+  // pending, running or failed.
+  app.get("/api/enrichment", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const [jobs, documents] = await Promise.all([
+        storage.getLatestDocumentJobs("enrich_document"),
+        storage.getDocuments(),
+      ]);
+      // Jobs can outlive their document while it sits in the trash
+      const documentIds = new Set(documents.map(document => document.id));
+      res.json(jobs.filter(job => job.status !== "succeeded" && job.documentId && documentIds.has(job.documentId)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch enrichment status" });
+    }
+  });
+
+  app.get("/api/documents/:id/enrichment", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const document = await storage.getDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const [job] = (await storage.getDocumentJobs(document.id))
+        .filter(job => job.type === "enrich_document");
+      res.json(job ?? null);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch enrichment status" });
+    }
+  });
+
+  app.post("/api/documents/:id/enrich", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const document = await storage.getDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      if (!canModifyDocument(document, req.user!)) {
+        return res.status(403).json({ message: "Permission denied" });
+      }
+
+      const job = await retryEnrichment(document.id, req.user!.id);
+      res.status(202).json(job);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to queue enrichment" });
+    }
+  });
+
   // Search routes
   app.get("/api/search", authenticateToken, async (req: AuthRequest, res) => {
     try {
@@ -193,8 +766,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       let results;
       if (type === "semantic") {
-        const allDocuments = await storage.getDocuments();
-        results = await performSemanticSearch(query, allDocuments);
+        const exceeded = await checkAIQuota(req.user!.id);
+        if (exceeded) return sendQuotaExceeded(res, exceeded);
+
+        try {
+          results = await semanticSearch(query);
+        } catch (error) {
+          console.error("Error performing semantic search:", error);
+          // Fall back to text search when embeddings are unavailable
+          results = await storage.searchDocuments(query);
+        }
       } else {
         results = await storage.searchDocuments(query);
       }
@@ -206,7 +787,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI routes
-  app.post("/api/ai/summarize", authenticateToken, async (req: AuthRequest, res) => {
+  app.post("/api/ai/summarize", authenticateToken, enforceAIQuota, async (req: AuthRequest, res) => {
     try {
       const { title, content } = req.body;
       
@@ -221,7 +802,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ai/generate-tags", authenticateToken, async (req: AuthRequest, res) => {
+  app.post("/api/ai/generate-tags", authenticateToken, enforceAIQuota, async (req: AuthRequest, res) => {
     try {
       const { title, content } = req.body;
       
@@ -236,22 +817,267 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ai/qa", authenticateToken, async (req: AuthRequest, res) => {
+  app.post("/api/ai/qa", authenticateToken, enforceAIQuota, async (req: AuthRequest, res) => {
     try {
-      const { question } = req.body;
-      
-      if (!question) {
-        return res.status(400).json({ message: "Question required" });
+      const { question, conversationId, ...options } = qaSchema.parse(req.body);
+
+      // Only the owner can continue a conversation
+      const conversation = conversationId ? await storage.getConversation(conversationId) : undefined;
+      if (conversationId && conversation?.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Conversation not found" });
       }
-      
-      const documents = await storage.getDocuments();
-      const answer = await answerQuestion(question, documents);
-      res.json({ answer });
+
+      const turn = await beginTurn(req.user!.id, question, conversation);
+      const result = await askQuestion(question, options, turn.history);
+      await recordAnswer(turn.conversation.id, result.answer, result.citations, result.model);
+      res.json({ ...result, conversationId: turn.conversation.id });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to generate answer" });
     }
   });
 
+  // Same as /api/ai/qa, streamed as Server-Sent Events: "conversation" and
+  // "chunks", then "token" events with answer text, then "citations" and
+  // "done". If the client disconnects, the answer so far is still saved.
+  app.post("/api/ai/qa/stream", authenticateToken, enforceAIQuota, async (req: AuthRequest, res) => {
+    let input: z.infer<typeof qaSchema>;
+    let turn: Awaited<ReturnType<typeof beginTurn>>;
+    try {
+      input = qaSchema.parse(req.body);
+
+      const conversation = input.conversationId ? await storage.getConversation(input.conversationId) : undefined;
+      if (input.conversationId && conversation?.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      turn = await beginTurn(req.user!.id, input.question, conversation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      return res.status(500).json({ message: "Failed to generate answer" });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+
+    // Stop generating once the client goes away
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    const send = (event: string, data: unknown) => {
+      if (controller.signal.aborted) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      const { question, conversationId, ...options } = input;
+      send("conversation", { conversationId: turn.conversation.id });
+
+      let citations: Citation[] = [];
+      for await (const event of askQuestionStream(question, options, turn.history, controller.signal)) {
+        if (event.type === "citations") citations = event.citations;
+        if (event.type === "done") await recordAnswer(turn.conversation.id, event.answer, citations, event.model);
+        const { type, ...data } = event;
+        send(type, data);
+      }
+    } catch (error) {
+      send("error", { message: "Failed to generate answer" });
+    }
+    res.end();
+  });
+
+  // Conversation routes
+  app.get("/api/conversations", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const conversations = await storage.getConversations(req.user!.id);
+      res.json(conversations);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch conversations" });
+    }
+  });
+
+  app.get("/api/conversations/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || !canViewConversation(conversation, req.user!)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const details = await getConversationWithMessages(conversation);
+      if (!details) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      res.json(details);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch conversation" });
+    }
+  });
+
+  app.patch("/api/conversations/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const updates = updateConversationSchema.parse(req.body);
+
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || !canViewConversation(conversation, req.user!)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (conversation.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Permission denied" });
+      }
+
+      const updatedConversation = await storage.updateConversation(req.params.id, updates);
+      res.json(updatedConversation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update conversation" });
+    }
+  });
+
+  app.delete("/api/conversations/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || !canViewConversation(conversation, req.user!)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (conversation.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Permission denied" });
+      }
+
+      await storage.deleteConversation(req.params.id);
+      res.json({ message: "Conversation deleted" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete conversation" });
+    }
+  });
+
+  app.put("/api/conversations/:id/messages/:messageId/feedback", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { rating, comment } = answerFeedbackSchema.parse(req.body);
+
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || !canViewConversation(conversation, req.user!)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      // Answers are rated by the person who asked
+      if (conversation.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Permission denied" });
+      }
+
+      const feedback = await rateAnswer(conversation, req.params.messageId, req.user!.id, rating, comment);
+      if (!feedback) {
+        return res.status(404).json({ message: "Answer not found" });
+      }
+      res.json(feedback);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save feedback" });
+    }
+  });
+
+  // Admin routes
+  app.get("/api/admin/settings", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      res.json(await getSettings());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  app.put("/api/admin/settings", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const data = appSettingsSchema.partial().parse(req.body);
+      // Otherwise the admin turning it on would lose admin access at once
+      if (data.requireAdminTwoFactor && !req.user!.twoFactorEnabled) {
+        return res.status(400).json({ message: "Set up two-factor authentication for your own account before requiring it for admins" });
+      }
+      res.json(await updateSettings(data, req.user!.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update settings" });
+    }
+  });
+
+  app.get("/api/admin/qa-report", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const { days } = reportQuerySchema.parse(req.query);
+      res.json(await buildQAReport(days));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to build Q&A report" });
+    }
+  });
+
+  app.get("/api/admin/ai-usage", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const { days } = reportQuerySchema.parse(req.query);
+      res.json(await buildAIUsageReport(days));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to build AI usage report" });
+    }
+  });
+
+  app.get("/api/admin/ai-cache", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      res.json(await aiCache.stats());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch AI cache stats" });
+    }
+  });
+
+  app.delete("/api/admin/ai-cache", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      await aiCache.clear();
+      res.json(await aiCache.stats());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to clear AI cache" });
+    }
+  });
+
+  // Accounts locked after failed sign-ins, and recent lock and unlock events
+  app.get("/api/admin/lockouts", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      res.json(await buildLockoutReport());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch locked accounts" });
+    }
+  });
+
+  app.post("/api/admin/lockouts/unlock", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const { email } = unlockAccountSchema.parse(req.body);
+      if (!(await unlockAccount(email, req.user!))) {
+        return res.status(404).json({ message: "Account is not locked" });
+      }
+      res.json(await buildLockoutReport());
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to unlock account" });
+    }
+  });
+
   // Activity routes
   app.get("/api/activities", authenticateToken, async (req: AuthRequest, res) => {
     try {
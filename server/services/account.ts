@@ -0,0 +1,119 @@
+import { storage } from "../storage";
+import { log } from "../vite";
+import { forgetCachedUser, hashPassword, hashToken, randomToken } from "./auth";
+import { clearLoginFailures } from "./login-throttle";
+import { mailer } from "./mailer";
+import { endAllSessions } from "./sessions";
+import { type AccountTokenPurpose, type User } from "@shared/schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+const TOKEN_TTL_MS: Record<AccountTokenPurpose, number> = {
+  password_reset: HOUR_MS,
+  email_verification: 24 * HOUR_MS,
+};
+
+export class InvalidAccountTokenError extends Error {
+  constructor(message = "This link is invalid or has expired") {
+    super(message);
+    this.name = "InvalidAccountTokenError";
+  }
+}
+
+// Links in emails always point at APP_URL, never at the host a request came
+// in on, so a forged Host header cannot send a reset link to another site
+function appUrl(path: string): string {
+  const base = process.env.APP_URL || `http://localhost:${process.env.PORT || "5000"}`;
+  return `${base.replace(/\/$/, "")}${path}`;
+}
+
+// Only the newest link of each kind works: issuing one removes the others
+async function issueToken(userId: string, purpose: AccountTokenPurpose): Promise<string> {
+  await storage.deleteUserAccountTokens(userId, purpose);
+  const token = randomToken();
+  await storage.createAccountToken({
+    userId,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + TOKEN_TTL_MS[purpose]),
+  });
+  return token;
+}
+
+// Marks the token used and returns its user
+async function consumeToken(token: string, purpose: AccountTokenPurpose): Promise<User> {
+  const accountToken = await storage.getAccountTokenByHash(hashToken(token));
+  if (!accountToken || accountToken.purpose !== purpose || accountToken.usedAt || accountToken.expiresAt <= new Date()) {
+    throw new InvalidAccountTokenError();
+  }
+
+  const user = await storage.getUser(accountToken.userId);
+  if (!user || user.disabled) throw new InvalidAccountTokenError();
+
+  // Two requests racing with the same link: only one gets to use it
+  if (!(await storage.useAccountToken(accountToken.id, new Date()))) {
+    throw new InvalidAccountTokenError();
+  }
+  return user;
+}
+
+// Says nothing about whether the email belongs to an account, so the form
+// cannot be used to find out who has one. Failures are logged, not returned,
+// for the same reason.
+export async function requestPasswordReset(email: string): Promise<void> {
+  try {
+    const user = await storage.getUserByEmail(email);
+    if (!user || user.disabled) return;
+
+    const token = await issueToken(user.id, "password_reset");
+    await mailer.send({
+      to: user.email,
+      subject: "Reset your AI Knowledge Hub password",
+      text: [
+        `Hi ${user.name},`,
+        "",
+        "Someone asked to reset the password for your AI Knowledge Hub account. To choose a new one, open this link within the next hour:",
+        "",
+        appUrl(`/reset-password?token=${token}`),
+        "",
+        "If this wasn't you, you can ignore this email; your password has not been changed.",
+      ].join("\n"),
+    });
+  } catch (error) {
+    console.error("Error sending password reset email:", error);
+  }
+}
+
+// Sets the new password and signs the user out everywhere, since whoever
+// knew the old one may still be signed in. Following the emailed link also
+// proves the address is the user's.
+export async function resetPassword(token: string, password: string): Promise<void> {
+  const user = await consumeToken(token, "password_reset");
+  await storage.updateUser(user.id, { password: await hashPassword(password), emailVerified: true });
+  forgetCachedUser(user.id);
+  await endAllSessions(user.id);
+  await clearLoginFailures(user.email);
+  log(`password reset for user ${user.id}`, "auth");
+}
+
+export async function sendVerificationEmail(user: User): Promise<void> {
+  const token = await issueToken(user.id, "email_verification");
+  await mailer.send({
+    to: user.email,
+    subject: "Verify your email for AI Knowledge Hub",
+    text: [
+      `Hi ${user.name},`,
+      "",
+      "Please confirm this is your email address by opening this link within the next 24 hours:",
+      "",
+      appUrl(`/verify-email?token=${token}`),
+      "",
+      "If you didn't create an AI Knowledge Hub account, you can ignore this email.",
+    ].join("\n"),
+  });
+}
+
+export async function verifyEmail(token: string): Promise<void> {
+  const user = await consumeToken(token, "email_verification");
+  await storage.updateUser(user.id, { emailVerified: true });
+  forgetCachedUser(user.id);
+}
@@ -0,0 +1,181 @@
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import { type AICacheStats } from "@shared/schema";
+import { type CachedOperation, type OperationVersion } from "./ai-provider";
+
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+const DEFAULT_MAX_ENTRIES = 5000;
+// The Postgres store deletes expired and surplus entries after this many writes
+const PRUNE_EVERY_WRITES = 100;
+
+interface AICacheStore {
+  readonly name: string;
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, operation: CachedOperation, value: unknown, expiresAt: Date): Promise<void>;
+  size(): Promise<number>;
+  clear(): Promise<void>;
+}
+
+// Per-process store that evicts the least recently used entries first
+class MemoryAICacheStore implements AICacheStore {
+  readonly name = "memory";
+  private entries = new Map<string, { value: unknown; expiresAt: Date }>();
+
+  constructor(private maxEntries: number) {}
+
+  async get(key: string): Promise<unknown | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    // Reinserting keeps the map in least recently used order
+    this.entries.delete(key);
+    if (entry.expiresAt <= new Date()) return undefined;
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, _operation: CachedOperation, value: unknown, expiresAt: Date): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async size(): Promise<number> {
+    return this.entries.size;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+// Stored with the rest of the data, so entries are shared between server
+// processes and survive restarts
+class StorageAICacheStore implements AICacheStore {
+  readonly name = "postgres";
+  private writes = 0;
+
+  constructor(private maxEntries: number) {}
+
+  async get(key: string): Promise<unknown | undefined> {
+    return (await storage.getAICacheEntry(key, new Date()))?.value;
+  }
+
+  async set(key: string, operation: CachedOperation, value: unknown, expiresAt: Date): Promise<void> {
+    await storage.setAICacheEntry({ key, operation, value, expiresAt });
+    if (++this.writes % PRUNE_EVERY_WRITES === 0) {
+      await storage.pruneAICache(new Date(), this.maxEntries);
+    }
+  }
+
+  async size(): Promise<number> {
+    return storage.countAICacheEntries();
+  }
+
+  async clear(): Promise<void> {
+    await storage.clearAICache();
+  }
+}
+
+// Caches AI responses by operation, model, prompt version and a hash of the
+// input. Cache failures are logged and fall through to the provider.
+export class AICache {
+  private counters = new Map<CachedOperation, { hits: number; misses: number }>();
+
+  constructor(
+    private store: AICacheStore | null,
+    private versions: Record<CachedOperation, OperationVersion>,
+    private ttlSeconds: number,
+    private maxEntries: number,
+  ) {}
+
+  private key(operation: CachedOperation, input: unknown): string {
+    const { model, promptVersion } = this.versions[operation];
+    const contentHash = createHash("sha256").update(JSON.stringify(input)).digest("hex");
+    return createHash("sha256").update(`${operation}\n${model}\n${promptVersion}\n${contentHash}`).digest("hex");
+  }
+
+  private count(operation: CachedOperation, hits: number, misses: number) {
+    const counter = this.counters.get(operation) ?? { hits: 0, misses: 0 };
+    counter.hits += hits;
+    counter.misses += misses;
+    this.counters.set(operation, counter);
+  }
+
+  async get<T>(operation: CachedOperation, input: unknown, compute: () => Promise<T>): Promise<T> {
+    const [value] = await this.getMany(operation, [input], async () => [await compute()]);
+    return value;
+  }
+
+  // Looks up each input on its own and computes the missing ones in a single
+  // call, which must return their results in order
+  async getMany<I, T>(operation: CachedOperation, inputs: I[], compute: (missing: I[]) => Promise<T[]>): Promise<T[]> {
+    const store = this.store;
+    if (!store || inputs.length === 0) return compute(inputs);
+
+    const keys = inputs.map(input => this.key(operation, input));
+    const results: (T | undefined)[] = await Promise.all(keys.map(async (key) => {
+      try {
+        return await store.get(key) as T | undefined;
+      } catch (error) {
+        console.error("Error reading AI cache:", error);
+        return undefined;
+      }
+    }));
+
+    const missing = results.flatMap((result, index) => result === undefined ? [index] : []);
+    this.count(operation, inputs.length - missing.length, missing.length);
+    if (missing.length === 0) return results as T[];
+
+    const computed = await compute(missing.map(index => inputs[index]));
+    const expiresAt = new Date(Date.now() + this.ttlSeconds * 1000);
+    for (let position = 0; position < missing.length; position++) {
+      const index = missing[position];
+      results[index] = computed[position];
+      try {
+        await store.set(keys[index], operation, computed[position], expiresAt);
+      } catch (error) {
+        console.error("Error writing AI cache:", error);
+      }
+    }
+    return results as T[];
+  }
+
+  async stats(): Promise<AICacheStats> {
+    return {
+      store: this.store?.name ?? "none",
+      ttlSeconds: this.ttlSeconds,
+      maxEntries: this.maxEntries,
+      entries: this.store ? await this.store.size() : 0,
+      operations: Object.fromEntries(
+        (Object.keys(this.versions) as CachedOperation[])
+          .map(operation => [operation, this.counters.get(operation) ?? { hits: 0, misses: 0 }]),
+      ),
+    };
+  }
+
+  async clear(): Promise<void> {
+    await this.store?.clear();
+  }
+}
+
+// AI_CACHE_STORE selects where responses are kept: "memory" (the default),
+// "postgres" or "none" to turn caching off.
+export function createAICache(versions: Record<CachedOperation, OperationVersion>): AICache {
+  const ttlSeconds = parseInt(process.env.AI_CACHE_TTL_SECONDS || String(DEFAULT_TTL_SECONDS), 10);
+  const maxEntries = parseInt(process.env.AI_CACHE_MAX_ENTRIES || String(DEFAULT_MAX_ENTRIES), 10);
+  const driver = process.env.AI_CACHE_STORE || "memory";
+
+  if (driver === "none") {
+    return new AICache(null, versions, ttlSeconds, maxEntries);
+  }
+  if (driver === "postgres") {
+    return new AICache(new StorageAICacheStore(maxEntries), versions, ttlSeconds, maxEntries);
+  }
+  if (driver !== "memory") {
+    throw new Error(`Unknown AI_CACHE_STORE "${driver}"`);
+  }
+  return new AICache(new MemoryAICacheStore(maxEntries), versions, ttlSeconds, maxEntries);
+}
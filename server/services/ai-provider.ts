@@ -0,0 +1,69 @@
+export { EMBEDDING_DIMENSIONS } from "@shared/schema";
+
+// A retrieved passage given to the model as context for an answer
+export interface ContextPassage {
+  title: string;
+  content: string;
+}
+
+// An earlier message of the conversation a question is asked in
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+// An answer as written by the model. Citations refer to the passages it was
+// given by 1-based number and quote them; the answer marks claims with [n].
+export interface DraftAnswer {
+  answer: string;
+  citations: { passage: number; quote: string }[];
+}
+
+export interface ChangeSnapshot {
+  title: string;
+  content: string;
+}
+
+export type AIOperation = "summarize" | "generateTags" | "answerQuestion" | "embed" | "describeChanges";
+
+// Operations whose responses are cached by the AI service
+export type CachedOperation = Extract<AIOperation, "summarize" | "generateTags" | "embed" | "describeChanges">;
+
+// Tokens used by one call to a model, as reported by its API or estimated
+// where the API does not report them. Streamed answers count as answerQuestion.
+export interface AIUsageEvent {
+  operation: AIOperation;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Providers call this after every model call, including failed and aborted
+// streams that produced output
+export type UsageListener = (usage: AIUsageEvent) => void;
+
+// Model behind an operation and the version of its prompt template. Bump
+// promptVersion whenever the prompt changes so cached responses to the old
+// prompt are not reused.
+export interface OperationVersion {
+  model: string;
+  promptVersion: number;
+}
+
+export interface AIProvider {
+  readonly name: string;
+  // Model that answers questions, as recorded with the answers
+  readonly answerModel: string;
+  readonly operations: Record<CachedOperation, OperationVersion>;
+  summarize(title: string, content: string): Promise<string>;
+  generateTags(title: string, content: string): Promise<string[]>;
+  // history holds the earlier turns of the conversation, oldest first, for
+  // follow-up questions that refer back to them
+  answerQuestion(question: string, passages: ContextPassage[], history: ChatTurn[]): Promise<DraftAnswer>;
+  // Yields the answer text as it is generated, with claims marked by [n]
+  // passage numbers. Stops early once signal is aborted.
+  streamAnswer(question: string, passages: ContextPassage[], history: ChatTurn[], signal?: AbortSignal): AsyncIterable<string>;
+  // One EMBEDDING_DIMENSIONS-long vector per text, in order
+  embed(texts: string[]): Promise<number[][]>;
+  describeChanges(before: ChangeSnapshot, after: ChangeSnapshot, outline: string): Promise<string>;
+}
@@ -0,0 +1,146 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { getSettings } from "./settings";
+import { type AuthRequest } from "./auth";
+import { type AIUsageTotals, type AIUsageReport } from "@shared/schema";
+import { type AIUsageEvent } from "./ai-provider";
+
+// US dollars per million input and output tokens. Unlisted models, such as
+// the local provider's, cost nothing.
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "text-embedding-004": { input: 0, output: 0 },
+};
+
+// The user AI calls are made on behalf of, so providers can report usage
+// without every caller passing it along
+const usageContext = new AsyncLocalStorage<{ userId: string }>();
+
+export function runAsUser<T>(userId: string, fn: () => T): T {
+  return usageContext.run({ userId }, fn);
+}
+
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+  const price = MODEL_PRICES[model];
+  if (!price) return 0;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+// Recording is best effort: a failed write must not fail the AI call
+export function recordUsage(event: AIUsageEvent) {
+  storage.recordAIUsage({
+    ...event,
+    userId: usageContext.getStore()?.userId ?? null,
+    estimatedCost: estimateCost(event.model, event.inputTokens, event.outputTokens),
+  }).catch(error => console.error("Error recording AI usage:", error));
+}
+
+function tokens(totals: AIUsageTotals): number {
+  return totals.inputTokens + totals.outputTokens;
+}
+
+// Quota periods are UTC calendar days and months
+function periodStarts(now: Date) {
+  return {
+    day: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())),
+    nextDay: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)),
+    month: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    nextMonth: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+export interface QuotaExceeded {
+  message: string;
+  resetsAt: Date;
+}
+
+// Returns the first quota the user or the workspace has used up, if any.
+// A quota of 0 is unlimited.
+export async function checkAIQuota(userId: string, now = new Date()): Promise<QuotaExceeded | null> {
+  const settings = await getSettings();
+  const { day, nextDay, month, nextMonth } = periodStarts(now);
+
+  const quotas = [
+    { limit: settings.aiUserDailyTokens, since: day, resetsAt: nextDay, userId, scope: "your daily" },
+    { limit: settings.aiUserMonthlyTokens, since: month, resetsAt: nextMonth, userId, scope: "your monthly" },
+    { limit: settings.aiWorkspaceDailyTokens, since: day, resetsAt: nextDay, userId: undefined, scope: "the workspace's daily" },
+    { limit: settings.aiWorkspaceMonthlyTokens, since: month, resetsAt: nextMonth, userId: undefined, scope: "the workspace's monthly" },
+  ];
+
+  for (const quota of quotas) {
+    if (quota.limit === 0) continue;
+    const used = tokens(await storage.getAIUsageTotals(quota.since, quota.userId));
+    if (used >= quota.limit) {
+      return {
+        message: `AI usage limit reached: ${quota.scope} quota of ${quota.limit} tokens is used up. It resets at ${quota.resetsAt.toISOString()}.`,
+        resetsAt: quota.resetsAt,
+      };
+    }
+  }
+  return null;
+}
+
+export function sendQuotaExceeded(res: Response, exceeded: QuotaExceeded) {
+  const retryAfter = Math.max(1, Math.ceil((exceeded.resetsAt.getTime() - Date.now()) / 1000));
+  res.setHeader("Retry-After", String(retryAfter));
+  return res.status(429).json({ message: exceeded.message, resetsAt: exceeded.resetsAt.toISOString() });
+}
+
+// Goes after authenticateToken on routes that call the AI
+export async function enforceAIQuota(req: AuthRequest, res: Response, next: NextFunction) {
+  try {
+    const exceeded = await checkAIQuota(req.user!.id);
+    if (exceeded) return sendQuotaExceeded(res, exceeded);
+  } catch (error) {
+    return res.status(500).json({ message: "Failed to check AI usage quota" });
+  }
+  next();
+}
+
+export async function buildAIUsageReport(days: number): Promise<AIUsageReport> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const [groups, settings] = await Promise.all([storage.getAIUsageGroups(since), getSettings()]);
+
+  const add = (totals: AIUsageTotals, group: AIUsageTotals) => {
+    totals.calls += group.calls;
+    totals.inputTokens += group.inputTokens;
+    totals.outputTokens += group.outputTokens;
+    totals.estimatedCost += group.estimatedCost;
+  };
+  const empty = (): AIUsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, estimatedCost: 0 });
+
+  const totals = empty();
+  const byUser = new Map<string | null, AIUsageTotals>();
+  const byOperation = new Map<string, AIUsageTotals>();
+  for (const group of groups) {
+    add(totals, group);
+    if (!byUser.has(group.userId)) byUser.set(group.userId, empty());
+    add(byUser.get(group.userId)!, group);
+    if (!byOperation.has(group.operation)) byOperation.set(group.operation, empty());
+    add(byOperation.get(group.operation)!, group);
+  }
+
+  const users: AIUsageReport["byUser"] = [];
+  for (const [userId, userTotals] of Array.from(byUser.entries())) {
+    const user = userId ? await storage.getUser(userId) : undefined;
+    users.push({ ...userTotals, user: user ? { id: user.id, name: user.name, email: user.email } : null });
+  }
+
+  const byTokens = (a: AIUsageTotals, b: AIUsageTotals) => tokens(b) - tokens(a);
+  return {
+    since: since.toISOString(),
+    totals,
+    byUser: users.sort(byTokens),
+    byOperation: Array.from(byOperation.entries())
+      .map(([operation, operationTotals]) => ({ ...operationTotals, operation }))
+      .sort(byTokens),
+    quotas: {
+      aiUserDailyTokens: settings.aiUserDailyTokens,
+      aiUserMonthlyTokens: settings.aiUserMonthlyTokens,
+      aiWorkspaceDailyTokens: settings.aiWorkspaceDailyTokens,
+      aiWorkspaceMonthlyTokens: settings.aiWorkspaceMonthlyTokens,
+    },
+  };
+}
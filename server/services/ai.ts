@@ -0,0 +1,104 @@
+import { GeminiProvider } from "./gemini";
+import { LocalAIProvider } from "./local-ai";
+import { createAICache } from "./ai-cache";
+import { recordUsage } from "./ai-usage";
+import { sanitizeUntrusted, validateOutput, validateTags } from "./prompt-safety";
+import { type AIProvider, type ChangeSnapshot, type ChatTurn, type ContextPassage, type DraftAnswer } from "./ai-provider";
+
+export * from "./ai-provider";
+
+function createAIProvider(): AIProvider {
+  const provider = process.env.AI_PROVIDER || (process.env.GEMINI_API_KEY ? "gemini" : "local");
+
+  if (provider === "gemini") {
+    if (!process.env.GEMINI_API_KEY) {
+      throw new Error("GEMINI_API_KEY must be set when AI_PROVIDER is gemini");
+    }
+    return new GeminiProvider(process.env.GEMINI_API_KEY, recordUsage);
+  }
+
+  if (provider !== "local") {
+    throw new Error(`Unknown AI_PROVIDER "${provider}"`);
+  }
+  return new LocalAIProvider(recordUsage);
+}
+
+export const aiProvider = createAIProvider();
+export const aiCache = createAICache(aiProvider.operations);
+
+// Document text is sanitized before it reaches the provider and what comes
+// back is validated, whichever provider is in use. See prompt-safety.ts.
+function sanitizePassages(passages: ContextPassage[]): ContextPassage[] {
+  return passages.map(passage => ({
+    ...passage,
+    title: sanitizeUntrusted(passage.title),
+    content: sanitizeUntrusted(passage.content),
+  }));
+}
+
+export async function summarizeDocument(title: string, content: string): Promise<string> {
+  try {
+    const [safeTitle, safeContent] = [sanitizeUntrusted(title), sanitizeUntrusted(content)];
+    return await aiCache.get("summarize", [safeTitle, safeContent], async () =>
+      validateOutput(await aiProvider.summarize(safeTitle, safeContent), [title, content]),
+    );
+  } catch (error) {
+    console.error("Error generating summary:", error);
+    throw new Error("Failed to generate document summary");
+  }
+}
+
+export async function generateTags(title: string, content: string): Promise<string[]> {
+  try {
+    const [safeTitle, safeContent] = [sanitizeUntrusted(title), sanitizeUntrusted(content)];
+    return await aiCache.get("generateTags", [safeTitle, safeContent], async () =>
+      validateTags(await aiProvider.generateTags(safeTitle, safeContent)),
+    );
+  } catch (error) {
+    console.error("Error generating tags:", error);
+    throw new Error("Failed to generate tags");
+  }
+}
+
+export const answerModel = aiProvider.answerModel;
+
+export async function answerQuestion(question: string, passages: ContextPassage[], history: ChatTurn[] = []): Promise<DraftAnswer> {
+  try {
+    return await aiProvider.answerQuestion(question, sanitizePassages(passages), history);
+  } catch (error) {
+    console.error("Error answering question:", error);
+    throw new Error("Failed to generate answer");
+  }
+}
+
+export async function* streamAnswer(question: string, passages: ContextPassage[], history: ChatTurn[] = [], signal?: AbortSignal): AsyncIterable<string> {
+  try {
+    yield* aiProvider.streamAnswer(question, sanitizePassages(passages), history, signal);
+  } catch (error) {
+    if (signal?.aborted) return;
+    console.error("Error streaming answer:", error);
+    throw new Error("Failed to generate answer");
+  }
+}
+
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+  try {
+    return await aiCache.getMany("embed", texts, (missing) => aiProvider.embed(missing));
+  } catch (error) {
+    console.error("Error generating embeddings:", error);
+    throw new Error("Failed to generate embeddings");
+  }
+}
+
+export async function describeDocumentChanges(before: ChangeSnapshot, after: ChangeSnapshot, outline: string): Promise<string> {
+  try {
+    const sanitize = (snapshot: ChangeSnapshot) => ({ title: sanitizeUntrusted(snapshot.title), content: sanitizeUntrusted(snapshot.content) });
+    const [safeBefore, safeAfter] = [sanitize(before), sanitize(after)];
+    return await aiCache.get("describeChanges", [safeBefore, safeAfter, outline], async () =>
+      validateOutput(await aiProvider.describeChanges(safeBefore, safeAfter, outline), [before.content, after.content]),
+    );
+  } catch (error) {
+    console.error("Error describing document changes:", error);
+    throw new Error("Failed to describe document changes");
+  }
+}
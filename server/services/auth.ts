@@ -1,26 +1,78 @@
+import { createHash, randomBytes } from "crypto";
 import jwt from "jsonwebtoken";
 import bcrypt from "bcryptjs";
 import { Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { runAsUser } from "./ai-usage";
+import { getSetting } from "./settings";
+import { type User } from "@shared/schema";
 
 const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
+// Access tokens are short-lived; clients renew them with their session's
+// refresh token (see sessions.ts)
+const ACCESS_TOKEN_TTL_MINUTES = parseInt(process.env.ACCESS_TOKEN_TTL_MINUTES || "15", 10);
+// Time allowed between the password and the two-factor code at sign-in
+const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+// How long a looked-up user is reused, and so how long a role change or a
+// disabled account can take to apply to requests already signed in
+const USER_CACHE_TTL_MS = 5 * 1000;
+
+// The account as requests see it, and as the client is told about it
+export interface CurrentUser {
+  id: string;
+  email: string;
+  name: string;
+  // The role in effect, which is "user" for an admin who still has to set up
+  // two-factor authentication while that is required
+  role: string;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  twoFactorSetupRequired: boolean;
+}
+
+const userCache = new Map<string, { user: User | undefined; current: CurrentUser | undefined; expiresAt: number }>();
 
 export interface AuthRequest extends Request {
-  user?: {
-    id: string;
-    email: string;
-    name: string;
-    role: string;
-  };
+  user?: CurrentUser;
+  // The session the access token was issued for
+  sessionId?: string;
 }
 
-export function generateToken(user: { id: string; email: string; name: string; role: string }): string {
-  return jwt.sign(user, JWT_SECRET, { expiresIn: "7d" });
+export function generateToken(user: { id: string; email: string; name: string; role: string }, sessionId: string): string {
+  return jwt.sign({ ...user, sid: sessionId }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_MINUTES * 60 });
 }
 
 export function verifyToken(token: string): any {
   return jwt.verify(token, JWT_SECRET);
 }
 
+// Issued for a correct password when the account also needs a two-factor
+// code. It has no session, so it is never accepted as an access token.
+export function generateTwoFactorChallenge(userId: string): string {
+  return jwt.sign({ sub: userId, purpose: "two_factor" }, JWT_SECRET, { expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS });
+}
+
+// Returns the user the challenge was issued for, or null if it is invalid
+// or has expired
+export function verifyTwoFactorChallenge(token: string): string | null {
+  try {
+    const payload = verifyToken(token);
+    return payload.purpose === "two_factor" && typeof payload.sub === "string" ? payload.sub : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// For refresh tokens and emailed links
+export function randomToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+// Only hashes of tokens are stored, so a database leak does not leak usable ones
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
 export async function hashPassword(password: string): Promise<string> {
   return bcrypt.hash(password, 10);
 }
@@ -29,7 +81,41 @@ export async function comparePassword(password: string, hash: string): Promise<b
   return bcrypt.compare(password, hash);
 }
 
-export function authenticateToken(req: AuthRequest, res: Response, next: NextFunction) {
+export async function describeUser(user: User): Promise<CurrentUser> {
+  const twoFactor = await storage.getTwoFactor(user.id);
+  const twoFactorEnabled = !!twoFactor?.enabledAt;
+  const twoFactorSetupRequired = user.role === "admin" && !twoFactorEnabled && (await getSetting("requireAdminTwoFactor"));
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: twoFactorSetupRequired ? "user" : user.role,
+    emailVerified: user.emailVerified,
+    twoFactorEnabled,
+    twoFactorSetupRequired,
+  };
+}
+
+async function getCurrentUser(id: string): Promise<{ user: User | undefined; current: CurrentUser | undefined }> {
+  const now = Date.now();
+  const cached = userCache.get(id);
+  if (cached && cached.expiresAt > now) return cached;
+
+  const user = await storage.getUser(id);
+  const current = user && !user.disabled ? await describeUser(user) : undefined;
+  // Expired entries are dropped as they are replaced; clear out the rest
+  // whenever the cache has grown large
+  if (userCache.size >= 1000) userCache.clear();
+  userCache.set(id, { user, current, expiresAt: now + USER_CACHE_TTL_MS });
+  return { user, current };
+}
+
+// Called after changing a user, so the change applies to the next request
+export function forgetCachedUser(id: string) {
+  userCache.delete(id);
+}
+
+export async function authenticateToken(req: AuthRequest, res: Response, next: NextFunction) {
   const authHeader = req.headers.authorization;
   const token = authHeader && authHeader.split(" ")[1];
 
@@ -37,16 +123,45 @@ export function authenticateToken(req: AuthRequest, res: Response, next: NextFun
     return res.status(401).json({ message: "Access token required" });
   }
 
+  let payload;
+  try {
+    payload = verifyToken(token);
+  } catch (error) {
+    return res.status(401).json({ message: "Invalid or expired token" });
+  }
+
+  // A token is only good while the session it was issued for is, so signing
+  // out takes effect immediately. The user is looked up again rather than
+  // taken from the token, so role changes and removed accounts apply too.
+  let user: User | undefined;
+  let current: CurrentUser | undefined;
   try {
-    const user = verifyToken(token);
-    req.user = user;
-    next();
+    const session = typeof payload.sid === "string" ? await storage.getSession(payload.sid) : undefined;
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      return res.status(401).json({ message: "Session has ended" });
+    }
+    ({ user, current } = await getCurrentUser(session.userId));
   } catch (error) {
-    return res.status(403).json({ message: "Invalid or expired token" });
+    return res.status(500).json({ message: "Failed to check session" });
+  }
+
+  if (!user) {
+    return res.status(401).json({ message: "Account no longer exists" });
+  }
+  if (user.disabled) {
+    return res.status(401).json({ message: "Account is disabled" });
   }
+
+  req.user = current!;
+  req.sessionId = payload.sid;
+  // AI calls made while handling the request are recorded against the user
+  runAsUser(req.user.id, next);
 }
 
 export function requireAdmin(req: AuthRequest, res: Response, next: NextFunction) {
+  if (req.user?.twoFactorSetupRequired) {
+    return res.status(403).json({ message: "Set up two-factor authentication to use admin features" });
+  }
   if (!req.user || req.user.role !== "admin") {
     return res.status(403).json({ message: "Admin access required" });
   }
@@ -0,0 +1,88 @@
+import { diffSequences, diffTags } from "@shared/diff";
+import { describeDocumentChanges } from "./ai";
+import { checkAIQuota } from "./ai-usage";
+
+export interface DocumentSnapshot {
+  title: string;
+  content: string;
+  summary: string | null;
+  tags: string[] | null;
+}
+
+function splitParagraphs(content: string): string[] {
+  return content
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean);
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count !== 1 ? "s" : ""}`;
+}
+
+function quoteList(items: string[]): string {
+  return items.map(item => `'${item}'`).join(", ");
+}
+
+// Short human-readable description of what changed between two snapshots,
+// e.g. "Edited 3 paragraphs, added tag 'onboarding'".
+export function describeChanges(before: DocumentSnapshot, after: DocumentSnapshot): string {
+  const parts: string[] = [];
+
+  if (before.title !== after.title) {
+    parts.push(`renamed to "${after.title}"`);
+  }
+
+  let edited = 0;
+  let added = 0;
+  let removed = 0;
+  const ops = diffSequences(splitParagraphs(before.content), splitParagraphs(after.content));
+  for (let i = 0; i < ops.length; i++) {
+    const op = ops[i];
+    const next = ops[i + 1];
+    if (op.type === "delete" && next?.type === "insert") {
+      const paired = Math.min(op.items.length, next.items.length);
+      edited += paired;
+      removed += op.items.length - paired;
+      added += next.items.length - paired;
+      i++;
+    } else if (op.type === "delete") {
+      removed += op.items.length;
+    } else if (op.type === "insert") {
+      added += op.items.length;
+    }
+  }
+  if (edited) parts.push(`edited ${plural(edited, "paragraph")}`);
+  if (added) parts.push(`added ${plural(added, "paragraph")}`);
+  if (removed) parts.push(`removed ${plural(removed, "paragraph")}`);
+
+  if ((before.summary || "") !== (after.summary || "")) {
+    parts.push(!before.summary ? "added summary" : !after.summary ? "removed summary" : "updated summary");
+  }
+
+  const tags = diffTags(before.tags || [], after.tags || []);
+  if (tags.added.length) parts.push(`added ${tags.added.length > 1 ? "tags" : "tag"} ${quoteList(tags.added)}`);
+  if (tags.removed.length) parts.push(`removed ${tags.removed.length > 1 ? "tags" : "tag"} ${quoteList(tags.removed)}`);
+
+  if (parts.length === 0) return "No changes";
+  const description = parts.join(", ");
+  return description.charAt(0).toUpperCase() + description.slice(1);
+}
+
+// Uses the AI service for a more natural description when
+// AI_CHANGE_DESCRIPTIONS is enabled, falling back to describeChanges, which
+// is also used once the saving user's AI quota is used up.
+export async function generateChangeDescription(before: DocumentSnapshot, after: DocumentSnapshot, userId: string): Promise<string> {
+  const description = describeChanges(before, after);
+  if (process.env.AI_CHANGE_DESCRIPTIONS !== "true" || description === "No changes") {
+    return description;
+  }
+
+  try {
+    if (await checkAIQuota(userId)) return description;
+    return await describeDocumentChanges(before, after, description);
+  } catch (error) {
+    console.error("Error generating change description:", error);
+    return description;
+  }
+}
@@ -0,0 +1,79 @@
+export interface TextChunk {
+  content: string;
+  // Character offsets of the chunk in the source text
+  startOffset: number;
+  endOffset: number;
+}
+
+// Upper bound on chunk length in characters. Chunks are packed from whole
+// paragraphs where possible, then whole sentences, and only cut mid-sentence
+// when a single sentence is longer than this.
+export const MAX_CHUNK_LENGTH = 1000;
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+// Trims whitespace off both ends of a span
+function trimSpan(text: string, start: number, end: number): Span | null {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return start < end ? { start, end } : null;
+}
+
+function splitSpan(text: string, span: Span, separator: RegExp): Span[] {
+  const spans: Span[] = [];
+  const pattern = new RegExp(separator.source, "g");
+  let start = span.start;
+  const slice = text.slice(span.start, span.end);
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(slice)) !== null) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    const end = span.start + match.index + match[0].length;
+    const trimmed = trimSpan(text, start, end);
+    if (trimmed) spans.push(trimmed);
+    start = end;
+  }
+  const rest = trimSpan(text, start, span.end);
+  if (rest) spans.push(rest);
+  return spans;
+}
+
+// Breaks the text into pieces no longer than maxLength, preferring paragraph
+// and then sentence boundaries
+function segments(text: string, maxLength: number): Span[] {
+  const result: Span[] = [];
+  for (const paragraph of splitSpan(text, { start: 0, end: text.length }, /\n\s*\n/)) {
+    if (paragraph.end - paragraph.start <= maxLength) {
+      result.push(paragraph);
+      continue;
+    }
+    for (const sentence of splitSpan(text, paragraph, /[.!?]+(?=\s)|\n/)) {
+      for (let start = sentence.start; start < sentence.end; start += maxLength) {
+        result.push({ start, end: Math.min(start + maxLength, sentence.end) });
+      }
+    }
+  }
+  return result;
+}
+
+export function chunkText(text: string, maxLength = MAX_CHUNK_LENGTH): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let current: Span | null = null;
+
+  for (const segment of segments(text, maxLength)) {
+    if (current && segment.end - current.start <= maxLength) {
+      current.end = segment.end;
+      continue;
+    }
+    if (current) chunks.push({ content: text.slice(current.start, current.end), startOffset: current.start, endOffset: current.end });
+    current = { ...segment };
+  }
+  if (current) chunks.push({ content: text.slice(current.start, current.end), startOffset: current.start, endOffset: current.end });
+
+  return chunks;
+}
@@ -0,0 +1,116 @@
+import { type Citation } from "@shared/schema";
+import { type DraftAnswer } from "./ai-provider";
+import { type RetrievedChunk } from "./retrieval";
+import { splitSentences, terms } from "../text";
+
+// Finds quote in text ignoring case, differences in whitespace and quotes
+// or ellipses around it. Returns the matching range of the original text.
+export function locateQuote(text: string, quote: string): { start: number; end: number } | null {
+  const needle = quote
+    .trim()
+    .replace(/^["'“”‘’]+|["'“”‘’]+$/g, "")
+    .replace(/^(\.\.\.|…)\s*|\s*(\.\.\.|…)$/g, "")
+    .replace(/\s+/g, " ")
+    .toLowerCase();
+  if (!needle) return null;
+
+  // Normalised copy of the text plus the original index of each character
+  let normalized = "";
+  const positions: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) {
+      if (normalized.endsWith(" ")) continue;
+      normalized += " ";
+    } else {
+      normalized += text[i].toLowerCase();
+    }
+    positions.push(i);
+  }
+
+  const index = normalized.indexOf(needle);
+  if (index === -1) return null;
+  return { start: positions[index], end: positions[index + needle.length - 1] + 1 };
+}
+
+// A [n] or [n, m] marker and the space before it
+const MARKER = /( ?)\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// Keeps the citations whose quote really occurs in the passage they point at,
+// numbers them in order and rewrites the answer's [n] passage markers to the
+// citation markers. Markers with no valid citation are dropped.
+export function resolveCitations(draft: DraftAnswer, chunks: RetrievedChunk[]): { answer: string; citations: Citation[] } {
+  const citations: Citation[] = [];
+  const markersByPassage = new Map<number, number[]>();
+
+  // Model output is untrusted, so every field is checked
+  for (const { passage, quote } of Array.isArray(draft.citations) ? draft.citations : []) {
+    const chunk = chunks[passage - 1];
+    if (!Number.isInteger(passage) || !chunk || typeof quote !== "string") continue;
+
+    const range = locateQuote(chunk.content, quote);
+    if (!range) continue;
+
+    const startOffset = chunk.startOffset + range.start;
+    const endOffset = chunk.startOffset + range.end;
+    const duplicate = citations.some(citation =>
+      citation.documentId === chunk.documentId && citation.startOffset === startOffset && citation.endOffset === endOffset,
+    );
+    if (duplicate) continue;
+
+    const marker = citations.length + 1;
+    citations.push({
+      marker,
+      documentId: chunk.documentId,
+      title: chunk.title,
+      version: chunk.version,
+      startOffset,
+      endOffset,
+      quote: chunk.content.slice(range.start, range.end),
+    });
+    markersByPassage.set(passage, [...(markersByPassage.get(passage) || []), marker]);
+  }
+
+  const answer = String(draft.answer ?? "")
+    .replace(MARKER, (_, space: string, numbers: string) => {
+      const markers = numbers
+        .split(",")
+        .flatMap(number => markersByPassage.get(parseInt(number, 10)) || []);
+      return markers.length ? space + markers.map(marker => `[${marker}]`).join("") : "";
+    })
+    .trim();
+
+  return { answer, citations };
+}
+
+// For answers written without quotes (streamed ones), each [n] marker is
+// backed by the sentence of passage n that shares the most words with the
+// claim before the marker. Markers with no such sentence get no citation.
+export function citationsFromMarkers(answer: string, chunks: RetrievedChunk[]): DraftAnswer["citations"] {
+  const citations: DraftAnswer["citations"] = [];
+  let claimStart = 0;
+
+  for (const match of Array.from(answer.matchAll(MARKER))) {
+    const before = answer.slice(claimStart, match.index);
+    // The claim is the last sentence before the marker
+    const claim = splitSentences(before).pop() || before;
+    const claimTerms = new Set(terms(claim));
+    claimStart = match.index! + match[0].length;
+
+    for (const number of match[2].split(",")) {
+      const passage = parseInt(number, 10);
+      const chunk = chunks[passage - 1];
+      if (!chunk) continue;
+
+      let best: { sentence: string; overlap: number } | null = null;
+      for (const sentence of splitSentences(chunk.content)) {
+        const overlap = terms(sentence).filter(term => claimTerms.has(term)).length;
+        if (overlap > 0 && (!best || overlap > best.overlap)) best = { sentence, overlap };
+      }
+      if (best && !citations.some(citation => citation.passage === passage && citation.quote === best!.sentence)) {
+        citations.push({ passage, quote: best.sentence });
+      }
+    }
+  }
+
+  return citations;
+}
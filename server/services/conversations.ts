@@ -0,0 +1,92 @@
+import { storage } from "../storage";
+import { type ChatTurn } from "./ai";
+import {
+  type AnswerFeedback,
+  type AnswerRating,
+  type Citation,
+  type Conversation,
+  type ConversationMessage,
+  type ConversationWithMessages,
+} from "@shared/schema";
+
+// New conversations are titled after their first question, cut to this length
+const TITLE_LENGTH = 80;
+// Earlier messages handed to the model with each question
+export const HISTORY_MESSAGES = 6;
+
+function titleFromQuestion(question: string): string {
+  const title = question.replace(/\s+/g, " ").trim();
+  return title.length > TITLE_LENGTH ? `${title.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : title;
+}
+
+export async function getConversationWithMessages(conversation: Conversation): Promise<ConversationWithMessages | undefined> {
+  const owner = await storage.getUser(conversation.userId);
+  if (!owner) return undefined;
+
+  const messages = await storage.getConversationMessages(conversation.id);
+  const feedback = new Map((await storage.getAnswerFeedback(messages.map(message => message.id)))
+    .map(({ messageId, rating, comment }) => [messageId, { rating, comment }]));
+
+  return {
+    ...conversation,
+    owner: { id: owner.id, name: owner.name },
+    messages: messages.map(message => ({ ...message, feedback: feedback.get(message.id) ?? null })),
+  };
+}
+
+// Records a question in the given conversation, or in a new one when there is
+// none, and returns the conversation with the turns that came before it.
+export async function beginTurn(
+  userId: string,
+  question: string,
+  conversation?: Conversation,
+): Promise<{ conversation: Conversation; history: ChatTurn[] }> {
+  return storage.transaction(async (tx) => {
+    const current = conversation ?? await tx.createConversation({ userId, title: titleFromQuestion(question) });
+    const history = (await tx.getConversationMessages(current.id))
+      .slice(-HISTORY_MESSAGES)
+      .map(({ role, content }) => ({ role: role as ChatTurn["role"], content }));
+
+    await tx.createConversationMessage({ conversationId: current.id, role: "user", content: question, citations: [] });
+    const updated = await tx.updateConversation(current.id, {});
+    return { conversation: updated ?? current, history };
+  });
+}
+
+// model is the one that wrote the answer, or null when none was asked
+export async function recordAnswer(conversationId: string, answer: string, citations: Citation[], model: string | null): Promise<void> {
+  await storage.transaction(async (tx) => {
+    // The conversation may have been deleted while the answer was generated
+    if (!await tx.getConversation(conversationId)) return;
+    await tx.createConversationMessage({ conversationId, role: "assistant", content: answer, citations, model });
+    await tx.updateConversation(conversationId, {});
+  });
+}
+
+// Saves the asker's rating of an answer in the conversation, together with
+// a copy of what was asked and answered. Returns undefined when the message
+// is not an answer in the conversation.
+export async function rateAnswer(
+  conversation: Conversation,
+  messageId: string,
+  userId: string,
+  rating: AnswerRating,
+  comment?: string | null,
+): Promise<AnswerFeedback | undefined> {
+  const messages = await storage.getConversationMessages(conversation.id);
+  const index = messages.findIndex(message => message.id === messageId);
+  const answer: ConversationMessage | undefined = messages[index];
+  if (!answer || answer.role !== "assistant") return undefined;
+
+  const question = messages.slice(0, index).reverse().find(message => message.role === "user");
+  return storage.saveAnswerFeedback({
+    messageId,
+    userId,
+    rating,
+    comment: comment || null,
+    question: question?.content ?? "",
+    answer: answer.content,
+    citedDocumentIds: Array.from(new Set(answer.citations.map(citation => citation.documentId))),
+    model: answer.model,
+  });
+}
@@ -0,0 +1,258 @@
+import { storage, type IStorage } from "../storage";
+import { generateChangeDescription } from "./change-description";
+import { enqueueJob, wakeJobWorker } from "./jobs";
+import { documentInjectionWarnings } from "./prompt-safety";
+import { type Document, type InsertDocument, type DocumentWithDetails, type DocumentWrite } from "@shared/schema";
+
+export class VersionConflictError extends Error {
+  constructor(public current: DocumentWithDetails) {
+    super(`Document has been modified since version was loaded (current version ${current.version})`);
+    this.name = "VersionConflictError";
+  }
+}
+
+// Document writes always go together with their version snapshot and activity
+// entry, so each of these runs inside a single storage transaction. The same
+// transaction queues the AI enrichment job that fills in a missing summary
+// and tags, regenerates AI-written ones, and refreshes the semantic search
+// index.
+
+export type EnrichmentPayload = {
+  userId: string;
+  // Version the job was queued for; a newer save queues its own job
+  version?: number;
+  // Whether the title or content changed, making AI-written fields stale
+  regenerate?: boolean;
+};
+
+async function queueEnrichment(tx: IStorage, document: Document, userId: string, regenerate: boolean) {
+  const payload: EnrichmentPayload = { userId, version: document.version, regenerate };
+  await enqueueJob("enrich_document", document.id, payload, tx);
+}
+
+// Marks the summary and tags a save sets or clears as the author's, so the
+// enrichment job leaves them alone
+function authorSources(current: Pick<Document, "summary" | "tags">, data: Partial<InsertDocument>): Partial<DocumentWrite> {
+  const sources: Partial<DocumentWrite> = {};
+  if (data.summary !== undefined && (data.summary?.trim() || "") !== (current.summary?.trim() || "")) {
+    sources.summarySource = "author";
+  }
+  if (data.tags !== undefined && (data.tags ?? []).join("\n") !== (current.tags ?? []).join("\n")) {
+    sources.tagsSource = "author";
+  }
+  return sources;
+}
+
+const contentChanged = (before: Pick<Document, "title" | "content">, after: Pick<Document, "title" | "content">) =>
+  before.title !== after.title || before.content !== after.content;
+
+export async function createDocument(data: InsertDocument, userId: string): Promise<Document> {
+  const created = await storage.transaction(async (tx) => {
+    const document = await tx.createDocument({
+      ...data,
+      ...authorSources({ summary: null, tags: [] }, data),
+      injectionWarnings: documentInjectionWarnings(data),
+    }, userId);
+
+    await tx.createDocumentVersion({
+      documentId: document.id,
+      title: document.title,
+      content: document.content,
+      summary: document.summary,
+      tags: document.tags,
+      version: document.version,
+      createdBy: userId,
+      changeDescription: "Initial version",
+    });
+
+    await tx.createActivity({
+      type: "created",
+      documentId: document.id,
+      userId,
+      description: `Created document "${document.title}"`,
+    });
+
+    await queueEnrichment(tx, document, userId, false);
+    return document;
+  });
+
+  wakeJobWorker();
+  return created;
+}
+
+interface RevisionOptions {
+  expectedVersion?: number;
+  changeDescription: string;
+  aiGenerated?: boolean;
+  activityType: string;
+  activityDescription: (document: Document) => string;
+}
+
+// Applies an update as a new document version with its history entries.
+// Must be called inside a transaction. Returns the document as it was before
+// too.
+async function reviseDocument(
+  tx: IStorage,
+  id: string,
+  data: Partial<DocumentWrite>,
+  userId: string,
+  options: RevisionOptions,
+): Promise<{ previous: DocumentWithDetails; document: Document } | undefined> {
+  const current = await tx.getDocument(id);
+  if (!current) return undefined;
+
+  const injectionWarnings = documentInjectionWarnings({ ...current, ...data });
+  const document = await tx.updateDocument(
+    id,
+    { ...authorSources(current, data), ...data, injectionWarnings },
+    options.expectedVersion,
+  );
+  if (!document) {
+    throw new VersionConflictError((await tx.getDocument(id)) ?? current);
+  }
+
+  await tx.createDocumentVersion({
+    documentId: id,
+    title: document.title,
+    content: document.content,
+    summary: document.summary,
+    tags: document.tags,
+    version: document.version,
+    createdBy: userId,
+    changeDescription: options.changeDescription,
+    aiGenerated: options.aiGenerated,
+  });
+
+  await tx.createActivity({
+    type: options.activityType,
+    documentId: id,
+    userId,
+    description: options.activityDescription(document),
+  });
+
+  return { previous: current, document };
+}
+
+export interface UpdateOptions {
+  // Version the edit was based on, for optimistic concurrency
+  expectedVersion?: number;
+  // Author's note; generated from the changes when left empty
+  changeDescription?: string;
+}
+
+export async function updateDocument(
+  id: string,
+  data: Partial<InsertDocument>,
+  userId: string,
+  options: UpdateOptions = {},
+): Promise<Document | undefined> {
+  const current = await storage.getDocument(id);
+  if (!current) return undefined;
+  // A stale save fails before its description is generated, so it does not
+  // spend an AI call. The transaction checks the version again.
+  if (options.expectedVersion !== undefined && current.version !== options.expectedVersion) {
+    throw new VersionConflictError(current);
+  }
+
+  // Generated outside the transaction since it may call the AI service
+  const changeDescription = options.changeDescription?.trim() || (await generateChangeDescription(current, { ...current, ...data }, userId));
+
+  const document = await storage.transaction(async (tx) => {
+    const revision = await reviseDocument(tx, id, data, userId, {
+      expectedVersion: options.expectedVersion,
+      changeDescription,
+      activityType: "updated",
+      activityDescription: (document) => `Updated document "${document.title}"`,
+    });
+    if (!revision) return undefined;
+    await queueEnrichment(tx, revision.document, userId, contentChanged(revision.previous, revision.document));
+    return revision.document;
+  });
+
+  if (document) wakeJobWorker();
+  return document;
+}
+
+// Makes the content of an earlier version current again, as a new version.
+// Returns undefined if the version does not belong to the document.
+export async function restoreDocumentVersion(id: string, versionId: string, userId: string): Promise<Document | undefined> {
+  const document = await storage.transaction(async (tx) => {
+    const source = await tx.getDocumentVersion(versionId);
+    if (!source || source.documentId !== id) return undefined;
+
+    const revision = await reviseDocument(
+      tx,
+      id,
+      {
+        title: source.title,
+        content: source.content,
+        summary: source.summary,
+        tags: source.tags,
+      },
+      userId,
+      {
+        changeDescription: `Restored from version ${source.version}`,
+        activityType: "restored",
+        activityDescription: (document) => `Restored document "${document.title}" to version ${source.version}`,
+      },
+    );
+    if (!revision) return undefined;
+    await queueEnrichment(tx, revision.document, userId, contentChanged(revision.previous, revision.document));
+    return revision.document;
+  });
+
+  if (document) wakeJobWorker();
+  return document;
+}
+
+export interface Enrichment {
+  summary?: string;
+  tags?: string[];
+}
+
+// Saves a generated summary and tags the user accepted as a new version
+// marked as AI generated, and queues enrichment to re-index it. Fails with a
+// VersionConflictError if the document was edited since the version they
+// were generated from.
+export async function applyEnrichment(
+  id: string,
+  enrichment: Enrichment,
+  userId: string,
+  expectedVersion: number,
+): Promise<Document | undefined> {
+  const added = [enrichment.summary !== undefined && "summary", enrichment.tags !== undefined && "tags"]
+    .filter(Boolean)
+    .join(" and ");
+
+  const sources: Partial<DocumentWrite> = {
+    ...(enrichment.summary !== undefined && { summarySource: "ai" }),
+    ...(enrichment.tags !== undefined && { tagsSource: "ai" }),
+  };
+
+  const document = await storage.transaction(async (tx) => {
+    const revision = await reviseDocument(tx, id, { ...enrichment, ...sources }, userId, {
+      expectedVersion,
+      changeDescription: `Applied AI-generated ${added}`,
+      aiGenerated: true,
+      activityType: "enriched",
+      activityDescription: (document) => `Applied AI-generated ${added} to "${document.title}"`,
+    });
+    if (!revision) return undefined;
+    await queueEnrichment(tx, revision.document, userId, false);
+    return revision.document;
+  });
+
+  if (document) wakeJobWorker();
+  return document;
+}
+
+// Stores what the enrichment job generated for a version, without making a
+// new one. Returns undefined if the document has moved on since.
+export async function saveEnrichment(document: Pick<Document, "id" | "version">, enrichment: Enrichment): Promise<Document | undefined> {
+  return storage.saveDocumentEnrichment(document.id, document.version, {
+    ...enrichment,
+    ...(enrichment.summary !== undefined && { summarySource: "ai" }),
+    ...(enrichment.tags !== undefined && { tagsSource: "ai" }),
+    enrichedVersion: document.version,
+  });
+}
@@ -0,0 +1,66 @@
+import { storage } from "../storage";
+import { summarizeDocument, generateTags } from "./ai";
+import { saveEnrichment, type Enrichment, type EnrichmentPayload } from "./documents";
+import { indexDocument } from "./semantic-search";
+import { enqueueJob, registerJobHandler, wakeJobWorker, DeferJobError } from "./jobs";
+import { runAsUser, checkAIQuota } from "./ai-usage";
+import { type Document, type Job } from "@shared/schema";
+
+// A field is generated when nobody has written it yet, or when the AI wrote
+// it and the content has changed since. Fields the author set or cleared
+// are left alone.
+function needsGenerating(empty: boolean, source: string | null, regenerate: boolean): boolean {
+  return (source === null && empty) || (source === "ai" && regenerate);
+}
+
+// Fills in the summary and tags, then refreshes the semantic search index.
+// Errors are left to the job queue to retry.
+async function enrichDocument(job: Job) {
+  const { userId, version, regenerate = false } = job.payload as EnrichmentPayload;
+  const current = await storage.getDocument(job.documentId!);
+  // Deleted or trashed since the job was queued
+  if (!current) return;
+  // The newer save queued its own job
+  if (version !== undefined && current.version !== version) return;
+
+  // A retry after a failed embedding call must not generate the summary
+  // again, and one after a successful index has nothing left to do
+  const generate = current.enrichedVersion !== current.version && !!current.content.trim();
+  const generateSummary = generate && needsGenerating(!current.summary?.trim(), current.summarySource, regenerate);
+  const generateTagList = generate && needsGenerating(!current.tags?.length, current.tagsSource, regenerate);
+  const [chunk] = await storage.getDocumentChunks(current.id);
+  const index = chunk?.version !== current.version && (!!chunk || !!current.content.trim());
+  if (!generateSummary && !generateTagList && !index) return;
+
+  // Waits for the quota of the user whose save queued the job to reset
+  const exceeded = await checkAIQuota(userId);
+  if (exceeded) throw new DeferJobError(exceeded.message, exceeded.resetsAt);
+
+  let document: Pick<Document, "id" | "title" | "content" | "version"> = current;
+  if (generateSummary || generateTagList) {
+    const enrichment: Enrichment = {};
+    if (generateSummary) enrichment.summary = await summarizeDocument(current.title, current.content);
+    if (generateTagList) enrichment.tags = await generateTags(current.title, current.content);
+
+    const enriched = await saveEnrichment(current, enrichment);
+    // Edited or trashed while generating; the newer save queued its own job
+    if (!enriched) return;
+    document = enriched;
+  }
+
+  if (index) await indexDocument(document);
+}
+
+export function registerEnrichmentJobs() {
+  // AI usage is recorded against the user whose save queued the job
+  registerJobHandler("enrich_document", (job) => runAsUser((job.payload as EnrichmentPayload).userId, () => enrichDocument(job)));
+}
+
+// Queues enrichment again for a document whose last job failed. Its AI-written
+// fields are regenerated, since the failed job may have been meant to.
+export async function retryEnrichment(documentId: string, userId: string): Promise<Job> {
+  const payload: EnrichmentPayload = { userId, regenerate: true };
+  const job = await enqueueJob("enrich_document", documentId, payload);
+  wakeJobWorker();
+  return job;
+}
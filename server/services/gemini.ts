@@ -1,43 +1,105 @@
 import { GoogleGenAI } from "@google/genai";
+import { diffLines } from "@shared/diff";
+import { estimateTokens } from "../text";
+import { UNTRUSTED_CONTENT_RULE, untrustedBlock } from "./prompt-safety";
+import { EMBEDDING_DIMENSIONS, type AIOperation, type AIProvider, type CachedOperation, type ChangeSnapshot, type ChatTurn, type ContextPassage, type DraftAnswer, type OperationVersion, type UsageListener } from "./ai-provider";
+
+interface UsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+}
 
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
+function answerPrompt(question: string, passages: ContextPassage[], history: ChatTurn[], citationInstructions: string[]): string {
+  const conversation = history.length === 0 ? "" : `
+Conversation so far:
+${history.map(turn => `${turn.role === "user" ? "User" : "Assistant"}: ${turn.content}`).join("\n")}
+`;
+
+  const context = passages
+    .map((passage, index) => untrustedBlock({ passage: String(index + 1), title: passage.title }, passage.content))
+    .join("\n\n");
+
+  const instructions = [
+    "Answer the question based on the provided passages",
+    ...(history.length > 0 ? ["The question may follow up on the conversation so far; resolve what it refers to from there"] : []),
+    "If the information is available, provide a comprehensive answer",
+    "If information is partially available, provide what you can and indicate what's missing",
+    "If no relevant information is found, clearly state that the information is not available in the knowledge base",
+    ...citationInstructions,
+    "Keep your response conversational and helpful",
+    UNTRUSTED_CONTENT_RULE,
+  ];
+
+  return `You are an AI assistant helping users find information from their team's knowledge base.
+Use the provided passages, retrieved from the knowledge base for this question, to answer the user's question accurately and helpfully.
+${conversation}
+Question: ${question}
 
-export async function summarizeDocument(title: string, content: string): Promise<string> {
-  try {
-    const prompt = `Please create a concise, informative summary of the following document:
+Retrieved Passages:
+${context}
 
-Title: ${title}
+Instructions:
+${instructions.map((instruction, index) => `${index + 1}. ${instruction}`).join("\n")}`;
+}
 
-Content: ${content}
+export class GeminiProvider implements AIProvider {
+  readonly name = "gemini";
+  readonly answerModel = "gemini-2.5-pro";
+  readonly operations: Record<CachedOperation, OperationVersion> = {
+    summarize: { model: "gemini-2.5-flash", promptVersion: 2 },
+    generateTags: { model: "gemini-2.5-flash", promptVersion: 2 },
+    embed: { model: "text-embedding-004", promptVersion: 1 },
+    describeChanges: { model: "gemini-2.5-flash", promptVersion: 2 },
+  };
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, private onUsage: UsageListener = () => {}) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
 
-Provide a summary that captures the key points and main ideas in 2-3 sentences.`;
+  // Thinking tokens are billed as output. Token counts are estimated from the
+  // text when the response carries no usage metadata.
+  private reportUsage(operation: AIOperation, model: string, metadata: UsageMetadata | undefined, input: string, output: string) {
+    this.onUsage({
+      operation,
+      model,
+      inputTokens: metadata?.promptTokenCount ?? estimateTokens(input),
+      outputTokens: metadata
+        ? (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0)
+        : estimateTokens(output),
+    });
+  }
+
+  async summarize(title: string, content: string): Promise<string> {
+    const prompt = `Please create a concise, informative summary of the following document:
 
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
+${untrustedBlock({ title }, content)}
+
+Provide a summary that captures the key points and main ideas in 2-3 sentences.
+${UNTRUSTED_CONTENT_RULE}`;
+
+    const response = await this.ai.models.generateContent({
+      model: this.operations.summarize.model,
       contents: prompt,
     });
+    this.reportUsage("summarize", this.operations.summarize.model, response.usageMetadata, prompt, response.text || "");
 
     return response.text || "Unable to generate summary";
-  } catch (error) {
-    console.error("Error generating summary:", error);
-    throw new Error("Failed to generate document summary");
   }
-}
 
-export async function generateTags(title: string, content: string): Promise<string[]> {
-  try {
-    const systemPrompt = `You are a document tagging expert. Generate relevant tags for the given document content. 
+  async generateTags(title: string, content: string): Promise<string[]> {
+    const systemPrompt = `You are a document tagging expert. Generate relevant tags for the given document content.
 Return only a JSON array of 3-7 relevant tags as strings. Tags should be concise, relevant, and help with categorization.
-Example format: ["react", "frontend", "javascript", "tutorial"]`;
+Example format: ["react", "frontend", "javascript", "tutorial"]
+${UNTRUSTED_CONTENT_RULE}`;
 
-    const prompt = `Title: ${title}
-
-Content: ${content}
+    const prompt = `${untrustedBlock({ title }, content)}
 
 Generate relevant tags for this document:`;
 
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
+    const response = await this.ai.models.generateContent({
+      model: this.operations.generateTags.model,
       config: {
         systemInstruction: systemPrompt,
         responseMimeType: "application/json",
@@ -50,121 +112,122 @@ Generate relevant tags for this document:`;
       },
       contents: prompt,
     });
+    this.reportUsage("generateTags", this.operations.generateTags.model, response.usageMetadata, systemPrompt + prompt, response.text || "");
 
     const rawJson = response.text;
-    if (rawJson) {
-      const tags: string[] = JSON.parse(rawJson);
-      return tags;
-    } else {
-      return [];
-    }
-  } catch (error) {
-    console.error("Error generating tags:", error);
-    throw new Error("Failed to generate tags");
+    return rawJson ? JSON.parse(rawJson) : [];
   }
-}
-
-export async function performSemanticSearch(query: string, documents: any[]): Promise<any[]> {
-  try {
-    // For semantic search, we'll use Gemini to score relevance
-    const searchPrompt = `Given the search query: "${query}"
-
-Analyze these documents and return a relevance score (0-100) for each document based on semantic similarity to the query. Consider not just keyword matches but conceptual relevance.
 
-Documents:
-${documents.map((doc, index) => `Document ${index + 1}:
-Title: ${doc.title}
-Content: ${doc.content.substring(0, 500)}...
-Summary: ${doc.summary || "No summary"}
-Tags: ${doc.tags?.join(", ") || "No tags"}
----`).join("\n")}
+  async answerQuestion(question: string, passages: ContextPassage[], history: ChatTurn[]): Promise<DraftAnswer> {
+    const prompt = answerPrompt(question, passages, history, [
+      "Mark each statement taken from a passage with that passage's number in brackets, e.g. [2]",
+      "For every passage you mark, add a citation with the passage number and a short quote copied word for word from it that supports the statement",
+    ]);
 
-Return a JSON array with the document index and relevance score:
-Format: [{"index": 0, "relevance": 85}, {"index": 1, "relevance": 42}, ...]`;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-pro",
+    const response = await this.ai.models.generateContent({
+      model: this.answerModel,
       config: {
         responseMimeType: "application/json",
         responseSchema: {
-          type: "array",
-          items: {
-            type: "object",
-            properties: {
-              index: { type: "number" },
-              relevance: { type: "number" }
-            },
-            required: ["index", "relevance"]
-          }
+          type: "object",
+          properties: {
+            answer: { type: "string" },
+            citations: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  passage: { type: "number" },
+                  quote: { type: "string" }
+                },
+                required: ["passage", "quote"]
+              }
+            }
+          },
+          required: ["answer", "citations"]
         },
       },
-      contents: searchPrompt,
+      contents: prompt,
     });
+    this.reportUsage("answerQuestion", this.answerModel, response.usageMetadata, prompt, response.text || "");
 
     const rawJson = response.text;
-    if (rawJson) {
-      const results: { index: number; relevance: number }[] = JSON.parse(rawJson);
-      
-      // Sort by relevance and filter results with relevance > 30
-      const relevantResults = results
-        .filter(result => result.relevance > 30)
-        .sort((a, b) => b.relevance - a.relevance);
-      
-      return relevantResults.map(result => ({
-        ...documents[result.index],
-        relevance: result.relevance
-      }));
-    } else {
-      return [];
+    if (!rawJson) {
+      return { answer: "I'm unable to provide an answer based on the available documents.", citations: [] };
     }
-  } catch (error) {
-    console.error("Error performing semantic search:", error);
-    // Fallback to simple text search
-    const lowerQuery = query.toLowerCase();
-    return documents.filter(doc => 
-      doc.title.toLowerCase().includes(lowerQuery) ||
-      doc.content.toLowerCase().includes(lowerQuery) ||
-      (doc.summary && doc.summary.toLowerCase().includes(lowerQuery))
-    );
+    return JSON.parse(rawJson);
   }
-}
 
-export async function answerQuestion(question: string, documents: any[]): Promise<string> {
-  try {
-    const context = documents.map(doc => `
-Document: ${doc.title}
-Content: ${doc.content}
-Summary: ${doc.summary || "No summary"}
-Author: ${doc.createdBy?.name || "Unknown"}
-Tags: ${doc.tags?.join(", ") || "No tags"}
----`).join("\n");
+  async *streamAnswer(question: string, passages: ContextPassage[], history: ChatTurn[], signal?: AbortSignal): AsyncIterable<string> {
+    const prompt = answerPrompt(question, passages, history, [
+      "Mark each statement taken from a passage with that passage's number in brackets, e.g. [2]",
+    ]);
 
-    const prompt = `You are an AI assistant helping users find information from their team's knowledge base. 
-Use the provided documents to answer the user's question accurately and helpfully.
+    const stream = await this.ai.models.generateContentStream({
+      model: this.answerModel,
+      config: { abortSignal: signal },
+      contents: prompt,
+    });
 
-Question: ${question}
+    // The last chunk carries the usage of the whole answer
+    let usage: UsageMetadata | undefined;
+    let output = "";
+    try {
+      for await (const chunk of stream) {
+        usage = chunk.usageMetadata ?? usage;
+        if (signal?.aborted) return;
+        if (chunk.text) {
+          output += chunk.text;
+          yield chunk.text;
+        }
+      }
+    } finally {
+      this.reportUsage("answerQuestion", this.answerModel, usage, prompt, output);
+    }
+  }
 
-Available Documents:
-${context}
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
 
-Instructions:
-1. Answer the question based on the provided documents
-2. If the information is available, provide a comprehensive answer
-3. If information is partially available, provide what you can and indicate what's missing
-4. If no relevant information is found, clearly state that the information is not available in the knowledge base
-5. Always cite which document(s) you're referencing in your answer
-6. Keep your response conversational and helpful
+    const response = await this.ai.models.embedContent({
+      model: this.operations.embed.model,
+      contents: texts,
+      config: { outputDimensionality: EMBEDDING_DIMENSIONS },
+    });
+
+    // The embedding API reports no token counts
+    this.reportUsage("embed", this.operations.embed.model, undefined, texts.join("\n"), "");
+
+    const embeddings = response.embeddings || [];
+    if (embeddings.length !== texts.length) {
+      throw new Error(`Expected ${texts.length} embeddings, got ${embeddings.length}`);
+    }
+    return embeddings.map(embedding => embedding.values || []);
+  }
+
+  async describeChanges(before: ChangeSnapshot, after: ChangeSnapshot, outline: string): Promise<string> {
+    const changedLines = diffLines(before.content, after.content)
+      .filter(op => op.type !== "equal")
+      .flatMap(op => op.items.map(line => `${op.type === "insert" ? "+" : "-"} ${line}`))
+      .join("\n")
+      .substring(0, 4000);
+
+    const prompt = `Write a one-sentence change description (like a commit message, at most 15 words) for this edit to a knowledge base document.
+
+Overview of the changes: ${outline}
+
+${untrustedBlock({ "title-before": before.title, "title-after": after.title }, `Changed lines (- removed, + added):\n${changedLines}`)}
+
+${UNTRUSTED_CONTENT_RULE}
 
-Answer:`;
+Change description:`;
 
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-pro",
+    const response = await this.ai.models.generateContent({
+      model: this.operations.describeChanges.model,
       contents: prompt,
     });
+    this.reportUsage("describeChanges", this.operations.describeChanges.model, response.usageMetadata, prompt, response.text || "");
 
-    return response.text || "I'm unable to provide an answer based on the available documents.";
-  } catch (error) {
-    console.error("Error answering question:", error);
-    throw new Error("Failed to generate answer");
+    return response.text?.trim() || outline;
   }
 }
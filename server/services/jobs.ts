@@ -0,0 +1,122 @@
+import { storage, type IStorage } from "../storage";
+import { log } from "../vite";
+import { type Job, type JobType } from "@shared/schema";
+
+// How often the worker looks for due jobs when it has not been woken up
+const POLL_INTERVAL_MS = 5 * 1000;
+// Retry delays double from this, up to the maximum
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+// Succeeded jobs are kept this long so their status can still be shown
+const SUCCEEDED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+export type JobHandler = (job: Job) => Promise<void>;
+
+// Thrown by a handler to run the job again at runAt, without counting the
+// attempt towards maxAttempts
+export class DeferJobError extends Error {
+  constructor(message: string, public runAt: Date) {
+    super(message);
+    this.name = "DeferJobError";
+  }
+}
+
+const handlers = new Map<JobType, JobHandler>();
+let started = false;
+let draining = false;
+
+export function registerJobHandler(type: JobType, handler: JobHandler) {
+  handlers.set(type, handler);
+}
+
+export function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+// Queues a job for the document unless one of the same type is already
+// waiting for it, in which case that job is returned. Pass a transaction to
+// queue the job together with the write that needs it.
+export async function enqueueJob(
+  type: JobType,
+  documentId: string,
+  payload: Record<string, unknown> = {},
+  tx: IStorage = storage,
+): Promise<Job> {
+  const waiting = (await tx.getDocumentJobs(documentId))
+    .find(job => job.type === type && job.status === "pending");
+  if (waiting) return waiting;
+
+  return tx.createJob({ type, documentId, payload, status: "pending" });
+}
+
+async function runJob(job: Job) {
+  const handler = handlers.get(job.type as JobType);
+  try {
+    if (!handler) throw new Error(`No handler for job type "${job.type}"`);
+    await handler(job);
+    await storage.updateJob(job.id, { status: "succeeded", lastError: null, finishedAt: new Date() });
+  } catch (error) {
+    if (error instanceof DeferJobError) {
+      await storage.updateJob(job.id, {
+        status: "pending",
+        attempts: job.attempts - 1,
+        lastError: error.message,
+        runAt: error.runAt,
+      });
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    if (job.attempts >= job.maxAttempts) {
+      console.error(`Job ${job.id} (${job.type}) failed after ${job.attempts} attempts:`, error);
+      await storage.updateJob(job.id, { status: "failed", lastError: message, finishedAt: new Date() });
+    } else {
+      await storage.updateJob(job.id, {
+        status: "pending",
+        lastError: message,
+        runAt: new Date(Date.now() + retryDelay(job.attempts)),
+      });
+    }
+  }
+}
+
+// Runs due jobs one at a time until none are left
+async function drain() {
+  if (draining) return;
+  draining = true;
+  try {
+    let job: Job | undefined;
+    while ((job = await storage.claimNextJob(new Date()))) {
+      await runJob(job);
+    }
+  } catch (error) {
+    console.error("Error running jobs:", error);
+  } finally {
+    draining = false;
+  }
+}
+
+// Lets the worker pick up a newly queued job without waiting for the next poll
+export function wakeJobWorker() {
+  if (started) setImmediate(drain);
+}
+
+export function startJobWorker() {
+  started = true;
+
+  storage.requeueRunningJobs()
+    .then(requeued => {
+      if (requeued > 0) {
+        log(`requeued ${requeued} interrupted job${requeued !== 1 ? "s" : ""}`, "jobs");
+      }
+      return drain();
+    })
+    .catch(error => console.error("Error starting job worker:", error));
+
+  setInterval(drain, POLL_INTERVAL_MS).unref();
+  setInterval(() => {
+    storage.deleteSucceededJobs(new Date(Date.now() - SUCCEEDED_JOB_RETENTION_MS))
+      .catch(error => console.error("Error deleting old jobs:", error));
+  }, CLEANUP_INTERVAL_MS).unref();
+}
@@ -0,0 +1,168 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { EMBEDDING_DIMENSIONS, type AIUsageEvent, type ContextPassage } from "./ai-provider";
+import { LocalAIProvider } from "./local-ai";
+
+const laptopPolicy =
+  "New employees receive a laptop on their first day. The laptop comes with the standard software installed. " +
+  "Lunch is served in the cafeteria at noon. Laptops must be returned when you leave the company. " +
+  "Parking permits are issued by reception.";
+
+const passages: ContextPassage[] = [
+  { title: "Laptop policy", content: laptopPolicy },
+  { title: "Holidays", content: "Staff get 25 days of paid holiday per year. Holiday requests go to your manager." },
+];
+
+const norm = (vector: number[]) => Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+const similarity = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+describe("LocalAIProvider", () => {
+  let usage: AIUsageEvent[];
+  let provider: LocalAIProvider;
+
+  // Any attempt to reach the network fails the test
+  beforeAll(() => {
+    vi.stubGlobal("fetch", () => Promise.reject(new Error("network access in a local AI test")));
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  beforeEach(() => {
+    usage = [];
+    provider = new LocalAIProvider(event => usage.push(event));
+  });
+
+  describe("summarize", () => {
+    it("keeps the sentences that best match the title, in document order", async () => {
+      const summary = await provider.summarize("Laptop policy", laptopPolicy);
+
+      expect(summary).toBe(
+        "New employees receive a laptop on their first day. The laptop comes with the standard software installed. " +
+        "Laptops must be returned when you leave the company.",
+      );
+      expect(await provider.summarize("Laptop policy", laptopPolicy)).toBe(summary);
+    });
+
+    it("returns short documents whole", async () => {
+      expect(await provider.summarize("Lunch", "Lunch is served at noon. Bring your badge.")).toBe("Lunch is served at noon. Bring your badge.");
+      expect(await provider.summarize("Empty", "")).toBe("");
+    });
+
+    it("reports estimated token usage", async () => {
+      await provider.summarize("Laptop policy", laptopPolicy);
+
+      expect(usage).toHaveLength(1);
+      expect(usage[0]).toMatchObject({ operation: "summarize", model: "local-extractive" });
+      expect(usage[0].inputTokens).toBeGreaterThan(usage[0].outputTokens);
+      expect(usage[0].outputTokens).toBeGreaterThan(0);
+    });
+  });
+
+  describe("generateTags", () => {
+    it("returns up to five distinctive words, favouring the title", async () => {
+      const tags = await provider.generateTags("Laptop policy", laptopPolicy);
+
+      expect(tags).toHaveLength(5);
+      expect(tags.slice(0, 2)).toEqual(["laptop", "policy"]);
+      expect(await provider.generateTags("Laptop policy", laptopPolicy)).toEqual(tags);
+      expect(usage.map(event => event.operation)).toEqual(["generateTags", "generateTags"]);
+    });
+
+    it("skips plural duplicates, numbers and short words", async () => {
+      const tags = await provider.generateTags("Laptops", "A laptop for 2024. Laptops and laptop bags.");
+
+      expect(tags).toContain("laptops");
+      expect(tags).not.toContain("laptop");
+      expect(tags).not.toContain("2024");
+      expect(tags.every(tag => tag.length > 2)).toBe(true);
+    });
+  });
+
+  describe("embed", () => {
+    it("returns one unit vector of the stored length per text", async () => {
+      const vectors = await provider.embed(["laptop for new employees", "paid holiday"]);
+
+      expect(vectors).toHaveLength(2);
+      for (const vector of vectors) {
+        expect(vector).toHaveLength(EMBEDDING_DIMENSIONS);
+        expect(norm(vector)).toBeCloseTo(1);
+      }
+      expect(usage).toEqual([expect.objectContaining({ operation: "embed", model: "local-hashed-bow", outputTokens: 0 })]);
+    });
+
+    it("is deterministic and places related texts closer than unrelated ones", async () => {
+      const [query, related, unrelated] = await provider.embed([
+        "when do new employees get a laptop",
+        laptopPolicy,
+        passages[1].content,
+      ]);
+
+      expect((await provider.embed(["when do new employees get a laptop"]))[0]).toEqual(query);
+      expect(similarity(query, related)).toBeGreaterThan(similarity(query, unrelated));
+    });
+
+    it("returns a zero vector for text without words", async () => {
+      const [vector] = await provider.embed([""]);
+      expect(vector.every(value => value === 0)).toBe(true);
+    });
+  });
+
+  describe("answerQuestion", () => {
+    it("quotes matching sentences from the passages and cites them", async () => {
+      const { answer, citations } = await provider.answerQuestion("How many days of paid holiday do I get?", passages, []);
+
+      expect(answer).toBe('According to "Holidays": Staff get 25 days of paid holiday per year. Holiday requests go to your manager. [2]');
+      expect(citations).toEqual([
+        { passage: 2, quote: "Staff get 25 days of paid holiday per year." },
+        { passage: 2, quote: "Holiday requests go to your manager." },
+      ]);
+      expect(usage).toEqual([expect.objectContaining({ operation: "answerQuestion", model: "local-extractive" })]);
+    });
+
+    it("only quotes text found in the cited passage", async () => {
+      const { citations } = await provider.answerQuestion("When do new employees receive a laptop?", passages, []);
+
+      expect(citations[0]).toEqual({ passage: 1, quote: "New employees receive a laptop on their first day." });
+      for (const citation of citations) {
+        expect(passages[citation.passage - 1].content).toContain(citation.quote);
+      }
+    });
+
+    it("says so when nothing in the passages matches", async () => {
+      expect(await provider.answerQuestion("What is the wifi password?", passages, [])).toEqual({
+        answer: "I couldn't find information about that in the knowledge base.",
+        citations: [],
+      });
+      expect(await provider.answerQuestion("Anything?", [], [])).toMatchObject({ citations: [] });
+    });
+
+    it("uses the previous question to rank passages for a follow-up", async () => {
+      const history = [
+        { role: "user" as const, content: "Tell me about the laptop policy" },
+        { role: "assistant" as const, content: "New employees receive a laptop on their first day. [1]" },
+      ];
+      const withLeaving = [
+        ...passages,
+        { title: "Leaving", content: "When you leave, your manager must be told in writing. Badges must be returned at reception." },
+      ];
+
+      const followUp = await provider.answerQuestion("Must it be returned when I leave?", withLeaving, history);
+      expect(followUp.citations).toEqual([{ passage: 1, quote: "Laptops must be returned when you leave the company." }]);
+
+      const standalone = await provider.answerQuestion("Must it be returned when I leave?", withLeaving, []);
+      expect(standalone.citations[0].passage).toBe(3);
+    });
+
+    it("streams the same answer word by word", async () => {
+      const { answer } = await provider.answerQuestion("How many days of paid holiday do I get?", passages, []);
+      const pieces: string[] = [];
+      for await (const piece of provider.streamAnswer("How many days of paid holiday do I get?", passages, [])) {
+        pieces.push(piece);
+      }
+
+      expect(pieces.length).toBeGreaterThan(1);
+      expect(pieces.join("")).toBe(answer);
+    });
+  });
+});
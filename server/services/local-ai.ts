@@ -0,0 +1,208 @@
+import { bm25, countTerms, coverage, estimateTokens, splitSentences, stem, terms, tokenize } from "../text";
+import { EMBEDDING_DIMENSIONS, type AIOperation, type AIProvider, type CachedOperation, type ChangeSnapshot, type ChatTurn, type ContextPassage, type DraftAnswer, type OperationVersion, type UsageListener } from "./ai-provider";
+
+// Deterministic provider that works offline: extractive summaries, TF-IDF
+// tags, BM25 ranking and hashed bag-of-words embeddings.
+
+const SUMMARY_SENTENCES = 3;
+const TAG_COUNT = 5;
+const ANSWER_PASSAGES = 3;
+const ANSWER_SENTENCES = 2;
+
+// FNV-1a
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function searchableText(passage: ContextPassage): string {
+  // Repeating the title weights it above the body
+  const title = `${passage.title} `.repeat(3);
+  return `${title} ${passage.content}`;
+}
+
+export class LocalAIProvider implements AIProvider {
+  readonly name = "local";
+  readonly answerModel = "local-extractive";
+  readonly operations: Record<CachedOperation, OperationVersion> = {
+    summarize: { model: "local-extractive", promptVersion: 1 },
+    generateTags: { model: "local-tfidf", promptVersion: 1 },
+    embed: { model: "local-hashed-bow", promptVersion: 1 },
+    describeChanges: { model: "local-outline", promptVersion: 1 },
+  };
+
+  constructor(private onUsage: UsageListener = () => {}) {}
+
+  // Nothing is billed, but token estimates keep usage and quotas comparable
+  // with a hosted model
+  private reportUsage(operation: AIOperation, model: string, input: string, output: string) {
+    this.onUsage({ operation, model, inputTokens: estimateTokens(input), outputTokens: estimateTokens(output) });
+  }
+
+  async summarize(title: string, content: string): Promise<string> {
+    const summary = this.extractSummary(title, content);
+    this.reportUsage("summarize", this.operations.summarize.model, `${title}\n${content}`, summary);
+    return summary;
+  }
+
+  private extractSummary(title: string, content: string): string {
+    const sentences = splitSentences(content);
+    if (sentences.length <= SUMMARY_SENTENCES) return sentences.join(" ");
+
+    const frequencies = countTerms(terms(content));
+    const titleTerms = new Set(terms(title));
+
+    const scored = sentences.map((sentence, index) => {
+      const words = terms(sentence);
+      let score = 0;
+      for (const word of words) {
+        score += frequencies.get(word)! + (titleTerms.has(word) ? 2 : 0);
+      }
+      // Normalise for length and slightly favour the opening sentence
+      score = words.length ? score / Math.sqrt(words.length) : 0;
+      if (index === 0) score *= 1.25;
+      return { sentence, index, score };
+    });
+
+    return scored
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, SUMMARY_SENTENCES)
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.sentence)
+      .join(" ");
+  }
+
+  async generateTags(title: string, content: string): Promise<string[]> {
+    // Sentences act as the corpus for the inverse document frequency, so a
+    // word scores well when it is frequent but concentrated in a few places
+    const sentences = [title, ...splitSentences(content)].map(sentence => new Set(tokenize(sentence)));
+    const frequencies = countTerms([...tokenize(title), ...tokenize(title), ...tokenize(content)]);
+
+    const scored = Array.from(frequencies.entries())
+      .filter(([word]) => word.length > 2 && !/^\d+$/.test(word))
+      .map(([word, count]) => {
+        const df = sentences.filter(sentence => sentence.has(word)).length;
+        return { word, score: count * Math.log(1 + sentences.length / df) };
+      });
+
+    const tags: string[] = [];
+    for (const { word } of scored.sort((a, b) => b.score - a.score || a.word.localeCompare(b.word))) {
+      // Skip plural/singular duplicates of a tag already taken
+      if (tags.some(tag => stem(tag) === stem(word))) continue;
+      tags.push(word);
+      if (tags.length === TAG_COUNT) break;
+    }
+    this.reportUsage("generateTags", this.operations.generateTags.model, `${title}\n${content}`, tags.join(", "));
+    return tags;
+  }
+
+  private rank(query: string, passages: ContextPassage[]): { index: number; relevance: number }[] {
+    const queryTerms = Array.from(new Set(terms(query)));
+    const documentTerms = passages.map(passage => terms(searchableText(passage)));
+    const scores = bm25(queryTerms, documentTerms);
+
+    const best = Math.max(0, ...scores);
+    if (best <= 0) return [];
+
+    // Scale against the best match and by how many query terms were found
+    return scores
+      .map((score, index) => ({ score, index, coverage: coverage(queryTerms, documentTerms[index]) }))
+      .filter(result => result.score > 0)
+      .map(result => ({
+        index: result.index,
+        relevance: Math.round(100 * (result.score / best) * result.coverage),
+      }));
+  }
+
+  async answerQuestion(question: string, passages: ContextPassage[], history: ChatTurn[]): Promise<DraftAnswer> {
+    const draft = this.draftAnswer(question, passages, history);
+    const input = [...history.map(turn => turn.content), question, ...passages.map(passage => passage.content)].join("\n");
+    this.reportUsage("answerQuestion", this.answerModel, input, draft.answer);
+    return draft;
+  }
+
+  private draftAnswer(question: string, passages: ContextPassage[], history: ChatTurn[]): DraftAnswer {
+    // Follow-ups rarely repeat their subject, so passages are ranked with the
+    // previous question's words too. Quoted sentences must still match the
+    // question itself, so a change of subject is not answered from the old one.
+    const previous = history.filter(turn => turn.role === "user").slice(-1);
+    const context = [...previous.map(turn => turn.content), question].join("\n");
+    const questionTerms = new Set(terms(question));
+    const contextTerms = new Set(terms(context));
+    const ranked = this.rank(context, passages)
+      .filter(result => result.relevance > 30)
+      .sort((a, b) => b.relevance - a.relevance || a.index - b.index)
+      .slice(0, ANSWER_PASSAGES);
+
+    // Quoted text per document title, in the order titles are first used
+    const quotes = new Map<string, string[]>();
+    const citations: DraftAnswer["citations"] = [];
+    for (const { index } of ranked) {
+      const passage = passages[index];
+      const sentences = splitSentences(passage.content)
+        .map((sentence, position) => {
+          const sentenceTerms = terms(sentence);
+          return {
+            sentence,
+            position,
+            overlap: sentenceTerms.filter(term => questionTerms.has(term)).length,
+            contextOverlap: sentenceTerms.filter(term => contextTerms.has(term)).length,
+          };
+        })
+        .filter(item => item.overlap > 0)
+        .sort((a, b) => b.overlap - a.overlap || b.contextOverlap - a.contextOverlap || a.position - b.position)
+        .slice(0, ANSWER_SENTENCES)
+        .sort((a, b) => a.position - b.position);
+
+      if (sentences.length > 0) {
+        const quoted = sentences.map(item => item.sentence);
+        quotes.set(passage.title, [...(quotes.get(passage.title) || []), `${quoted.join(" ")} [${index + 1}]`]);
+        citations.push(...quoted.map(quote => ({ passage: index + 1, quote })));
+      }
+    }
+
+    if (quotes.size === 0) {
+      return { answer: "I couldn't find information about that in the knowledge base.", citations: [] };
+    }
+    const answer = Array.from(quotes.entries())
+      .map(([title, sentences]) => `According to "${title}": ${sentences.join(" ")}`)
+      .join("\n\n");
+    return { answer, citations };
+  }
+
+  async *streamAnswer(question: string, passages: ContextPassage[], history: ChatTurn[], signal?: AbortSignal): AsyncIterable<string> {
+    const { answer } = await this.answerQuestion(question, passages, history);
+    // Word by word, so clients see the same incremental output as with a model
+    for (const piece of answer.split(/(?<=\s)/)) {
+      if (signal?.aborted) return;
+      yield piece;
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.reportUsage("embed", this.operations.embed.model, texts.join("\n"), "");
+    return texts.map(text => {
+      const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+      const words = terms(text);
+      // Unigrams plus bigrams so word order carries a little weight
+      const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+      for (const [feature, count] of Array.from(countTerms(features).entries())) {
+        const h = hash(feature);
+        vector[h % EMBEDDING_DIMENSIONS] += (h & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+      }
+
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+      return norm ? vector.map(value => value / norm) : vector;
+    });
+  }
+
+  async describeChanges(before: ChangeSnapshot, after: ChangeSnapshot, outline: string): Promise<string> {
+    this.reportUsage("describeChanges", this.operations.describeChanges.model, `${before.content}\n${after.content}`, outline);
+    return outline;
+  }
+}
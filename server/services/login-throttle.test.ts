@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { storage } from "../storage";
+import { LoginThrottledError, checkLoginAllowed, clearLoginFailures, recordFailedLogin } from "./login-throttle";
+
+const START = new Date("2025-01-01T10:00:00Z").getTime();
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+
+// The error checkLoginAllowed throws, or undefined if the sign-in may go ahead
+async function refusal(email: string, ip?: string): Promise<LoginThrottledError | undefined> {
+  try {
+    await checkLoginAllowed(email, ip);
+    return undefined;
+  } catch (error) {
+    if (error instanceof LoginThrottledError) return error;
+    throw error;
+  }
+}
+
+async function failAt(time: number, email: string, ip?: string) {
+  vi.setSystemTime(time);
+  await recordFailedLogin(email, ip);
+}
+
+describe("login throttling", () => {
+  let email: string;
+  let emailCount = 0;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(START);
+    email = `user${++emailCount}@example.com`;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("lets the first failures through without waiting", async () => {
+    await failAt(START, email);
+    await failAt(START, email);
+
+    expect(await refusal(email)).toBeUndefined();
+  });
+
+  it("makes each further attempt wait twice as long, up to a minute", async () => {
+    await failAt(START, email);
+    await failAt(START, email);
+
+    const delays: number[] = [];
+    for (let failures = 3; failures <= 9; failures++) {
+      await failAt(START, email);
+      const error = await refusal(email);
+      expect(error?.status).toBe(429);
+      delays.push(error!.retryAt.getTime() - START);
+    }
+    expect(delays).toEqual([2, 4, 8, 16, 32, 60, 60].map(seconds => seconds * SECOND_MS));
+
+    vi.setSystemTime(START + MINUTE_MS);
+    expect(await refusal(email)).toBeUndefined();
+  });
+
+  it("locks the account once, at the limit", async () => {
+    const user = await storage.createUser({ email, password: "hash", name: "Ada" });
+    for (let failures = 1; failures <= 9; failures++) {
+      await failAt(START + failures * MINUTE_MS, email);
+    }
+
+    await failAt(START + 10 * MINUTE_MS, email);
+    const locked = await refusal(email);
+    expect(locked?.status).toBe(423);
+    expect(locked?.retryAt).toEqual(new Date(START + 25 * MINUTE_MS));
+
+    // A failure past the limit neither extends the lock nor records it again
+    await failAt(START + 11 * MINUTE_MS, email);
+    expect((await refusal(email))?.retryAt).toEqual(new Date(START + 25 * MINUTE_MS));
+    const lockouts = (await storage.getRecentActivities(10, "account")).filter(activity => activity.userId === user.id);
+    expect(lockouts.map(activity => activity.type)).toEqual(["account_locked"]);
+  });
+
+  it("starts counting afresh once a lock has run out", async () => {
+    for (let failures = 1; failures <= 10; failures++) {
+      await failAt(START, email);
+    }
+    expect((await refusal(email))?.status).toBe(423);
+
+    vi.setSystemTime(START + 16 * MINUTE_MS);
+    expect(await refusal(email)).toBeUndefined();
+
+    await failAt(START + 16 * MINUTE_MS, email);
+    expect(await refusal(email)).toBeUndefined();
+    expect(await storage.getLoginThrottle(`account:${email}`)).toMatchObject({ failures: 1, lockedUntil: null });
+  });
+
+  it("counts emails ignoring case and forgets them after a successful sign-in", async () => {
+    await failAt(START, email);
+    await failAt(START, email.toUpperCase());
+    await failAt(START, email);
+    expect((await refusal(email))?.status).toBe(429);
+
+    await clearLoginFailures(email.toUpperCase());
+    expect(await refusal(email)).toBeUndefined();
+  });
+
+  // LOGIN_IP_MAX_FAILURES defaults to 50
+  it("locks an IP address separately from the emails it tries", async () => {
+    for (let failures = 1; failures <= 50; failures++) {
+      await failAt(START, `other${failures}@example.com`, "10.0.0.1");
+    }
+
+    expect((await refusal(email, "10.0.0.1"))?.status).toBe(429);
+    expect(await refusal(email, "10.0.0.2")).toBeUndefined();
+  });
+});
@@ -0,0 +1,217 @@
+import { type Response } from "express";
+import { storage } from "../storage";
+import { log } from "../vite";
+import { type CurrentUser } from "./auth";
+import { type LockedAccount, type LockoutReport } from "@shared/schema";
+
+const MINUTE_MS = 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+// Failed sign-ins for one email before it is locked
+const MAX_ACCOUNT_FAILURES = parseInt(process.env.LOGIN_MAX_FAILURES || "10", 10);
+// Failed sign-ins from one IP address, for any emails, before it is locked.
+// Higher than the account limit since offices and mobile networks share
+// addresses.
+const MAX_IP_FAILURES = parseInt(process.env.LOGIN_IP_MAX_FAILURES || "50", 10);
+const LOCKOUT_MS = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || "15", 10) * MINUTE_MS;
+// Failures further apart than this are counted afresh
+const FAILURE_WINDOW_MS = 60 * MINUTE_MS;
+// Failures allowed before each further attempt has to wait, doubling from
+// two seconds up to a minute
+const FREE_FAILURES = 3;
+const MAX_DELAY_MS = MINUTE_MS;
+// Password reset requests allowed per email and per IP address in
+// FAILURE_WINDOW_MS, whether or not the email has an account. Requests to
+// resend the verification email are counted apart against the same limits.
+const MAX_RESET_REQUESTS = parseInt(process.env.PASSWORD_RESET_MAX_REQUESTS || "3", 10);
+const MAX_IP_RESET_REQUESTS = parseInt(process.env.PASSWORD_RESET_IP_MAX_REQUESTS || "10", 10);
+
+// The sign-in was refused without checking the password
+export class LoginThrottledError extends Error {
+  constructor(
+    message: string,
+    public status: 423 | 429,
+    public retryAt: Date,
+  ) {
+    super(message);
+    this.name = "LoginThrottledError";
+  }
+}
+
+// Emails are matched ignoring case, so changing the case of an email does
+// not start a fresh count
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+const accountKey = (email: string) => `account:${normalizeEmail(email)}`;
+const ipKey = (ip: string) => `ip:${ip}`;
+// Password reset requests are counted apart from failed sign-ins, so asking
+// for reset emails never locks an account
+const resetAccountKey = (email: string) => `reset:${accountKey(email)}`;
+const resetIpKey = (ip: string) => `reset:${ipKey(ip)}`;
+const verifyAccountKey = (email: string) => `verify:${accountKey(email)}`;
+const verifyIpKey = (ip: string) => `verify:${ipKey(ip)}`;
+
+function delayAfter(failures: number): number {
+  if (failures < FREE_FAILURES) return 0;
+  return Math.min(2000 * 2 ** (failures - FREE_FAILURES), MAX_DELAY_MS);
+}
+
+// Throws LoginThrottledError if the email or IP address is locked, or if the
+// email failed too recently. Goes before the password is checked, so a
+// locked account stays locked even for the right password.
+export async function checkLoginAllowed(email: string, ip: string | undefined): Promise<void> {
+  const now = new Date();
+
+  if (ip) {
+    const throttle = await storage.getLoginThrottle(ipKey(ip));
+    if (throttle?.lockedUntil && throttle.lockedUntil > now) {
+      throw new LoginThrottledError("Too many failed sign-in attempts from your network. Try again later.", 429, throttle.lockedUntil);
+    }
+  }
+
+  const throttle = await storage.getLoginThrottle(accountKey(email));
+  if (!throttle) return;
+  if (throttle.lockedUntil && throttle.lockedUntil > now) {
+    throw new LoginThrottledError(
+      "This account is locked after too many failed sign-in attempts. Try again later or ask an admin to unlock it.",
+      423,
+      throttle.lockedUntil,
+    );
+  }
+  if (throttle.lockedUntil || throttle.firstFailureAt.getTime() < now.getTime() - FAILURE_WINDOW_MS) return;
+
+  const retryAt = new Date(throttle.lastFailureAt.getTime() + delayAfter(throttle.failures));
+  if (retryAt > now) {
+    throw new LoginThrottledError("Too many failed sign-in attempts. Wait a moment and try again.", 429, retryAt);
+  }
+}
+
+// Counts a wrong password or authentication code against the email and IP
+// address, locking either once it reaches its limit
+export async function recordFailedLogin(email: string, ip: string | undefined): Promise<void> {
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - FAILURE_WINDOW_MS);
+  const lockedUntil = new Date(now.getTime() + LOCKOUT_MS);
+
+  if (ip) {
+    const throttle = await storage.recordLoginFailure(ipKey(ip), now, windowStart);
+    if (throttle.failures === MAX_IP_FAILURES) {
+      await storage.lockLoginThrottle(throttle.key, lockedUntil);
+      log(`locked sign-in from ${ip} after ${throttle.failures} failed attempts`, "auth");
+    }
+  }
+
+  const throttle = await storage.recordLoginFailure(accountKey(email), now, windowStart);
+  // Only the request that reaches the limit locks, so concurrent failures
+  // record one lockout
+  if (throttle.failures !== MAX_ACCOUNT_FAILURES) return;
+
+  await storage.lockLoginThrottle(throttle.key, lockedUntil);
+  log(`locked sign-in for ${normalizeEmail(email)} after ${throttle.failures} failed attempts`, "auth");
+
+  // Emails without an account are locked the same way, so the response does
+  // not reveal which emails exist, but there is no account to record it on
+  const user = (await storage.getUserByEmail(email)) ?? (await storage.getUserByEmail(normalizeEmail(email)));
+  if (user) {
+    await storage.createActivity({
+      type: "account_locked",
+      documentId: null,
+      userId: user.id,
+      description: `Account locked after ${throttle.failures} failed sign-in attempts`,
+    });
+  }
+}
+
+// Forgets the email's failures and lifts any lock, once the user has signed
+// in or reset their password. The IP address count is left alone, since one
+// success does not vouch for everyone sharing it.
+export async function clearLoginFailures(email: string): Promise<void> {
+  await storage.clearLoginThrottle(accountKey(email));
+}
+
+// Counts a request for an emailed link against each key, and throws
+// LoginThrottledError once any has asked too often within the window.
+// Refused requests count too.
+async function checkEmailRequestAllowed(limits: [string, number][], message: string): Promise<void> {
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - FAILURE_WINDOW_MS);
+
+  for (const [key, limit] of limits) {
+    const throttle = await storage.recordLoginFailure(key, now, windowStart);
+    if (throttle.failures > limit) {
+      const retryAt = new Date(throttle.firstFailureAt.getTime() + FAILURE_WINDOW_MS);
+      throw new LoginThrottledError(message, 429, retryAt);
+    }
+  }
+}
+
+// Counts a password reset request against the email and IP address
+export async function checkPasswordResetAllowed(email: string, ip: string | undefined): Promise<void> {
+  const limits: [string, number][] = [[resetAccountKey(email), MAX_RESET_REQUESTS]];
+  if (ip) limits.push([resetIpKey(ip), MAX_IP_RESET_REQUESTS]);
+  await checkEmailRequestAllowed(limits, "Too many password reset requests. Try again later.");
+}
+
+// Counts a request to resend the verification email against the account's
+// email and the IP address
+export async function checkVerificationEmailAllowed(email: string, ip: string | undefined): Promise<void> {
+  const limits: [string, number][] = [[verifyAccountKey(email), MAX_RESET_REQUESTS]];
+  if (ip) limits.push([verifyIpKey(ip), MAX_IP_RESET_REQUESTS]);
+  await checkEmailRequestAllowed(limits, "Too many verification emails requested. Try again later.");
+}
+
+export function sendLoginThrottled(res: Response, error: LoginThrottledError) {
+  const retryAfter = Math.max(1, Math.ceil((error.retryAt.getTime() - Date.now()) / 1000));
+  res.setHeader("Retry-After", String(retryAfter));
+  return res.status(error.status).json({ message: error.message, retryAt: error.retryAt.toISOString() });
+}
+
+export async function buildLockoutReport(): Promise<LockoutReport> {
+  const [throttles, activity] = await Promise.all([
+    storage.getLockedLoginThrottles(new Date()),
+    storage.getRecentActivities(20, "account"),
+  ]);
+
+  const locked: LockedAccount[] = throttles
+    .filter(throttle => throttle.key.startsWith("account:"))
+    .map(throttle => ({
+      email: throttle.key.slice("account:".length),
+      failures: throttle.failures,
+      lockedUntil: throttle.lockedUntil!.toISOString(),
+    }));
+
+  return {
+    locked,
+    activity: activity.map(({ user, document, ...rest }) => ({
+      ...rest,
+      user: { id: user.id, name: user.name, email: user.email },
+    })),
+  };
+}
+
+// Clears the email's failures and any lock on it. Returns false if there
+// was nothing to clear.
+export async function unlockAccount(email: string, admin: CurrentUser): Promise<boolean> {
+  const key = accountKey(email);
+  if (!(await storage.clearLoginThrottle(key))) return false;
+
+  await storage.createActivity({
+    type: "account_unlocked",
+    documentId: null,
+    userId: admin.id,
+    description: `Unlocked sign-in for ${normalizeEmail(email)}`,
+  });
+  log(`${admin.email} unlocked sign-in for ${normalizeEmail(email)}`, "auth");
+  return true;
+}
+
+export function scheduleLoginThrottleCleanup() {
+  const run = async () => {
+    try {
+      await storage.deleteStaleLoginThrottles(new Date(Date.now() - FAILURE_WINDOW_MS));
+    } catch (error) {
+      console.error("Error deleting stale login throttles:", error);
+    }
+  };
+
+  run();
+  setInterval(run, CLEANUP_INTERVAL_MS).unref();
+}
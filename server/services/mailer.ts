@@ -0,0 +1,79 @@
+import { appendFile, mkdir } from "fs/promises";
+import path from "path";
+import nodemailer, { type Transporter } from "nodemailer";
+import { log } from "../vite";
+
+export interface Mail {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  readonly name: string;
+  send(mail: Mail): Promise<void>;
+}
+
+class SmtpMailer implements Mailer {
+  readonly name = "smtp";
+  private transporter: Transporter;
+
+  constructor(private from: string, host: string) {
+    const port = parseInt(process.env.SMTP_PORT || "587", 10);
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      // Port 465 is TLS from the start; others upgrade with STARTTLS
+      secure: port === 465,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+    });
+  }
+
+  async send(mail: Mail): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...mail });
+  }
+}
+
+// Appends each message to a file as a line of JSON, so tests and local
+// setups can read the links that were sent
+class FileMailer implements Mailer {
+  readonly name = "file";
+
+  constructor(private from: string, private file: string) {}
+
+  async send(mail: Mail): Promise<void> {
+    await mkdir(path.dirname(this.file), { recursive: true });
+    await appendFile(this.file, JSON.stringify({ from: this.from, ...mail, sentAt: new Date().toISOString() }) + "\n");
+  }
+}
+
+class ConsoleMailer implements Mailer {
+  readonly name = "console";
+
+  async send(mail: Mail): Promise<void> {
+    log(`mail to ${mail.to}: ${mail.subject}\n${mail.text}`, "mailer");
+  }
+}
+
+// MAIL_TRANSPORT selects how mail is sent: "smtp" (the default when
+// SMTP_HOST is set), "file" to append to MAIL_FILE, or "console" to log it.
+function createMailer(): Mailer {
+  const transport = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "console");
+  const from = process.env.MAIL_FROM || "AI Knowledge Hub <no-reply@localhost>";
+
+  if (transport === "smtp") {
+    if (!process.env.SMTP_HOST) {
+      throw new Error("SMTP_HOST must be set when MAIL_TRANSPORT is smtp");
+    }
+    return new SmtpMailer(from, process.env.SMTP_HOST);
+  }
+  if (transport === "file") {
+    return new FileMailer(from, process.env.MAIL_FILE || "mail/outbox.jsonl");
+  }
+  if (transport !== "console") {
+    throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+  }
+  return new ConsoleMailer();
+}
+
+export const mailer = createMailer();
@@ -0,0 +1,92 @@
+import { storage } from "../storage";
+import { terms } from "../text";
+import { type QAReport } from "@shared/schema";
+
+// Most entries listed in each section of the report
+const REPORT_LIMIT = 50;
+
+// Rewordings that differ only in word order, stop words or inflection are
+// counted as the same question
+function questionKey(question: string): string {
+  return Array.from(new Set(terms(question))).sort().join(" ");
+}
+
+export async function buildQAReport(days: number): Promise<QAReport> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const [answered, feedback] = await Promise.all([
+    storage.getAnsweredQuestions(since),
+    storage.getAnswerFeedbackSince(since),
+  ]);
+
+  const ratedDown = feedback.filter(entry => entry.rating === "down");
+  const ratedDownMessages = new Set(ratedDown.map(entry => entry.messageId));
+
+  // An answer had no good source if it cited nothing or the asker rated it
+  // down. Down-rated answers whose conversation is gone still count.
+  const unsourced = new Map<string, QAReport["unsourcedQuestions"][number]>();
+  const addUnsourced = (question: string, askedAt: Date, down: boolean) => {
+    const key = questionKey(question);
+    if (!key) return;
+    const entry = unsourced.get(key) ?? { question, count: 0, ratedDown: 0, lastAskedAt: askedAt.toISOString() };
+    entry.count++;
+    if (down) entry.ratedDown++;
+    if (askedAt.toISOString() >= entry.lastAskedAt) {
+      entry.question = question;
+      entry.lastAskedAt = askedAt.toISOString();
+    }
+    unsourced.set(key, entry);
+  };
+
+  for (const { question, answer } of answered) {
+    const down = ratedDownMessages.has(answer.id);
+    if (answer.citations.length === 0 || down) addUnsourced(question, answer.createdAt, down);
+  }
+  for (const entry of ratedDown) {
+    if (entry.messageId === null) addUnsourced(entry.question, entry.createdAt, true);
+  }
+
+  const users = new Map<string, { id: string; name: string }>();
+  const documents = new Map<string, { id: string; title: string } | null>();
+  const lowRated: QAReport["lowRated"] = [];
+  for (const entry of ratedDown.slice(0, REPORT_LIMIT)) {
+    if (!users.has(entry.userId)) {
+      const user = await storage.getUser(entry.userId);
+      users.set(entry.userId, { id: entry.userId, name: user?.name ?? "Deleted user" });
+    }
+
+    const citedDocuments = [];
+    for (const documentId of entry.citedDocumentIds) {
+      if (!documents.has(documentId)) {
+        const document = await storage.getDocument(documentId, { includeDeleted: true });
+        documents.set(documentId, document ? { id: document.id, title: document.title } : null);
+      }
+      const document = documents.get(documentId);
+      if (document) citedDocuments.push(document);
+    }
+
+    lowRated.push({
+      id: entry.id,
+      question: entry.question,
+      answer: entry.answer,
+      comment: entry.comment,
+      model: entry.model,
+      createdAt: entry.updatedAt,
+      user: users.get(entry.userId)!,
+      citedDocuments,
+    });
+  }
+
+  return {
+    since: since.toISOString(),
+    totals: {
+      answers: answered.length,
+      uncited: answered.filter(({ answer }) => answer.citations.length === 0).length,
+      ratedUp: feedback.length - ratedDown.length,
+      ratedDown: ratedDown.length,
+    },
+    lowRated,
+    unsourcedQuestions: Array.from(unsourced.values())
+      .sort((a, b) => b.count - a.count || b.lastAskedAt.localeCompare(a.lastAskedAt))
+      .slice(0, REPORT_LIMIT),
+  };
+}
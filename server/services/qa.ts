@@ -0,0 +1,78 @@
+import { type Citation } from "@shared/schema";
+import { answerModel, answerQuestion, streamAnswer, type ChatTurn } from "./ai";
+import { citationsFromMarkers, resolveCitations } from "./citations";
+import { validateOutput } from "./prompt-safety";
+import { retrieveChunks, defaultRetrievalOptions, type RetrievalOptions, type RetrievedChunk } from "./retrieval";
+
+export interface QAResult {
+  answer: string;
+  // Quoted passages backing the answer, checked against the retrieved chunks
+  citations: Citation[];
+  // The passages the answer was generated from, best first
+  chunks: RetrievedChunk[];
+  // The model that wrote the answer; null if there was nothing to answer from
+  model: string | null;
+}
+
+export const NO_CONTEXT_ANSWER = "I couldn't find anything in the knowledge base related to that question.";
+
+// A follow-up such as "and how long does that take?" says little on its own,
+// so passages are retrieved for it together with the question before it
+function retrievalQuery(question: string, history: ChatTurn[]): string {
+  const previous = history.filter(turn => turn.role === "user").slice(-1);
+  return [...previous.map(turn => turn.content), question].join("\n");
+}
+
+// Answers may only link to what the passages they were written from link to
+function validateAnswer(answer: string, chunks: RetrievedChunk[]): string {
+  return validateOutput(String(answer ?? ""), chunks.map(chunk => chunk.content));
+}
+
+// history holds the earlier turns of the conversation, oldest first
+export async function askQuestion(question: string, options: Partial<RetrievalOptions> = {}, history: ChatTurn[] = []): Promise<QAResult> {
+  const chunks = await retrieveChunks(retrievalQuery(question, history), { ...defaultRetrievalOptions, ...options });
+  if (chunks.length === 0) {
+    return { answer: NO_CONTEXT_ANSWER, citations: [], chunks, model: null };
+  }
+
+  const draft = await answerQuestion(question, chunks, history);
+  const { answer, citations } = resolveCitations({ ...draft, answer: validateAnswer(draft.answer, chunks) }, chunks);
+  return { answer, citations, chunks, model: answerModel };
+}
+
+export type QAStreamEvent =
+  | { type: "chunks"; chunks: RetrievedChunk[] }
+  | { type: "token"; text: string }
+  | { type: "citations"; citations: Citation[] }
+  // The final answer text, with markers renumbered to match the citations
+  | { type: "done"; answer: string; model: string | null };
+
+// Streaming variant of askQuestion. Once signal is aborted generation stops
+// and the answer so far is finished off as if it were complete.
+export async function* askQuestionStream(
+  question: string,
+  options: Partial<RetrievalOptions> = {},
+  history: ChatTurn[] = [],
+  signal?: AbortSignal,
+): AsyncGenerator<QAStreamEvent> {
+  const chunks = await retrieveChunks(retrievalQuery(question, history), { ...defaultRetrievalOptions, ...options });
+  yield { type: "chunks", chunks };
+
+  if (chunks.length === 0) {
+    yield { type: "token", text: NO_CONTEXT_ANSWER };
+    yield { type: "citations", citations: [] };
+    yield { type: "done", answer: NO_CONTEXT_ANSWER, model: null };
+    return;
+  }
+
+  let text = "";
+  for await (const piece of streamAnswer(question, chunks, history, signal)) {
+    text += piece;
+    yield { type: "token", text: piece };
+  }
+
+  const validated = validateAnswer(text, chunks);
+  const { answer, citations } = resolveCitations({ answer: validated, citations: citationsFromMarkers(validated, chunks) }, chunks);
+  yield { type: "citations", citations };
+  yield { type: "done", answer, model: answerModel };
+}
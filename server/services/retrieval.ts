@@ -0,0 +1,100 @@
+import { z } from "zod";
+import { storage } from "../storage";
+import { estimateTokens } from "../text";
+import { embedTexts } from "./ai";
+import { MIN_SIMILARITY } from "./semantic-search";
+import { type ChunkMatch } from "@shared/schema";
+
+export const retrievalModes = ["lexical", "vector", "hybrid"] as const;
+export type RetrievalMode = (typeof retrievalModes)[number];
+
+export interface RetrievalOptions {
+  mode: RetrievalMode;
+  // Most chunks to hand to the model
+  topK: number;
+  // Approximate token allowance for the retrieved passages in the prompt
+  tokenBudget: number;
+}
+
+export const retrievalOptionsSchema = z.object({
+  mode: z.enum(retrievalModes),
+  topK: z.number().int().min(1).max(50),
+  tokenBudget: z.number().int().min(200).max(100000),
+});
+
+export const defaultRetrievalOptions: RetrievalOptions = retrievalOptionsSchema.parse({
+  mode: process.env.QA_RETRIEVAL_MODE || "hybrid",
+  topK: parseInt(process.env.QA_TOP_K || "8", 10),
+  tokenBudget: parseInt(process.env.QA_TOKEN_BUDGET || "3000", 10),
+});
+
+export type RetrievedChunk = Omit<ChunkMatch, "similarity"> & {
+  title: string;
+  // Relevance to the question; comparable only within one retrieval
+  score: number;
+};
+
+// Candidates fetched from each index before fusing and trimming to topK
+const CANDIDATE_MULTIPLIER = 3;
+// Reciprocal rank fusion constant; larger values flatten the rank weighting
+const RRF_K = 60;
+
+async function vectorCandidates(query: string, limit: number): Promise<ChunkMatch[]> {
+  const [embedding] = await embedTexts([query]);
+  const matches = await storage.searchDocumentChunks(embedding, limit);
+  return matches.filter(match => match.similarity >= MIN_SIMILARITY);
+}
+
+// Merges ranked lists by summing 1 / (RRF_K + rank) per list a chunk appears in
+function fuse(lists: ChunkMatch[][]): ChunkMatch[] {
+  const fused = new Map<string, ChunkMatch>();
+  for (const list of lists) {
+    list.forEach((match, rank) => {
+      const score = 1 / (RRF_K + rank + 1);
+      const existing = fused.get(match.id);
+      fused.set(match.id, { ...match, similarity: (existing?.similarity || 0) + score });
+    });
+  }
+  return Array.from(fused.values()).sort((a, b) => b.similarity - a.similarity);
+}
+
+async function candidates(query: string, mode: RetrievalMode, limit: number): Promise<ChunkMatch[]> {
+  if (mode === "lexical") return storage.searchDocumentChunksByText(query, limit);
+  if (mode === "vector") return vectorCandidates(query, limit);
+
+  const [lexical, vector] = await Promise.all([
+    storage.searchDocumentChunksByText(query, limit),
+    vectorCandidates(query, limit),
+  ]);
+  return fuse([lexical, vector]);
+}
+
+// Picks the chunks most relevant to the query, best first, stopping at topK
+// chunks or when the next chunk would overflow the token budget. Chunks too
+// large for the remaining budget are skipped in favour of smaller ones.
+export async function retrieveChunks(query: string, options: RetrievalOptions = defaultRetrievalOptions): Promise<RetrievedChunk[]> {
+  const matches = await candidates(query, options.mode, options.topK * CANDIDATE_MULTIPLIER);
+
+  const titles = new Map<string, string>();
+  const selected: RetrievedChunk[] = [];
+  let tokens = 0;
+
+  for (const { similarity, ...match } of matches) {
+    if (selected.length >= options.topK) break;
+
+    if (!titles.has(match.documentId)) {
+      const document = await storage.getDocument(match.documentId);
+      if (!document) continue;
+      titles.set(match.documentId, document.title);
+    }
+    const title = titles.get(match.documentId)!;
+
+    const cost = estimateTokens(`${title}\n${match.content}`);
+    if (tokens + cost > options.tokenBudget) continue;
+
+    selected.push({ ...match, title, score: similarity });
+    tokens += cost;
+  }
+
+  return selected;
+}
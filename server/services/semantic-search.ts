@@ -0,0 +1,86 @@
+import { storage } from "../storage";
+import { embedTexts } from "./ai";
+import { chunkText } from "./chunking";
+import { log } from "../vite";
+import { type ChunkMatch, type Document, type DocumentWithUser } from "@shared/schema";
+
+// Nearest chunks fetched per query, before grouping them by document
+const SEARCH_CHUNK_LIMIT = 20;
+// Chunks less similar than this to the query are not considered matches
+export const MIN_SIMILARITY = 0.1;
+
+export type SemanticSearchResult = DocumentWithUser & {
+  relevance: number;
+  matches: ChunkMatch[];
+};
+
+// Chunks and embeds the document's current content, replacing whatever was
+// indexed for it before. The title is embedded with every chunk so passages
+// keep the context of the document they come from.
+export async function indexDocument(document: Pick<Document, "id" | "title" | "content" | "version">): Promise<void> {
+  const chunks = chunkText(document.content);
+  const embeddings = await embedTexts(chunks.map(chunk => `${document.title}\n\n${chunk.content}`));
+
+  await storage.transaction(async (tx) => {
+    // A newer save may have been indexed while these embeddings were computed
+    const current = await tx.getDocument(document.id, { includeDeleted: true });
+    if (!current || current.version !== document.version) return;
+
+    await tx.replaceDocumentChunks(document.id, chunks.map((chunk, index) => ({
+      ...chunk,
+      documentId: document.id,
+      version: document.version,
+      chunkIndex: index,
+      embedding: embeddings[index],
+    })));
+  });
+}
+
+// Indexes documents that have no chunks yet or whose chunks were built from
+// an older version
+export async function indexStaleDocuments(): Promise<number> {
+  let indexed = 0;
+  for (const document of await storage.getDocuments()) {
+    const [chunk] = await storage.getDocumentChunks(document.id);
+    if (chunk?.version === document.version || (!chunk && !document.content.trim())) continue;
+    await indexDocument(document);
+    indexed++;
+  }
+  return indexed;
+}
+
+export function scheduleIndexing() {
+  indexStaleDocuments()
+    .then(indexed => {
+      if (indexed > 0) {
+        log(`indexed ${indexed} document${indexed !== 1 ? "s" : ""} for semantic search`, "search");
+      }
+    })
+    .catch(error => console.error("Error indexing documents:", error));
+}
+
+export async function semanticSearch(query: string): Promise<SemanticSearchResult[]> {
+  const [embedding] = await embedTexts([query]);
+  const matches = (await storage.searchDocumentChunks(embedding, SEARCH_CHUNK_LIMIT))
+    .filter(match => match.similarity >= MIN_SIMILARITY);
+
+  const byDocument = new Map<string, ChunkMatch[]>();
+  for (const match of matches) {
+    byDocument.set(match.documentId, [...(byDocument.get(match.documentId) || []), match]);
+  }
+
+  const results: SemanticSearchResult[] = [];
+  for (const [documentId, documentMatches] of Array.from(byDocument.entries())) {
+    const document = await storage.getDocument(documentId);
+    if (!document) continue;
+    const { versions, ...rest } = document;
+    results.push({
+      ...rest,
+      relevance: Math.round(documentMatches[0].similarity * 100),
+      matches: documentMatches,
+    });
+  }
+
+  // Matches arrive best first, so documents keep the order of their best chunk
+  return results;
+}
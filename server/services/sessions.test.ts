@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { type Request } from "express";
+import { storage } from "../storage";
+import { InvalidRefreshTokenError, refreshSession, startSession } from "./sessions";
+import { type User } from "@shared/schema";
+
+const request = { ip: "127.0.0.1", get: () => "vitest" } as unknown as Request;
+
+describe("refreshSession", () => {
+  let user: User;
+  let userCount = 0;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-01-01T10:00:00Z"));
+    user = await storage.createUser({ email: `user${++userCount}@example.com`, password: "hash", name: "Ada" });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("replaces the refresh token each time it is used", async () => {
+    const { refreshToken } = await startSession(user, request);
+
+    const refreshed = await refreshSession(refreshToken);
+    expect(refreshed.refreshToken).not.toBe(refreshToken);
+    expect(refreshed.user.id).toBe(user.id);
+    expect((await refreshSession(refreshed.refreshToken)).refreshToken).not.toBe(refreshed.refreshToken);
+  });
+
+  it("refuses a replaced token within the grace window without ending the session", async () => {
+    const { refreshToken } = await startSession(user, request);
+    const refreshed = await refreshSession(refreshToken);
+
+    vi.setSystemTime(new Date("2025-01-01T10:00:05Z"));
+    await expect(refreshSession(refreshToken)).rejects.toThrow(InvalidRefreshTokenError);
+    await expect(refreshSession(refreshed.refreshToken)).resolves.toMatchObject({ user: { id: user.id } });
+  });
+
+  it("ends the session when a replaced token is used after the grace window", async () => {
+    const { refreshToken } = await startSession(user, request);
+    const refreshed = await refreshSession(refreshToken);
+
+    vi.setSystemTime(new Date("2025-01-01T10:00:11Z"));
+    await expect(refreshSession(refreshToken)).rejects.toThrow("Refresh token has already been used");
+    await expect(refreshSession(refreshed.refreshToken)).rejects.toThrow(InvalidRefreshTokenError);
+  });
+
+  it("refuses tokens of disabled users", async () => {
+    const { refreshToken } = await startSession(user, request);
+    await storage.updateUser(user.id, { disabled: true });
+
+    await expect(refreshSession(refreshToken)).rejects.toThrow(InvalidRefreshTokenError);
+  });
+});
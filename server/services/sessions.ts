@@ -0,0 +1,104 @@
+import { type Request } from "express";
+import { storage } from "../storage";
+import { log } from "../vite";
+import { describeUser, generateToken, hashToken, randomToken, type CurrentUser } from "./auth";
+import { type User } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+// Sessions last this long after their refresh token was last used
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || "30", 10);
+// Two tabs refreshing at the same moment both present the same token. The
+// slower one finds it already replaced, which is not taken as theft if it
+// happens this soon after the rotation.
+const ROTATION_GRACE_MS = 10 * 1000;
+
+export class InvalidRefreshTokenError extends Error {
+  constructor(message = "Invalid or expired refresh token") {
+    super(message);
+    this.name = "InvalidRefreshTokenError";
+  }
+}
+
+export type SessionUser = CurrentUser;
+
+export interface SessionTokens {
+  // Access token for the Authorization header
+  token: string;
+  refreshToken: string;
+  user: SessionUser;
+}
+
+function refreshExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * DAY_MS);
+}
+
+export async function startSession(user: User, req: Request): Promise<SessionTokens> {
+  const refreshToken = randomToken();
+  const session = await storage.createSession({
+    userId: user.id,
+    refreshTokenHash: hashToken(refreshToken),
+    userAgent: req.get("user-agent") || null,
+    ipAddress: req.ip || null,
+    expiresAt: refreshExpiry(),
+  });
+  const sessionUser = await describeUser(user);
+  return { token: generateToken(sessionUser, session.id), refreshToken, user: sessionUser };
+}
+
+// Exchanges a refresh token for a new access token and a new refresh token.
+// A refresh token that was already exchanged has been copied, so presenting
+// it again revokes the whole session.
+export async function refreshSession(refreshToken: string): Promise<SessionTokens> {
+  const hash = hashToken(refreshToken);
+  const session = await storage.getSessionByRefreshTokenHash(hash);
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+    throw new InvalidRefreshTokenError();
+  }
+
+  if (session.refreshTokenHash !== hash) {
+    if (Date.now() - session.lastUsedAt.getTime() > ROTATION_GRACE_MS) {
+      await storage.revokeSession(session.id, new Date());
+      log(`revoked session ${session.id} after a refresh token was reused`, "auth");
+    }
+    throw new InvalidRefreshTokenError("Refresh token has already been used");
+  }
+
+  const user = await storage.getUser(session.userId);
+  if (!user || user.disabled) throw new InvalidRefreshTokenError();
+
+  const nextToken = randomToken();
+  const rotated = await storage.rotateSession(session.id, hash, hashToken(nextToken), refreshExpiry());
+  // Lost a race with another refresh of the same token
+  if (!rotated) throw new InvalidRefreshTokenError("Refresh token has already been used");
+
+  const sessionUser = await describeUser(user);
+  return { token: generateToken(sessionUser, session.id), refreshToken: nextToken, user: sessionUser };
+}
+
+// Signs out the device holding the refresh token. Unknown tokens are ignored.
+export async function endSession(refreshToken: string): Promise<void> {
+  const session = await storage.getSessionByRefreshTokenHash(hashToken(refreshToken));
+  if (session) await storage.revokeSession(session.id, new Date());
+}
+
+// Signs the user out on every device, including the current one
+export async function endAllSessions(userId: string): Promise<number> {
+  return storage.revokeUserSessions(userId, new Date());
+}
+
+export function scheduleSessionCleanup() {
+  const run = async () => {
+    try {
+      const deleted = await storage.deleteEndedSessions(new Date());
+      if (deleted > 0) {
+        log(`deleted ${deleted} ended session${deleted !== 1 ? "s" : ""}`, "auth");
+      }
+    } catch (error) {
+      console.error("Error deleting ended sessions:", error);
+    }
+  };
+
+  run();
+  setInterval(run, CLEANUP_INTERVAL_MS).unref();
+}
@@ -0,0 +1,34 @@
+import { storage } from "../storage";
+import { appSettingsSchema, type AppSettings } from "@shared/schema";
+
+const defaults: AppSettings = {
+  trashRetentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || "30", 10),
+  aiUserDailyTokens: parseInt(process.env.AI_USER_DAILY_TOKENS || "0", 10),
+  aiUserMonthlyTokens: parseInt(process.env.AI_USER_MONTHLY_TOKENS || "0", 10),
+  aiWorkspaceDailyTokens: parseInt(process.env.AI_WORKSPACE_DAILY_TOKENS || "0", 10),
+  aiWorkspaceMonthlyTokens: parseInt(process.env.AI_WORKSPACE_MONTHLY_TOKENS || "0", 10),
+  requireAdminTwoFactor: process.env.REQUIRE_ADMIN_2FA === "true",
+};
+
+export async function getSetting<K extends keyof AppSettings>(key: K): Promise<AppSettings[K]> {
+  const setting = await storage.getSetting(key);
+  const parsed = appSettingsSchema.shape[key].safeParse(setting?.value);
+  return parsed.success ? (parsed.data as AppSettings[K]) : defaults[key];
+}
+
+export async function getSettings(): Promise<AppSettings> {
+  const settings = { ...defaults };
+  for (const key of Object.keys(defaults) as (keyof AppSettings)[]) {
+    (settings as Record<string, unknown>)[key] = await getSetting(key);
+  }
+  return settings;
+}
+
+export async function updateSettings(updates: Partial<AppSettings>, userId: string): Promise<AppSettings> {
+  await storage.transaction(async (tx) => {
+    for (const [key, value] of Object.entries(updates)) {
+      await tx.setSetting(key, value, userId);
+    }
+  });
+  return getSettings();
+}
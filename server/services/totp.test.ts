@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { storage } from "../storage";
+import { currentStep, generateCode, generateSecret, verifyCode } from "./totp";
+import { verifySecondFactor } from "./two-factor";
+
+// The RFC 6238 SHA-1 secret "12345678901234567890", base32 encoded
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+// Appendix B test vectors, cut to the last six of their eight digits
+const RFC_VECTORS: [number, string][] = [
+  [59, "287082"],
+  [1111111109, "081804"],
+  [1111111111, "050471"],
+  [1234567890, "005924"],
+  [2000000000, "279037"],
+  [20000000000, "353130"],
+];
+
+describe("verifyCode", () => {
+  it.each(RFC_VECTORS)("accepts the RFC 6238 code at %i seconds", (seconds, code) => {
+    const now = seconds * 1000;
+
+    expect(generateCode(RFC_SECRET, now)).toBe(code);
+    expect(verifyCode(RFC_SECRET, code, now)).toBe(currentStep(now));
+  });
+
+  it("accepts codes one step either side and returns their step", () => {
+    const now = 1111111111 * 1000;
+    const step = currentStep(now);
+
+    expect(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, now - 30_000), now)).toBe(step - 1);
+    expect(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, now + 30_000), now)).toBe(step + 1);
+    expect(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, now - 60_000), now)).toBeNull();
+  });
+
+  it("refuses anything but six digits", () => {
+    expect(verifyCode(RFC_SECRET, "28708", 59_000)).toBeNull();
+    expect(verifyCode(RFC_SECRET, "2870820", 59_000)).toBeNull();
+    expect(verifyCode(RFC_SECRET, "28708a", 59_000)).toBeNull();
+  });
+
+  it("accepts a code only once, and no earlier code after it", async () => {
+    const secret = generateSecret();
+    const user = await storage.createUser({ email: "totp@example.com", password: "hash", name: "Ada" });
+    await storage.saveTwoFactor({ userId: user.id, secret, enabledAt: new Date() });
+
+    const code = generateCode(secret);
+    expect(await verifySecondFactor(user.id, code)).toBe(true);
+    expect(await verifySecondFactor(user.id, code)).toBe(false);
+    expect(await verifySecondFactor(user.id, generateCode(secret, Date.now() - 30_000))).toBe(false);
+  });
+});
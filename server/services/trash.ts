@@ -0,0 +1,88 @@
+import { storage } from "../storage";
+import { getSetting } from "./settings";
+import { log } from "../vite";
+import { type Document } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export async function trashDocument(id: string, userId: string): Promise<Document | undefined> {
+  return storage.transaction(async (tx) => {
+    const document = await tx.setDocumentDeleted(id, userId);
+    if (!document) return undefined;
+
+    await tx.createActivity({
+      type: "deleted",
+      documentId: id,
+      userId,
+      description: `Moved document "${document.title}" to trash`,
+    });
+
+    return document;
+  });
+}
+
+export async function restoreFromTrash(id: string, userId: string): Promise<Document | undefined> {
+  return storage.transaction(async (tx) => {
+    const document = await tx.setDocumentDeleted(id, null);
+    if (!document) return undefined;
+
+    await tx.createActivity({
+      type: "restored",
+      documentId: id,
+      userId,
+      description: `Restored document "${document.title}" from trash`,
+    });
+
+    return document;
+  });
+}
+
+// Permanently removes a document together with its versions and activities
+export async function purgeDocument(id: string, title: string, userId: string, reason?: string): Promise<boolean> {
+  return storage.transaction(async (tx) => {
+    const deleted = await tx.deleteDocument(id);
+    if (!deleted) return false;
+
+    // The document's own activities go with it, so this entry is not linked to it
+    await tx.createActivity({
+      type: "purged",
+      documentId: null,
+      userId,
+      description: `Permanently deleted document "${title}"${reason ? ` ${reason}` : ""}`,
+    });
+
+    return true;
+  });
+}
+
+export async function purgeExpiredDocuments(now = new Date()): Promise<number> {
+  const retentionDays = await getSetting("trashRetentionDays");
+  const cutoff = now.getTime() - retentionDays * DAY_MS;
+
+  let purged = 0;
+  for (const document of await storage.getTrashedDocuments()) {
+    if (document.deletedAt!.getTime() > cutoff) continue;
+    const userId = document.deletedBy?.id ?? document.createdBy.id;
+    if (await purgeDocument(document.id, document.title, userId, `after ${retentionDays} days in trash`)) {
+      purged++;
+    }
+  }
+  return purged;
+}
+
+export function scheduleTrashPurge() {
+  const run = async () => {
+    try {
+      const purged = await purgeExpiredDocuments();
+      if (purged > 0) {
+        log(`purged ${purged} expired document${purged !== 1 ? "s" : ""} from trash`, "trash");
+      }
+    } catch (error) {
+      console.error("Error purging trash:", error);
+    }
+  };
+
+  run();
+  setInterval(run, PURGE_INTERVAL_MS).unref();
+}
@@ -0,0 +1,142 @@
+import { randomBytes } from "crypto";
+import QRCode from "qrcode";
+import { storage } from "../storage";
+import { log } from "../vite";
+import { comparePassword, forgetCachedUser, hashToken, type CurrentUser } from "./auth";
+import { getSetting } from "./settings";
+import { generateSecret, provisioningUri, verifyCode } from "./totp";
+import { type TwoFactorSetup, type TwoFactorStatus } from "@shared/schema";
+
+const ISSUER = "AI Knowledge Hub";
+const RECOVERY_CODE_COUNT = 10;
+
+// A request that does not fit the account's two-factor state
+export class TwoFactorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TwoFactorError";
+  }
+}
+
+export class InvalidTwoFactorCodeError extends Error {
+  constructor(message = "Invalid authentication code") {
+    super(message);
+    this.name = "InvalidTwoFactorCodeError";
+  }
+}
+
+export class IncorrectPasswordError extends Error {
+  constructor(message = "Incorrect password") {
+    super(message);
+    this.name = "IncorrectPasswordError";
+  }
+}
+
+// Ten hex characters each, shown as two groups of five
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString("hex");
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+// Recovery codes are accepted however they are spaced or capitalized
+function recoveryCodeHash(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^0-9a-f]/g, "");
+  return hashToken(`${normalized.slice(0, 5)}-${normalized.slice(5)}`);
+}
+
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+  const twoFactor = await storage.getTwoFactor(userId);
+  return !!twoFactor?.enabledAt;
+}
+
+export async function getTwoFactorStatus(userId: string): Promise<TwoFactorStatus> {
+  const twoFactor = await storage.getTwoFactor(userId);
+  return {
+    enabled: !!twoFactor?.enabledAt,
+    recoveryCodesRemaining: twoFactor?.enabledAt ? twoFactor.recoveryCodeHashes.length : 0,
+  };
+}
+
+// Creates a new secret, replacing any earlier one still waiting to be
+// confirmed. Two-factor authentication is not on until enableTwoFactor.
+export async function startTwoFactorSetup(user: CurrentUser): Promise<TwoFactorSetup> {
+  if (await isTwoFactorEnabled(user.id)) {
+    throw new TwoFactorError("Two-factor authentication is already on");
+  }
+
+  const secret = generateSecret();
+  await storage.saveTwoFactor({ userId: user.id, secret });
+  const uri = provisioningUri(secret, user.email, ISSUER);
+  return { secret, uri, qrCode: await QRCode.toDataURL(uri) };
+}
+
+// Turns two-factor authentication on once the user has shown their app
+// produces valid codes. Returns the recovery codes, which are only shown now.
+export async function enableTwoFactor(userId: string, code: string): Promise<string[]> {
+  const twoFactor = await storage.getTwoFactor(userId);
+  if (!twoFactor) throw new TwoFactorError("Start setting up two-factor authentication first");
+  if (twoFactor.enabledAt) throw new TwoFactorError("Two-factor authentication is already on");
+
+  const step = verifyCode(twoFactor.secret, code.replace(/\s/g, ""));
+  if (step === null || !(await storage.useTwoFactorStep(userId, step))) {
+    throw new InvalidTwoFactorCodeError();
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await storage.updateTwoFactor(userId, { enabledAt: new Date(), recoveryCodeHashes: recoveryCodes.map(recoveryCodeHash) });
+  forgetCachedUser(userId);
+  log(`two-factor authentication enabled for user ${userId}`, "auth");
+  return recoveryCodes;
+}
+
+// Accepts a code from the authenticator app or an unused recovery code.
+// Either works only once.
+export async function verifySecondFactor(userId: string, code: string): Promise<boolean> {
+  const twoFactor = await storage.getTwoFactor(userId);
+  if (!twoFactor?.enabledAt) return false;
+
+  const step = verifyCode(twoFactor.secret, code.replace(/\s/g, ""));
+  if (step !== null) return storage.useTwoFactorStep(userId, step);
+
+  const used = await storage.useRecoveryCode(userId, recoveryCodeHash(code));
+  if (used) log(`recovery code used by user ${userId}`, "auth");
+  return used;
+}
+
+// Asks for the password as well as a code, so a session left signed in
+// cannot turn two-factor authentication off with a recovery code alone
+export async function disableTwoFactor(user: CurrentUser, password: string, code: string): Promise<void> {
+  if (!(await isTwoFactorEnabled(user.id))) {
+    throw new TwoFactorError("Two-factor authentication is not on");
+  }
+  if (user.role === "admin" && (await getSetting("requireAdminTwoFactor"))) {
+    throw new TwoFactorError("Two-factor authentication is required for admins");
+  }
+  const stored = await storage.getUser(user.id);
+  if (!stored || !(await comparePassword(password, stored.password))) {
+    throw new IncorrectPasswordError();
+  }
+  if (!(await verifySecondFactor(user.id, code))) {
+    throw new InvalidTwoFactorCodeError();
+  }
+
+  await storage.deleteTwoFactor(user.id);
+  forgetCachedUser(user.id);
+  log(`two-factor authentication disabled for user ${user.id}`, "auth");
+}
+
+// Replaces all recovery codes, used or not
+export async function regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+  if (!(await isTwoFactorEnabled(userId))) {
+    throw new TwoFactorError("Two-factor authentication is not on");
+  }
+  if (!(await verifySecondFactor(userId, code))) {
+    throw new InvalidTwoFactorCodeError();
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await storage.updateTwoFactor(userId, { recoveryCodeHashes: recoveryCodes.map(recoveryCodeHash) });
+  return recoveryCodes;
+}
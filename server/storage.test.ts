@@ -0,0 +1,511 @@
+import { createRequire } from "module";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { vector } from "@electric-sql/pglite-pgvector";
+import { PGLiteSocketServer } from "@electric-sql/pglite-socket";
+import * as schema from "@shared/schema";
+import { EMBEDDING_DIMENSIONS, type User } from "@shared/schema";
+import { MemStorage, type IStorage } from "./storage";
+import { DbStorage } from "./db-storage";
+import { createDb } from "./db";
+
+// drizzle-kit's ESM build cannot load under Node, so its CommonJS one is used
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+const HOUR_MS = 60 * 60 * 1000;
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * HOUR_MS);
+
+// An embedding pointing along the given axes, padded to the stored length
+function embedding(...values: number[]): number[] {
+  return [...values, ...new Array(EMBEDDING_DIMENSIONS - values.length).fill(0)];
+}
+
+type Backend = {
+  setup?: () => Promise<void>;
+  teardown?: () => Promise<void>;
+  // Returns a storage with no rows in it
+  create: () => Promise<IStorage>;
+};
+
+const memoryBackend: Backend = {
+  create: async () => new MemStorage(),
+};
+
+// Runs DbStorage against PGlite, an in-process build of Postgres, reached over
+// the wire protocol through createDb like any other server. The schema is
+// created from shared/schema.ts the same way drizzle-kit push would.
+function postgresBackend(): Backend {
+  let server: PGLiteSocketServer;
+  let db: ReturnType<typeof createDb>;
+  let pglite: PGlite;
+
+  return {
+    async setup() {
+      pglite = await PGlite.create({ extensions: { vector } });
+      await pglite.exec("CREATE EXTENSION IF NOT EXISTS vector");
+      for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+        await pglite.exec(statement);
+      }
+
+      server = new PGLiteSocketServer({ db: pglite, port: 0, maxConnections: 20 });
+      await server.start();
+      db = createDb(`postgres://postgres@${server.getServerConn()}/postgres?sslmode=disable`);
+    },
+    async teardown() {
+      await db?.$client.end();
+      await server?.stop();
+      await pglite?.close();
+    },
+    async create() {
+      const { rows } = await pglite.query<{ tablename: string }>("SELECT tablename FROM pg_tables WHERE schemaname = 'public'");
+      await pglite.exec(`TRUNCATE ${rows.map(row => `"${row.tablename}"`).join(", ")} CASCADE`);
+      return new DbStorage(db);
+    },
+  };
+}
+
+describe.each([
+  ["MemStorage", memoryBackend],
+  ["DbStorage", postgresBackend()],
+])("%s", (_name, backend) => {
+  let storage: IStorage;
+  let user: User;
+
+  beforeAll(async () => {
+    await backend.setup?.();
+  }, 120_000);
+
+  afterAll(async () => {
+    await backend.teardown?.();
+  });
+
+  beforeEach(async () => {
+    storage = await backend.create();
+    user = await storage.createUser({ email: "ada@example.com", password: "hash", name: "Ada" });
+  });
+
+  const createDocument = (title = "Onboarding", content = "Welcome to the team") =>
+    storage.createDocument({ title, content, summary: null, tags: ["guide"] }, user.id);
+
+  describe("users", () => {
+    it("creates users with defaults and finds them by id and email", async () => {
+      expect(user).toMatchObject({ role: "user", disabled: false, emailVerified: false });
+      expect((await storage.getUser(user.id))?.email).toBe("ada@example.com");
+      expect((await storage.getUserByEmail("ada@example.com"))?.id).toBe(user.id);
+      expect(await storage.getUserByEmail("nobody@example.com")).toBeUndefined();
+    });
+
+    it("updates users", async () => {
+      const updated = await storage.updateUser(user.id, { role: "admin" });
+      expect(updated?.role).toBe("admin");
+      expect((await storage.getUser(user.id))?.role).toBe("admin");
+      expect(await storage.updateUser("missing", { role: "admin" })).toBeUndefined();
+    });
+  });
+
+  describe("sessions", () => {
+    it("rotates a refresh token only once", async () => {
+      const session = await storage.createSession({ userId: user.id, refreshTokenHash: "a", expiresAt: hoursFromNow(1) });
+
+      const rotated = await storage.rotateSession(session.id, "a", "b", hoursFromNow(2));
+      expect(rotated).toMatchObject({ refreshTokenHash: "b", previousRefreshTokenHash: "a" });
+      expect(await storage.rotateSession(session.id, "a", "c", hoursFromNow(2))).toBeUndefined();
+
+      expect((await storage.getSessionByRefreshTokenHash("a"))?.id).toBe(session.id);
+      expect((await storage.getSessionByRefreshTokenHash("b"))?.id).toBe(session.id);
+    });
+
+    it("revokes sessions and deletes ended ones", async () => {
+      const first = await storage.createSession({ userId: user.id, refreshTokenHash: "a", expiresAt: hoursFromNow(1) });
+      await storage.createSession({ userId: user.id, refreshTokenHash: "b", expiresAt: hoursFromNow(1) });
+      await storage.createSession({ userId: user.id, refreshTokenHash: "c", expiresAt: hoursFromNow(-1) });
+
+      expect(await storage.revokeSession(first.id, new Date())).toBe(true);
+      expect(await storage.revokeSession(first.id, new Date())).toBe(false);
+      expect(await storage.rotateSession(first.id, "a", "d", hoursFromNow(1))).toBeUndefined();
+      expect(await storage.revokeUserSessions(user.id, new Date())).toBe(2);
+
+      expect(await storage.deleteEndedSessions(new Date())).toBe(3);
+      expect(await storage.getSession(first.id)).toBeUndefined();
+    });
+  });
+
+  describe("two-factor", () => {
+    it("uses each time step and recovery code once", async () => {
+      await storage.saveTwoFactor({ userId: user.id, secret: "SECRET", recoveryCodeHashes: ["r1", "r2"] });
+
+      expect(await storage.useTwoFactorStep(user.id, 10)).toBe(true);
+      expect(await storage.useTwoFactorStep(user.id, 10)).toBe(false);
+      expect(await storage.useTwoFactorStep(user.id, 9)).toBe(false);
+      expect(await storage.useTwoFactorStep(user.id, 11)).toBe(true);
+
+      expect(await storage.useRecoveryCode(user.id, "r1")).toBe(true);
+      expect(await storage.useRecoveryCode(user.id, "r1")).toBe(false);
+      expect((await storage.getTwoFactor(user.id))?.recoveryCodeHashes).toEqual(["r2"]);
+    });
+
+    it("replaces the authenticator when another is saved", async () => {
+      await storage.saveTwoFactor({ userId: user.id, secret: "OLD", lastUsedStep: 5 });
+      const saved = await storage.saveTwoFactor({ userId: user.id, secret: "NEW" });
+      expect(saved).toMatchObject({ secret: "NEW", lastUsedStep: null, enabledAt: null });
+
+      expect(await storage.deleteTwoFactor(user.id)).toBe(true);
+      expect(await storage.deleteTwoFactor(user.id)).toBe(false);
+      expect(await storage.useTwoFactorStep(user.id, 1)).toBe(false);
+    });
+  });
+
+  describe("login throttles", () => {
+    it("counts failures within the window and starts over after it", async () => {
+      const start = new Date("2025-01-01T10:00:00Z");
+      const later = new Date("2025-01-01T10:30:00Z");
+      const muchLater = new Date("2025-01-01T12:00:00Z");
+      const windowStart = (now: Date) => new Date(now.getTime() - HOUR_MS);
+
+      expect((await storage.recordLoginFailure("account:a", start, windowStart(start))).failures).toBe(1);
+      const second = await storage.recordLoginFailure("account:a", later, windowStart(later));
+      expect(second).toMatchObject({ failures: 2, firstFailureAt: start, lastFailureAt: later });
+      const restarted = await storage.recordLoginFailure("account:a", muchLater, windowStart(muchLater));
+      expect(restarted).toMatchObject({ failures: 1, firstFailureAt: muchLater });
+    });
+
+    it("starts over once a lock has run out", async () => {
+      const now = new Date();
+      await storage.recordLoginFailure("account:a", now, new Date(0));
+      await storage.lockLoginThrottle("account:a", new Date(now.getTime() + 1000));
+
+      expect((await storage.getLockedLoginThrottles(now)).map(throttle => throttle.key)).toEqual(["account:a"]);
+      const afterLock = new Date(now.getTime() + 2000);
+      expect(await storage.getLockedLoginThrottles(afterLock)).toEqual([]);
+      expect(await storage.recordLoginFailure("account:a", afterLock, new Date(0))).toMatchObject({ failures: 1, lockedUntil: null });
+    });
+
+    it("clears throttles and deletes stale ones", async () => {
+      const old = new Date("2025-01-01T00:00:00Z");
+      await storage.recordLoginFailure("ip:1", old, new Date(0));
+      await storage.recordLoginFailure("ip:2", new Date(), new Date(0));
+
+      expect(await storage.deleteStaleLoginThrottles(hoursFromNow(-1))).toBe(1);
+      expect(await storage.getLoginThrottle("ip:1")).toBeUndefined();
+      expect(await storage.clearLoginThrottle("ip:2")).toBe(true);
+      expect(await storage.clearLoginThrottle("ip:2")).toBe(false);
+      expect(await storage.lockLoginThrottle("ip:2", hoursFromNow(1))).toBeUndefined();
+    });
+  });
+
+  describe("account tokens", () => {
+    it("uses a token once and deletes a user's tokens by purpose", async () => {
+      const token = await storage.createAccountToken({ userId: user.id, purpose: "password_reset", tokenHash: "t1", expiresAt: hoursFromNow(1) });
+      await storage.createAccountToken({ userId: user.id, purpose: "email_verification", tokenHash: "t2", expiresAt: hoursFromNow(1) });
+
+      expect((await storage.getAccountTokenByHash("t1"))?.id).toBe(token.id);
+      expect(await storage.useAccountToken(token.id, new Date())).toBe(true);
+      expect(await storage.useAccountToken(token.id, new Date())).toBe(false);
+
+      expect(await storage.deleteUserAccountTokens(user.id, "password_reset")).toBe(1);
+      expect(await storage.getAccountTokenByHash("t1")).toBeUndefined();
+      expect(await storage.getAccountTokenByHash("t2")).toBeDefined();
+    });
+  });
+
+  describe("documents", () => {
+    it("creates documents and returns them with their author and versions", async () => {
+      const document = await createDocument();
+      expect(document).toMatchObject({ version: 1, summary: null, tags: ["guide"], injectionWarnings: [], deletedAt: null, enrichedVersion: null });
+
+      await storage.createDocumentVersion({ documentId: document.id, title: document.title, content: document.content, version: 1, createdBy: user.id });
+      const details = await storage.getDocument(document.id);
+      expect(details?.createdBy.id).toBe(user.id);
+      expect(details?.versions?.map(version => version.version)).toEqual([1]);
+
+      const documents = await storage.getDocuments();
+      expect(documents.map(doc => doc.id)).toEqual([document.id]);
+      expect(documents[0].createdBy.name).toBe("Ada");
+    });
+
+    it("bumps the version on update and refuses a stale expected version", async () => {
+      const document = await createDocument();
+
+      const updated = await storage.updateDocument(document.id, { content: "Updated" }, 1);
+      expect(updated).toMatchObject({ version: 2, content: "Updated", title: "Onboarding" });
+      expect(await storage.updateDocument(document.id, { content: "Stale" }, 1)).toBeUndefined();
+      expect((await storage.getDocument(document.id))?.content).toBe("Updated");
+
+      expect((await storage.updateDocument(document.id, { title: "Renamed" }))?.version).toBe(3);
+      expect(await storage.updateDocument("missing", { title: "Nope" })).toBeUndefined();
+    });
+
+    it("saves enrichment without a new version, only at the given version", async () => {
+      const document = await createDocument();
+
+      const enriched = await storage.saveDocumentEnrichment(document.id, 1, { summary: "A welcome", summarySource: "ai", enrichedVersion: 1 });
+      expect(enriched).toMatchObject({ version: 1, summary: "A welcome", summarySource: "ai", enrichedVersion: 1, tags: ["guide"] });
+
+      await storage.updateDocument(document.id, { content: "Changed" });
+      expect(await storage.saveDocumentEnrichment(document.id, 1, { summary: "Stale", enrichedVersion: 1 })).toBeUndefined();
+      expect((await storage.getDocument(document.id))?.summary).toBe("A welcome");
+
+      await storage.setDocumentDeleted(document.id, user.id);
+      expect(await storage.saveDocumentEnrichment(document.id, 2, { summary: "Trashed", enrichedVersion: 2 })).toBeUndefined();
+    });
+
+    it("searches titles, content, summaries and tags, ignoring case", async () => {
+      const guide = await createDocument();
+      await storage.createDocument({ title: "Payroll", content: "Salaries are paid monthly", tags: ["finance"] }, user.id);
+
+      expect((await storage.searchDocuments("WELCOME")).map(doc => doc.id)).toEqual([guide.id]);
+      expect((await storage.searchDocuments("guid")).map(doc => doc.id)).toEqual([guide.id]);
+      expect(await storage.searchDocuments("holiday")).toEqual([]);
+    });
+
+    it("moves documents to the trash and back", async () => {
+      const other = await storage.createUser({ email: "bob@example.com", password: "hash", name: "Bob" });
+      const document = await createDocument();
+
+      const trashed = await storage.setDocumentDeleted(document.id, other.id);
+      expect(trashed?.deletedBy).toBe(other.id);
+      expect(trashed?.deletedAt).toBeInstanceOf(Date);
+      expect(await storage.getDocument(document.id)).toBeUndefined();
+      expect(await storage.getDocument(document.id, { includeDeleted: true })).toBeDefined();
+      expect(await storage.getDocuments()).toEqual([]);
+      expect(await storage.searchDocuments("welcome")).toEqual([]);
+
+      const [inTrash] = await storage.getTrashedDocuments();
+      expect(inTrash.id).toBe(document.id);
+      expect(inTrash.createdBy.id).toBe(user.id);
+      expect(inTrash.deletedBy).toEqual({ id: other.id, name: "Bob" });
+
+      const restored = await storage.setDocumentDeleted(document.id, null);
+      expect(restored).toMatchObject({ deletedAt: null, deletedBy: null });
+      expect(await storage.getTrashedDocuments()).toEqual([]);
+    });
+
+    it("deletes a document with its versions, chunks, activities and jobs", async () => {
+      const document = await createDocument();
+      await storage.createDocumentVersion({ documentId: document.id, title: "Onboarding", content: "Welcome", version: 1, createdBy: user.id });
+      await storage.replaceDocumentChunks(document.id, [{ documentId: document.id, version: 1, chunkIndex: 0, content: "Welcome", startOffset: 0, endOffset: 7, embedding: embedding(1) }]);
+      await storage.createActivity({ type: "created", documentId: document.id, userId: user.id, description: "Created" });
+      await storage.createJob({ type: "enrich_document", documentId: document.id, payload: {}, status: "pending" });
+
+      expect(await storage.deleteDocument(document.id)).toBe(true);
+      expect(await storage.deleteDocument(document.id)).toBe(false);
+      expect(await storage.getDocument(document.id, { includeDeleted: true })).toBeUndefined();
+      expect(await storage.getDocumentVersions(document.id)).toEqual([]);
+      expect(await storage.getDocumentChunks(document.id)).toEqual([]);
+      expect(await storage.getRecentActivities()).toEqual([]);
+      expect(await storage.getDocumentJobs(document.id)).toEqual([]);
+    });
+  });
+
+  describe("document versions", () => {
+    it("lists versions newest first", async () => {
+      const document = await createDocument();
+      for (const version of [1, 2, 3]) {
+        await storage.createDocumentVersion({ documentId: document.id, title: "Onboarding", content: `v${version}`, version, createdBy: user.id, aiGenerated: version === 2 });
+      }
+
+      const versions = await storage.getDocumentVersions(document.id);
+      expect(versions.map(version => version.version)).toEqual([3, 2, 1]);
+      expect(versions.map(version => version.aiGenerated)).toEqual([false, true, false]);
+      expect((await storage.getDocumentVersion(versions[2].id))?.content).toBe("v1");
+      expect(versions[0]).toMatchObject({ summary: null, tags: [], changeDescription: null });
+    });
+  });
+
+  describe("document chunks", () => {
+    it("replaces chunks and searches them by embedding and by text, skipping the trash", async () => {
+      const guide = await createDocument();
+      const payroll = await createDocument("Payroll", "Salaries are paid monthly");
+      await storage.replaceDocumentChunks(guide.id, [
+        { documentId: guide.id, version: 1, chunkIndex: 1, content: "Ask your manager for a laptop", startOffset: 20, endOffset: 49, embedding: embedding(0, 1) },
+        { documentId: guide.id, version: 1, chunkIndex: 0, content: "Welcome to the team", startOffset: 0, endOffset: 19, embedding: embedding(1, 0) },
+      ]);
+      await storage.replaceDocumentChunks(payroll.id, [
+        { documentId: payroll.id, version: 1, chunkIndex: 0, content: "Salaries are paid monthly", startOffset: 0, endOffset: 25, embedding: embedding(1, 1) },
+      ]);
+
+      expect((await storage.getDocumentChunks(guide.id)).map(chunk => chunk.chunkIndex)).toEqual([0, 1]);
+
+      const nearest = await storage.searchDocumentChunks(embedding(1, 0), 2);
+      expect(nearest.map(match => match.content)).toEqual(["Welcome to the team", "Salaries are paid monthly"]);
+      expect(nearest[0].similarity).toBeCloseTo(1);
+      expect(nearest[1].similarity).toBeCloseTo(Math.SQRT1_2);
+      expect(nearest[0]).not.toHaveProperty("embedding");
+
+      const [byText] = await storage.searchDocumentChunksByText("laptop", 5);
+      expect(byText.content).toBe("Ask your manager for a laptop");
+      expect(byText.similarity).toBeGreaterThan(0);
+      expect(byText.similarity).toBeLessThan(1);
+      expect(await storage.searchDocumentChunksByText("holiday", 5)).toEqual([]);
+
+      await storage.setDocumentDeleted(guide.id, user.id);
+      expect((await storage.searchDocumentChunks(embedding(1, 0), 5)).map(match => match.documentId)).toEqual([payroll.id]);
+      expect(await storage.searchDocumentChunksByText("laptop", 5)).toEqual([]);
+
+      await storage.replaceDocumentChunks(payroll.id, []);
+      expect(await storage.getDocumentChunks(payroll.id)).toEqual([]);
+    });
+  });
+
+  describe("activities", () => {
+    it("lists document and account activity separately, with the user and document", async () => {
+      const document = await createDocument();
+      await storage.createActivity({ type: "created", documentId: document.id, userId: user.id, description: "Created Onboarding" });
+      await storage.createActivity({ type: "account_locked", documentId: null, userId: user.id, description: "Account locked" });
+
+      const [documentActivity, ...moreDocumentActivity] = await storage.getRecentActivities(10, "document");
+      expect(moreDocumentActivity).toEqual([]);
+      expect(documentActivity).toMatchObject({ type: "created", user: { id: user.id }, document: { id: document.id } });
+
+      const [accountActivity, ...moreAccountActivity] = await storage.getRecentActivities(10, "account");
+      expect(moreAccountActivity).toEqual([]);
+      expect(accountActivity).toMatchObject({ type: "account_locked", user: { id: user.id } });
+      expect(accountActivity.document).toBeFalsy();
+    });
+  });
+
+  describe("conversations", () => {
+    it("keeps messages in order and lists answered questions", async () => {
+      const conversation = await storage.createConversation({ userId: user.id, title: "Laptops" });
+      expect(conversation.shared).toBe(false);
+
+      const since = new Date(Date.now() - 1000);
+      await storage.createConversationMessage({ conversationId: conversation.id, role: "user", content: "How do I get a laptop?", citations: [] });
+      const answer = await storage.createConversationMessage({ conversationId: conversation.id, role: "assistant", content: "Ask your manager", citations: [], model: "local" });
+
+      const messages = await storage.getConversationMessages(conversation.id);
+      expect(messages.map(message => message.role)).toEqual(["user", "assistant"]);
+      expect(messages[1]).toMatchObject({ citations: [], model: "local" });
+
+      const answered = await storage.getAnsweredQuestions(since);
+      expect(answered).toHaveLength(1);
+      expect(answered[0]).toMatchObject({ question: "How do I get a laptop?", answer: { id: answer.id } });
+
+      const updated = await storage.updateConversation(conversation.id, { shared: true });
+      expect(updated?.shared).toBe(true);
+      expect((await storage.getConversations(user.id)).map(item => item.id)).toEqual([conversation.id]);
+    });
+
+    it("keeps one rating per message and detaches feedback when the conversation is deleted", async () => {
+      const conversation = await storage.createConversation({ userId: user.id, title: "Laptops" });
+      const answer = await storage.createConversationMessage({ conversationId: conversation.id, role: "assistant", content: "Ask your manager", citations: [] });
+      const feedback = { messageId: answer.id, userId: user.id, question: "Laptop?", answer: "Ask your manager" };
+
+      const first = await storage.saveAnswerFeedback({ ...feedback, rating: "up" });
+      const second = await storage.saveAnswerFeedback({ ...feedback, rating: "down", comment: "Too vague" });
+      expect(second.id).toBe(first.id);
+      expect(await storage.getAnswerFeedback([answer.id])).toEqual([expect.objectContaining({ rating: "down", comment: "Too vague" })]);
+
+      expect(await storage.deleteConversation(conversation.id)).toBe(true);
+      expect(await storage.getConversation(conversation.id)).toBeUndefined();
+      expect(await storage.getConversationMessages(conversation.id)).toEqual([]);
+      const [kept] = await storage.getAnswerFeedbackSince(new Date(0));
+      expect(kept).toMatchObject({ id: first.id, messageId: null, answer: "Ask your manager" });
+    });
+  });
+
+  describe("jobs", () => {
+    it("claims the pending job that is due soonest and counts the attempt", async () => {
+      const document = await createDocument();
+      const now = new Date();
+      await storage.createJob({ type: "enrich_document", documentId: document.id, payload: {}, status: "pending", runAt: new Date(now.getTime() + 60_000) });
+      const due = await storage.createJob({ type: "enrich_document", documentId: document.id, payload: { userId: user.id }, status: "pending", runAt: new Date(now.getTime() - 1000) });
+
+      const claimed = await storage.claimNextJob(now);
+      expect(claimed).toMatchObject({ id: due.id, status: "running", attempts: 1, payload: { userId: user.id } });
+      expect(await storage.claimNextJob(now)).toBeUndefined();
+
+      expect(await storage.requeueRunningJobs()).toBe(1);
+      expect((await storage.claimNextJob(now))?.attempts).toBe(2);
+    });
+
+    it("lists the latest job per document and deletes old succeeded jobs", async () => {
+      const document = await createDocument();
+      const older = await storage.createJob({ type: "enrich_document", documentId: document.id, payload: {}, status: "pending" });
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const latest = await storage.createJob({ type: "enrich_document", documentId: document.id, payload: {}, status: "pending" });
+
+      expect((await storage.getDocumentJobs(document.id)).map(job => job.id)).toEqual([latest.id, older.id]);
+      expect((await storage.getLatestDocumentJobs("enrich_document")).map(job => job.id)).toEqual([latest.id]);
+      expect(await storage.getLatestDocumentJobs("other")).toEqual([]);
+
+      await storage.updateJob(older.id, { status: "succeeded", finishedAt: hoursFromNow(-2) });
+      await storage.updateJob(latest.id, { status: "succeeded", finishedAt: new Date() });
+      expect(await storage.deleteSucceededJobs(hoursFromNow(-1))).toBe(1);
+      expect((await storage.getDocumentJobs(document.id)).map(job => job.id)).toEqual([latest.id]);
+    });
+  });
+
+  describe("AI usage", () => {
+    it("totals usage since a time, overall, per user and per operation", async () => {
+      const since = new Date(Date.now() - 1000);
+      await storage.recordAIUsage({ userId: user.id, operation: "summarize", model: "m", inputTokens: 100, outputTokens: 10, estimatedCost: 0.5 });
+      await storage.recordAIUsage({ userId: user.id, operation: "summarize", model: "m", inputTokens: 50, outputTokens: 5, estimatedCost: 0.25 });
+      await storage.recordAIUsage({ userId: null, operation: "embed", model: "m", inputTokens: 20, outputTokens: 0, estimatedCost: 0.1 });
+
+      const totals = await storage.getAIUsageTotals(since);
+      expect(totals).toMatchObject({ calls: 3, inputTokens: 170, outputTokens: 15 });
+      expect(totals.estimatedCost).toBeCloseTo(0.85);
+      expect(await storage.getAIUsageTotals(since, user.id)).toMatchObject({ calls: 2, inputTokens: 150 });
+      expect(await storage.getAIUsageTotals(hoursFromNow(1))).toMatchObject({ calls: 0, inputTokens: 0, outputTokens: 0, estimatedCost: 0 });
+
+      const groups = await storage.getAIUsageGroups(since);
+      expect(groups).toHaveLength(2);
+      expect(groups.find(group => group.operation === "summarize")).toMatchObject({ userId: user.id, calls: 2, outputTokens: 15 });
+      expect(groups.find(group => group.operation === "embed")).toMatchObject({ userId: null, calls: 1 });
+    });
+  });
+
+  describe("AI cache", () => {
+    it("never returns expired entries and prunes down to the newest", async () => {
+      const now = new Date();
+      await storage.setAICacheEntry({ key: "expired", operation: "summarize", value: "old", expiresAt: new Date(now.getTime() - 1000) });
+      await storage.setAICacheEntry({ key: "a", operation: "summarize", value: { text: "a" }, expiresAt: hoursFromNow(1) });
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await storage.setAICacheEntry({ key: "b", operation: "summarize", value: { text: "b" }, expiresAt: hoursFromNow(1) });
+
+      expect(await storage.getAICacheEntry("expired", now)).toBeUndefined();
+      expect((await storage.getAICacheEntry("a", now))?.value).toEqual({ text: "a" });
+      expect(await storage.countAICacheEntries()).toBe(3);
+
+      expect(await storage.pruneAICache(now, 1)).toBe(2);
+      expect(await storage.getAICacheEntry("a", now)).toBeUndefined();
+      expect(await storage.getAICacheEntry("b", now)).toBeDefined();
+      expect(await storage.clearAICache()).toBe(1);
+      expect(await storage.countAICacheEntries()).toBe(0);
+    });
+  });
+
+  describe("settings", () => {
+    it("stores and replaces settings", async () => {
+      expect(await storage.getSetting("ai")).toBeUndefined();
+      await storage.setSetting("ai", { dailyTokens: 10 }, user.id);
+      await storage.setSetting("ai", { dailyTokens: 20 }, user.id);
+      expect(await storage.getSetting("ai")).toMatchObject({ value: { dailyTokens: 20 }, updatedBy: user.id });
+    });
+  });
+
+  describe("transactions", () => {
+    it("applies writes together when the callback resolves", async () => {
+      const document = await storage.transaction(async tx => {
+        const created = await tx.createDocument({ title: "Payroll", content: "Monthly" }, user.id);
+        await tx.createDocumentVersion({ documentId: created.id, title: "Payroll", content: "Monthly", version: 1, createdBy: user.id });
+        return created;
+      });
+
+      expect((await storage.getDocument(document.id))?.versions).toHaveLength(1);
+    });
+
+    it("discards writes when the callback throws", async () => {
+      let documentId = "";
+      await expect(storage.transaction(async tx => {
+        documentId = (await tx.createDocument({ title: "Payroll", content: "Monthly" }, user.id)).id;
+        await tx.createUser({ email: "bob@example.com", password: "hash", name: "Bob" });
+        throw new Error("rolled back");
+      })).rejects.toThrow("rolled back");
+
+      expect(await storage.getDocument(documentId, { includeDeleted: true })).toBeUndefined();
+      expect(await storage.getUserByEmail("bob@example.com")).toBeUndefined();
+    });
+  });
+});
@@ -1,40 +1,271 @@
-import { type User, type InsertUser, type Document, type InsertDocument, type DocumentVersion, type InsertDocumentVersion, type Activity, type InsertActivity, type DocumentWithUser, type DocumentWithDetails } from "@shared/schema";
+import { type User, type InsertUser, type Session, type InsertSession, type TwoFactor, type InsertTwoFactor, type LoginThrottle, type AccountToken, type InsertAccountToken, type AccountTokenPurpose, accountActivityTypes, type Document, type DocumentWrite, type DocumentEnrichment, type DocumentVersion, type InsertDocumentVersion, type DocumentChunk, type InsertDocumentChunk, type ChunkMatch, type Activity, type InsertActivity, type Conversation, type InsertConversation, type ConversationMessage, type InsertConversationMessage, type AnsweredQuestion, type AnswerFeedback, type InsertAnswerFeedback, type Job, type InsertJob, type AIUsage, type InsertAIUsage, type AIUsageTotals, type AIUsageGroup, type AICacheEntry, type InsertAICacheEntry, type DocumentWithUser, type DocumentWithDetails, type TrashedDocument, type Setting } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { createDb } from "./db";
+import { DbStorage } from "./db-storage";
+import { bm25, terms } from "./text";
 
 export interface IStorage {
   // User methods
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, user: Partial<Omit<User, "id" | "createdAt" | "updatedAt">>): Promise<User | undefined>;
   
-  // Document methods
+  // Session methods. A session is found by its current or previous refresh
+  // token hash. Rotation only applies while currentHash is still the current
+  // one and the session is not revoked, so a token can be used only once.
+  createSession(session: InsertSession): Promise<Session>;
+  getSession(id: string): Promise<Session | undefined>;
+  getSessionByRefreshTokenHash(hash: string): Promise<Session | undefined>;
+  rotateSession(id: string, currentHash: string, nextHash: string, expiresAt: Date): Promise<Session | undefined>;
+  revokeSession(id: string, revokedAt: Date): Promise<boolean>;
+  revokeUserSessions(userId: string, revokedAt: Date): Promise<number>;
+  // Removes sessions that have expired or been revoked
+  deleteEndedSessions(now: Date): Promise<number>;
+  
+  // Two-factor methods. A user has at most one authenticator; saving another
+  // replaces it. Using a time step or recovery code succeeds only once.
+  getTwoFactor(userId: string): Promise<TwoFactor | undefined>;
+  saveTwoFactor(twoFactor: InsertTwoFactor): Promise<TwoFactor>;
+  updateTwoFactor(userId: string, twoFactor: Partial<InsertTwoFactor>): Promise<TwoFactor | undefined>;
+  deleteTwoFactor(userId: string): Promise<boolean>;
+  useTwoFactorStep(userId: string, step: number): Promise<boolean>;
+  useRecoveryCode(userId: string, hash: string): Promise<boolean>;
+  
+  // Login throttle methods, also used to count password reset requests.
+  // Recording a failure counts it, starting the count over if the first
+  // failure was before windowStart or an earlier lock has run out.
+  getLoginThrottle(key: string): Promise<LoginThrottle | undefined>;
+  recordLoginFailure(key: string, now: Date, windowStart: Date): Promise<LoginThrottle>;
+  lockLoginThrottle(key: string, lockedUntil: Date): Promise<LoginThrottle | undefined>;
+  clearLoginThrottle(key: string): Promise<boolean>;
+  getLockedLoginThrottles(now: Date): Promise<LoginThrottle[]>;
+  // Removes throttles with no failure or lock since the given time
+  deleteStaleLoginThrottles(before: Date): Promise<number>;
+  
+  // Account token methods. Using a token only succeeds once.
+  createAccountToken(token: InsertAccountToken): Promise<AccountToken>;
+  getAccountTokenByHash(hash: string): Promise<AccountToken | undefined>;
+  useAccountToken(id: string, usedAt: Date): Promise<boolean>;
+  deleteUserAccountTokens(userId: string, purpose: AccountTokenPurpose): Promise<number>;
+  
+  // Document methods. Documents in the trash are left out unless asked for.
   getDocuments(): Promise<DocumentWithUser[]>;
-  getDocument(id: string): Promise<DocumentWithDetails | undefined>;
-  createDocument(document: InsertDocument, createdBy: string): Promise<Document>;
-  updateDocument(id: string, document: Partial<InsertDocument>, updatedBy: string): Promise<Document | undefined>;
+  getDocument(id: string, options?: { includeDeleted?: boolean }): Promise<DocumentWithDetails | undefined>;
+  createDocument(document: DocumentWrite, createdBy: string): Promise<Document>;
+  // When expectedVersion is given the update only applies if the stored
+  // document is still at that version; otherwise undefined is returned.
+  updateDocument(id: string, document: Partial<DocumentWrite>, expectedVersion?: number): Promise<Document | undefined>;
+  // Stores a generated summary and tags without a new version, unless the
+  // document has moved on from the given version or is in the trash
+  saveDocumentEnrichment(id: string, version: number, enrichment: DocumentEnrichment): Promise<Document | undefined>;
   deleteDocument(id: string): Promise<boolean>;
   searchDocuments(query: string): Promise<DocumentWithUser[]>;
   
+  // Trash methods. Passing null as deletedBy takes the document out of the trash.
+  getTrashedDocuments(): Promise<TrashedDocument[]>;
+  setDocumentDeleted(id: string, deletedBy: string | null): Promise<Document | undefined>;
+  
   // Document version methods
   getDocumentVersions(documentId: string): Promise<DocumentVersion[]>;
+  getDocumentVersion(id: string): Promise<DocumentVersion | undefined>;
   createDocumentVersion(version: InsertDocumentVersion): Promise<DocumentVersion>;
   
-  // Activity methods
-  getRecentActivities(limit?: number): Promise<(Activity & { user: User; document?: Document })[]>;
+  // Document chunk methods. Searches skip documents in the trash: by embedding
+  // they return the nearest chunks by cosine similarity, by text the best
+  // keyword matches with a relevance between 0 and 1.
+  getDocumentChunks(documentId: string): Promise<DocumentChunk[]>;
+  replaceDocumentChunks(documentId: string, chunks: InsertDocumentChunk[]): Promise<void>;
+  searchDocumentChunks(embedding: number[], limit: number): Promise<ChunkMatch[]>;
+  searchDocumentChunksByText(query: string, limit: number): Promise<ChunkMatch[]>;
+  
+  // Activity methods. Document activity and account activity (see
+  // accountActivityTypes) are listed separately.
+  getRecentActivities(limit?: number, kind?: "document" | "account"): Promise<(Activity & { user: User; document?: Document })[]>;
   createActivity(activity: InsertActivity): Promise<Activity>;
+  
+  // Conversation methods. A user's conversations come most recently active
+  // first, messages oldest first. Updating a conversation marks it active.
+  getConversations(userId: string): Promise<Conversation[]>;
+  getConversation(id: string): Promise<Conversation | undefined>;
+  createConversation(conversation: InsertConversation): Promise<Conversation>;
+  updateConversation(id: string, conversation: Partial<InsertConversation>): Promise<Conversation | undefined>;
+  deleteConversation(id: string): Promise<boolean>;
+  getConversationMessages(conversationId: string): Promise<ConversationMessage[]>;
+  createConversationMessage(message: InsertConversationMessage): Promise<ConversationMessage>;
+  // Assistant messages written since the given time, oldest first
+  getAnsweredQuestions(since: Date): Promise<AnsweredQuestion[]>;
+  
+  // Answer feedback methods. A message has at most one rating; saving another
+  // for it replaces the first.
+  getAnswerFeedback(messageIds: string[]): Promise<AnswerFeedback[]>;
+  getAnswerFeedbackSince(since: Date): Promise<AnswerFeedback[]>;
+  saveAnswerFeedback(feedback: InsertAnswerFeedback): Promise<AnswerFeedback>;
+  
+  // Job methods. claimNextJob marks the pending job that is due soonest as
+  // running and counts the attempt; it returns undefined when none is due.
+  createJob(job: InsertJob): Promise<Job>;
+  getDocumentJobs(documentId: string): Promise<Job[]>;
+  // The most recent job of the type for each document
+  getLatestDocumentJobs(type: string): Promise<Job[]>;
+  claimNextJob(now: Date): Promise<Job | undefined>;
+  updateJob(id: string, job: Partial<Omit<Job, "id" | "createdAt">>): Promise<Job | undefined>;
+  // Puts jobs left running by a previous process back in the queue
+  requeueRunningJobs(): Promise<number>;
+  deleteSucceededJobs(finishedBefore: Date): Promise<number>;
+  
+  // AI usage methods. Totals cover calls made since the given time, by one
+  // user when userId is given.
+  recordAIUsage(usage: InsertAIUsage): Promise<AIUsage>;
+  getAIUsageTotals(since: Date, userId?: string): Promise<AIUsageTotals>;
+  getAIUsageGroups(since: Date): Promise<AIUsageGroup[]>;
+  
+  // AI cache methods. Expired entries are never returned; pruneAICache
+  // deletes them and then the oldest entries beyond maxEntries.
+  getAICacheEntry(key: string, now: Date): Promise<AICacheEntry | undefined>;
+  setAICacheEntry(entry: InsertAICacheEntry): Promise<AICacheEntry>;
+  countAICacheEntries(): Promise<number>;
+  pruneAICache(now: Date, maxEntries: number): Promise<number>;
+  clearAICache(): Promise<number>;
+  
+  // Setting methods
+  getSetting(key: string): Promise<Setting | undefined>;
+  setSetting(key: string, value: unknown, updatedBy: string): Promise<Setting>;
+
+  // Runs fn against a transactional view of the storage. Writes made through
+  // tx become visible together when fn resolves and are discarded if it throws.
+  transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T>;
+}
+
+type MemRecords = {
+  users: User;
+  sessions: Session;
+  twoFactor: TwoFactor;
+  loginThrottles: LoginThrottle;
+  accountTokens: AccountToken;
+  documents: Document;
+  documentVersions: DocumentVersion;
+  documentChunks: DocumentChunk;
+  activities: Activity;
+  conversations: Conversation;
+  conversationMessages: ConversationMessage;
+  answerFeedback: AnswerFeedback;
+  jobs: Job;
+  aiUsage: AIUsage;
+  aiCacheEntries: AICacheEntry;
+  settings: Setting;
+};
+
+type MemTable = keyof MemRecords;
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private sessions: Map<string, Session>;
+  private twoFactor: Map<string, TwoFactor>;
+  private loginThrottles: Map<string, LoginThrottle>;
+  private accountTokens: Map<string, AccountToken>;
   private documents: Map<string, Document>;
   private documentVersions: Map<string, DocumentVersion>;
+  private documentChunks: Map<string, DocumentChunk>;
   private activities: Map<string, Activity>;
+  private conversations: Map<string, Conversation>;
+  private conversationMessages: Map<string, ConversationMessage>;
+  private answerFeedback: Map<string, AnswerFeedback>;
+  private jobs: Map<string, Job>;
+  private aiUsage: Map<string, AIUsage>;
+  private aiCacheEntries: Map<string, AICacheEntry>;
+  private settings: Map<string, Setting>;
+
+  private static readonly tables: MemTable[] = ["users", "sessions", "twoFactor", "loginThrottles", "accountTokens", "documents", "documentVersions", "documentChunks", "activities", "conversations", "conversationMessages", "answerFeedback", "jobs", "aiUsage", "aiCacheEntries", "settings"];
+
+  // Keys written per table while this instance is a transaction fork
+  private writes: Map<MemTable, Set<string>> | null = null;
+  private transactionQueue: Promise<unknown> = Promise.resolve();
 
   constructor() {
     this.users = new Map();
+    this.sessions = new Map();
+    this.twoFactor = new Map();
+    this.loginThrottles = new Map();
+    this.accountTokens = new Map();
     this.documents = new Map();
     this.documentVersions = new Map();
+    this.documentChunks = new Map();
     this.activities = new Map();
+    this.conversations = new Map();
+    this.conversationMessages = new Map();
+    this.answerFeedback = new Map();
+    this.jobs = new Map();
+    this.aiUsage = new Map();
+    this.aiCacheEntries = new Map();
+    this.settings = new Map();
+  }
+
+  private put<K extends MemTable>(table: K, id: string, value: MemRecords[K]) {
+    (this[table] as Map<string, unknown>).set(id, value);
+    this.track(table, id);
+  }
+
+  private remove(table: MemTable, id: string) {
+    this[table].delete(id);
+    this.track(table, id);
+  }
+
+  private track(table: MemTable, id: string) {
+    if (!this.writes) return;
+    const keys = this.writes.get(table) ?? new Set<string>();
+    keys.add(id);
+    this.writes.set(table, keys);
+  }
+
+  private fork(): MemStorage {
+    const tx = new MemStorage();
+    for (const table of MemStorage.tables) {
+      (tx[table] as Map<string, unknown>) = new Map(this[table] as Map<string, unknown>);
+    }
+    tx.writes = new Map();
+    return tx;
+  }
+
+  private commit(tx: MemStorage) {
+    for (const [table, keys] of Array.from(tx.writes!.entries())) {
+      const source = tx[table] as Map<string, unknown>;
+      for (const id of Array.from(keys)) {
+        if (source.has(id)) {
+          this.put(table, id, source.get(id) as never);
+        } else {
+          this.remove(table, id);
+        }
+      }
+    }
+  }
+
+  // Transactions run one at a time against a copy of the tables; only the keys
+  // the transaction wrote are applied back, so plain writes made concurrently
+  // outside a transaction are preserved.
+  async transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    const run = async () => {
+      const tx = this.fork();
+      const result = await fn(tx);
+      this.commit(tx);
+      return result;
+    };
+
+    const result = this.transactionQueue.then(run, run);
+    this.transactionQueue = result.catch(() => undefined);
+    return result;
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -51,17 +282,216 @@ export class MemStorage implements IStorage {
     const user: User = { 
       ...insertUser,
       role: insertUser.role || "user",
+      disabled: false,
+      emailVerified: false,
       id, 
       createdAt: now, 
       updatedAt: now 
     };
-    this.users.set(id, user);
+    this.put("users", id, user);
     return user;
   }
 
+  async updateUser(id: string, updates: Partial<Omit<User, "id" | "createdAt" | "updatedAt">>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    const updated: User = { ...user, ...updates, updatedAt: new Date() };
+    this.put("users", id, updated);
+    return updated;
+  }
+
+  async createSession(insertSession: InsertSession): Promise<Session> {
+    const id = randomUUID();
+    const now = new Date();
+    const session: Session = {
+      ...insertSession,
+      previousRefreshTokenHash: insertSession.previousRefreshTokenHash || null,
+      userAgent: insertSession.userAgent || null,
+      ipAddress: insertSession.ipAddress || null,
+      id,
+      createdAt: now,
+      lastUsedAt: now,
+      revokedAt: null,
+    };
+    this.put("sessions", id, session);
+    return session;
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    return this.sessions.get(id);
+  }
+
+  async getSessionByRefreshTokenHash(hash: string): Promise<Session | undefined> {
+    return Array.from(this.sessions.values())
+      .find(session => session.refreshTokenHash === hash || session.previousRefreshTokenHash === hash);
+  }
+
+  async rotateSession(id: string, currentHash: string, nextHash: string, expiresAt: Date): Promise<Session | undefined> {
+    const session = this.sessions.get(id);
+    if (!session || session.refreshTokenHash !== currentHash || session.revokedAt) return undefined;
+
+    const rotated: Session = {
+      ...session,
+      refreshTokenHash: nextHash,
+      previousRefreshTokenHash: currentHash,
+      lastUsedAt: new Date(),
+      expiresAt,
+    };
+    this.put("sessions", id, rotated);
+    return rotated;
+  }
+
+  async revokeSession(id: string, revokedAt: Date): Promise<boolean> {
+    const session = this.sessions.get(id);
+    if (!session || session.revokedAt) return false;
+    this.put("sessions", id, { ...session, revokedAt });
+    return true;
+  }
+
+  async revokeUserSessions(userId: string, revokedAt: Date): Promise<number> {
+    let revoked = 0;
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.userId === userId && (await this.revokeSession(session.id, revokedAt))) revoked++;
+    }
+    return revoked;
+  }
+
+  async deleteEndedSessions(now: Date): Promise<number> {
+    let deleted = 0;
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.expiresAt > now && !session.revokedAt) continue;
+      this.remove("sessions", session.id);
+      deleted++;
+    }
+    return deleted;
+  }
+
+  async getTwoFactor(userId: string): Promise<TwoFactor | undefined> {
+    return this.twoFactor.get(userId);
+  }
+
+  async saveTwoFactor(insertTwoFactor: InsertTwoFactor): Promise<TwoFactor> {
+    const now = new Date();
+    const twoFactor: TwoFactor = {
+      ...insertTwoFactor,
+      enabledAt: insertTwoFactor.enabledAt || null,
+      lastUsedStep: insertTwoFactor.lastUsedStep ?? null,
+      recoveryCodeHashes: insertTwoFactor.recoveryCodeHashes || [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.put("twoFactor", twoFactor.userId, twoFactor);
+    return twoFactor;
+  }
+
+  async updateTwoFactor(userId: string, updates: Partial<InsertTwoFactor>): Promise<TwoFactor | undefined> {
+    const twoFactor = this.twoFactor.get(userId);
+    if (!twoFactor) return undefined;
+    const updated: TwoFactor = { ...twoFactor, ...updates, userId, updatedAt: new Date() };
+    this.put("twoFactor", userId, updated);
+    return updated;
+  }
+
+  async deleteTwoFactor(userId: string): Promise<boolean> {
+    if (!this.twoFactor.has(userId)) return false;
+    this.remove("twoFactor", userId);
+    return true;
+  }
+
+  async useTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const twoFactor = this.twoFactor.get(userId);
+    if (!twoFactor || (twoFactor.lastUsedStep !== null && twoFactor.lastUsedStep >= step)) return false;
+    this.put("twoFactor", userId, { ...twoFactor, lastUsedStep: step, updatedAt: new Date() });
+    return true;
+  }
+
+  async useRecoveryCode(userId: string, hash: string): Promise<boolean> {
+    const twoFactor = this.twoFactor.get(userId);
+    if (!twoFactor || !twoFactor.recoveryCodeHashes.includes(hash)) return false;
+    this.put("twoFactor", userId, {
+      ...twoFactor,
+      recoveryCodeHashes: twoFactor.recoveryCodeHashes.filter(codeHash => codeHash !== hash),
+      updatedAt: new Date(),
+    });
+    return true;
+  }
+
+  async getLoginThrottle(key: string): Promise<LoginThrottle | undefined> {
+    return this.loginThrottles.get(key);
+  }
+
+  async recordLoginFailure(key: string, now: Date, windowStart: Date): Promise<LoginThrottle> {
+    const throttle = this.loginThrottles.get(key);
+    const restart = !throttle || (throttle.lockedUntil ? throttle.lockedUntil <= now : throttle.firstFailureAt < windowStart);
+    const recorded: LoginThrottle = restart
+      ? { key, failures: 1, firstFailureAt: now, lastFailureAt: now, lockedUntil: null }
+      : { ...throttle!, failures: throttle!.failures + 1, lastFailureAt: now };
+    this.put("loginThrottles", key, recorded);
+    return recorded;
+  }
+
+  async lockLoginThrottle(key: string, lockedUntil: Date): Promise<LoginThrottle | undefined> {
+    const throttle = this.loginThrottles.get(key);
+    if (!throttle) return undefined;
+    const locked: LoginThrottle = { ...throttle, lockedUntil };
+    this.put("loginThrottles", key, locked);
+    return locked;
+  }
+
+  async clearLoginThrottle(key: string): Promise<boolean> {
+    if (!this.loginThrottles.has(key)) return false;
+    this.remove("loginThrottles", key);
+    return true;
+  }
+
+  async getLockedLoginThrottles(now: Date): Promise<LoginThrottle[]> {
+    return Array.from(this.loginThrottles.values())
+      .filter(throttle => throttle.lockedUntil && throttle.lockedUntil > now)
+      .sort((a, b) => b.lockedUntil!.getTime() - a.lockedUntil!.getTime());
+  }
+
+  async deleteStaleLoginThrottles(before: Date): Promise<number> {
+    let deleted = 0;
+    for (const throttle of Array.from(this.loginThrottles.values())) {
+      if (throttle.lastFailureAt >= before || (throttle.lockedUntil && throttle.lockedUntil >= before)) continue;
+      this.remove("loginThrottles", throttle.key);
+      deleted++;
+    }
+    return deleted;
+  }
+
+  async createAccountToken(insertToken: InsertAccountToken): Promise<AccountToken> {
+    const id = randomUUID();
+    const token: AccountToken = { ...insertToken, id, createdAt: new Date(), usedAt: null };
+    this.put("accountTokens", id, token);
+    return token;
+  }
+
+  async getAccountTokenByHash(hash: string): Promise<AccountToken | undefined> {
+    return Array.from(this.accountTokens.values()).find(token => token.tokenHash === hash);
+  }
+
+  async useAccountToken(id: string, usedAt: Date): Promise<boolean> {
+    const token = this.accountTokens.get(id);
+    if (!token || token.usedAt) return false;
+    this.put("accountTokens", id, { ...token, usedAt });
+    return true;
+  }
+
+  async deleteUserAccountTokens(userId: string, purpose: AccountTokenPurpose): Promise<number> {
+    let deleted = 0;
+    for (const token of Array.from(this.accountTokens.values())) {
+      if (token.userId !== userId || token.purpose !== purpose) continue;
+      this.remove("accountTokens", token.id);
+      deleted++;
+    }
+    return deleted;
+  }
+
   async getDocuments(): Promise<DocumentWithUser[]> {
     const docs: DocumentWithUser[] = [];
     for (const doc of Array.from(this.documents.values())) {
+      if (doc.deletedAt) continue;
       const user = await this.getUser(doc.createdBy);
       if (user) {
         docs.push({ ...doc, createdBy: user });
@@ -70,9 +500,10 @@ export class MemStorage implements IStorage {
     return docs.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
   }
 
-  async getDocument(id: string): Promise<DocumentWithDetails | undefined> {
+  async getDocument(id: string, options: { includeDeleted?: boolean } = {}): Promise<DocumentWithDetails | undefined> {
     const doc = this.documents.get(id);
     if (!doc) return undefined;
+    if (doc.deletedAt && !options.includeDeleted) return undefined;
     
     const user = await this.getUser(doc.createdBy);
     if (!user) return undefined;
@@ -81,47 +512,33 @@ export class MemStorage implements IStorage {
     return { ...doc, createdBy: user, versions };
   }
 
-  async createDocument(insertDocument: InsertDocument, createdBy: string): Promise<Document> {
+  async createDocument(insertDocument: DocumentWrite, createdBy: string): Promise<Document> {
     const id = randomUUID();
     const now = new Date();
     const document: Document = {
       ...insertDocument,
       summary: insertDocument.summary || null,
       tags: insertDocument.tags || [],
+      injectionWarnings: insertDocument.injectionWarnings || [],
+      summarySource: insertDocument.summarySource || null,
+      tagsSource: insertDocument.tagsSource || null,
+      enrichedVersion: null,
       id,
       createdBy,
       createdAt: now,
       updatedAt: now,
       version: 1,
+      deletedAt: null,
+      deletedBy: null,
     };
-    this.documents.set(id, document);
-    
-    // Create initial version
-    await this.createDocumentVersion({
-      documentId: id,
-      title: document.title,
-      content: document.content,
-      summary: document.summary,
-      tags: document.tags,
-      version: 1,
-      createdBy,
-      changeDescription: "Initial version",
-    });
-    
-    // Create activity
-    await this.createActivity({
-      type: "created",
-      documentId: id,
-      userId: createdBy,
-      description: `Created document "${document.title}"`,
-    });
-    
+    this.put("documents", id, document);
     return document;
   }
 
-  async updateDocument(id: string, updates: Partial<InsertDocument>, updatedBy: string): Promise<Document | undefined> {
+  async updateDocument(id: string, updates: Partial<DocumentWrite>, expectedVersion?: number): Promise<Document | undefined> {
     const doc = this.documents.get(id);
     if (!doc) return undefined;
+    if (expectedVersion !== undefined && doc.version !== expectedVersion) return undefined;
     
     const now = new Date();
     const newVersion = doc.version + 1;
@@ -132,31 +549,19 @@ export class MemStorage implements IStorage {
       version: newVersion,
     };
     
-    this.documents.set(id, updatedDocument);
-    
-    // Create new version
-    await this.createDocumentVersion({
-      documentId: id,
-      title: updatedDocument.title,
-      content: updatedDocument.content,
-      summary: updatedDocument.summary,
-      tags: updatedDocument.tags,
-      version: newVersion,
-      createdBy: updatedBy,
-      changeDescription: "Document updated",
-    });
-    
-    // Create activity
-    await this.createActivity({
-      type: "updated",
-      documentId: id,
-      userId: updatedBy,
-      description: `Updated document "${updatedDocument.title}"`,
-    });
-    
+    this.put("documents", id, updatedDocument);
     return updatedDocument;
   }
 
+  async saveDocumentEnrichment(id: string, version: number, enrichment: DocumentEnrichment): Promise<Document | undefined> {
+    const doc = this.documents.get(id);
+    if (!doc || doc.deletedAt || doc.version !== version) return undefined;
+
+    const enrichedDocument: Document = { ...doc, ...enrichment };
+    this.put("documents", id, enrichedDocument);
+    return enrichedDocument;
+  }
+
   async deleteDocument(id: string): Promise<boolean> {
     const doc = this.documents.get(id);
     if (!doc) return false;
@@ -164,18 +569,32 @@ export class MemStorage implements IStorage {
     // Delete document versions
     for (const [versionId, version] of Array.from(this.documentVersions.entries())) {
       if (version.documentId === id) {
-        this.documentVersions.delete(versionId);
+        this.remove("documentVersions", versionId);
+      }
+    }
+    
+    // Delete chunks
+    for (const [chunkId, chunk] of Array.from(this.documentChunks.entries())) {
+      if (chunk.documentId === id) {
+        this.remove("documentChunks", chunkId);
       }
     }
     
     // Delete activities
     for (const [activityId, activity] of Array.from(this.activities.entries())) {
       if (activity.documentId === id) {
-        this.activities.delete(activityId);
+        this.remove("activities", activityId);
       }
     }
     
-    this.documents.delete(id);
+    // Delete jobs
+    for (const [jobId, job] of Array.from(this.jobs.entries())) {
+      if (job.documentId === id) {
+        this.remove("jobs", jobId);
+      }
+    }
+    
+    this.remove("documents", id);
     return true;
   }
 
@@ -191,12 +610,42 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getTrashedDocuments(): Promise<TrashedDocument[]> {
+    const docs: TrashedDocument[] = [];
+    for (const doc of Array.from(this.documents.values())) {
+      if (!doc.deletedAt) continue;
+      const user = await this.getUser(doc.createdBy);
+      const deletedBy = doc.deletedBy ? await this.getUser(doc.deletedBy) : undefined;
+      if (user) {
+        docs.push({ ...doc, createdBy: user, deletedBy: deletedBy ? { id: deletedBy.id, name: deletedBy.name } : null });
+      }
+    }
+    return docs.sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+  }
+
+  async setDocumentDeleted(id: string, deletedBy: string | null): Promise<Document | undefined> {
+    const doc = this.documents.get(id);
+    if (!doc) return undefined;
+
+    const updatedDocument: Document = {
+      ...doc,
+      deletedAt: deletedBy ? new Date() : null,
+      deletedBy,
+    };
+    this.put("documents", id, updatedDocument);
+    return updatedDocument;
+  }
+
   async getDocumentVersions(documentId: string): Promise<DocumentVersion[]> {
     return Array.from(this.documentVersions.values())
       .filter(version => version.documentId === documentId)
       .sort((a, b) => b.version - a.version);
   }
 
+  async getDocumentVersion(id: string): Promise<DocumentVersion | undefined> {
+    return this.documentVersions.get(id);
+  }
+
   async createDocumentVersion(insertVersion: InsertDocumentVersion): Promise<DocumentVersion> {
     const id = randomUUID();
     const now = new Date();
@@ -205,15 +654,57 @@ export class MemStorage implements IStorage {
       summary: insertVersion.summary || null,
       tags: insertVersion.tags || [],
       changeDescription: insertVersion.changeDescription || null,
+      aiGenerated: insertVersion.aiGenerated ?? false,
       id,
       createdAt: now,
     };
-    this.documentVersions.set(id, version);
+    this.put("documentVersions", id, version);
     return version;
   }
 
-  async getRecentActivities(limit = 10): Promise<(Activity & { user: User; document?: Document })[]> {
+  async getDocumentChunks(documentId: string): Promise<DocumentChunk[]> {
+    return Array.from(this.documentChunks.values())
+      .filter(chunk => chunk.documentId === documentId)
+      .sort((a, b) => a.chunkIndex - b.chunkIndex);
+  }
+
+  async replaceDocumentChunks(documentId: string, chunks: InsertDocumentChunk[]): Promise<void> {
+    for (const chunk of await this.getDocumentChunks(documentId)) {
+      this.remove("documentChunks", chunk.id);
+    }
+    for (const insertChunk of chunks) {
+      const id = randomUUID();
+      this.put("documentChunks", id, { ...insertChunk, documentId, id });
+    }
+  }
+
+  async searchDocumentChunks(embedding: number[], limit: number): Promise<ChunkMatch[]> {
+    const matches: ChunkMatch[] = [];
+    for (const { embedding: vector, ...chunk } of Array.from(this.documentChunks.values())) {
+      if (this.documents.get(chunk.documentId)?.deletedAt !== null) continue;
+      matches.push({ ...chunk, similarity: cosineSimilarity(embedding, vector) });
+    }
+    return matches
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  async searchDocumentChunksByText(query: string, limit: number): Promise<ChunkMatch[]> {
+    const chunks = Array.from(this.documentChunks.values())
+      .filter(chunk => this.documents.get(chunk.documentId)?.deletedAt === null);
+    const scores = bm25(Array.from(new Set(terms(query))), chunks.map(chunk => terms(chunk.content)));
+
+    return chunks
+      .map(({ embedding, ...chunk }, index) => ({ ...chunk, similarity: scores[index] / (scores[index] + 1) }))
+      .filter(match => match.similarity > 0)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  async getRecentActivities(limit = 10, kind: "document" | "account" = "document"): Promise<(Activity & { user: User; document?: Document })[]> {
+    const accountTypes: readonly string[] = accountActivityTypes;
     const activities = Array.from(this.activities.values())
+      .filter(activity => accountTypes.includes(activity.type) === (kind === "account"))
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
       .slice(0, limit);
     
@@ -237,9 +728,321 @@ export class MemStorage implements IStorage {
       id,
       createdAt: now,
     };
-    this.activities.set(id, activity);
+    this.put("activities", id, activity);
     return activity;
   }
+
+  async getConversations(userId: string): Promise<Conversation[]> {
+    return Array.from(this.conversations.values())
+      .filter(conversation => conversation.userId === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async getConversation(id: string): Promise<Conversation | undefined> {
+    return this.conversations.get(id);
+  }
+
+  async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
+    const id = randomUUID();
+    const now = new Date();
+    const conversation: Conversation = {
+      ...insertConversation,
+      shared: insertConversation.shared ?? false,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.put("conversations", id, conversation);
+    return conversation;
+  }
+
+  async updateConversation(id: string, updates: Partial<InsertConversation>): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(id);
+    if (!conversation) return undefined;
+
+    const updatedConversation: Conversation = { ...conversation, ...updates, updatedAt: new Date() };
+    this.put("conversations", id, updatedConversation);
+    return updatedConversation;
+  }
+
+  async deleteConversation(id: string): Promise<boolean> {
+    if (!this.conversations.has(id)) return false;
+
+    for (const [messageId, message] of Array.from(this.conversationMessages.entries())) {
+      if (message.conversationId === id) {
+        this.remove("conversationMessages", messageId);
+        this.detachAnswerFeedback(messageId);
+      }
+    }
+
+    this.remove("conversations", id);
+    return true;
+  }
+
+  async getConversationMessages(conversationId: string): Promise<ConversationMessage[]> {
+    // Map iteration keeps insertion order, which breaks ties between messages
+    // created in the same millisecond
+    return Array.from(this.conversationMessages.values())
+      .filter(message => message.conversationId === conversationId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createConversationMessage(insertMessage: InsertConversationMessage): Promise<ConversationMessage> {
+    const id = randomUUID();
+    const message: ConversationMessage = {
+      ...insertMessage,
+      citations: insertMessage.citations || [],
+      model: insertMessage.model || null,
+      id,
+      createdAt: new Date(),
+    };
+    this.put("conversationMessages", id, message);
+    return message;
+  }
+
+  async getAnsweredQuestions(since: Date): Promise<AnsweredQuestion[]> {
+    const answered: AnsweredQuestion[] = [];
+    for (const conversation of Array.from(this.conversations.values())) {
+      let question: string | undefined;
+      for (const message of await this.getConversationMessages(conversation.id)) {
+        if (message.role === "user") {
+          question = message.content;
+        } else if (question !== undefined && message.createdAt >= since) {
+          answered.push({ question, answer: message });
+        }
+      }
+    }
+    return answered.sort((a, b) => a.answer.createdAt.getTime() - b.answer.createdAt.getTime());
+  }
+
+  async getAnswerFeedback(messageIds: string[]): Promise<AnswerFeedback[]> {
+    const ids = new Set(messageIds);
+    return Array.from(this.answerFeedback.values())
+      .filter(feedback => feedback.messageId !== null && ids.has(feedback.messageId));
+  }
+
+  async getAnswerFeedbackSince(since: Date): Promise<AnswerFeedback[]> {
+    return Array.from(this.answerFeedback.values())
+      .filter(feedback => feedback.updatedAt >= since)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async saveAnswerFeedback(insertFeedback: InsertAnswerFeedback): Promise<AnswerFeedback> {
+    const existing = insertFeedback.messageId
+      ? Array.from(this.answerFeedback.values()).find(feedback => feedback.messageId === insertFeedback.messageId)
+      : undefined;
+    const now = new Date();
+    const feedback: AnswerFeedback = {
+      ...insertFeedback,
+      messageId: insertFeedback.messageId || null,
+      comment: insertFeedback.comment || null,
+      citedDocumentIds: insertFeedback.citedDocumentIds || [],
+      model: insertFeedback.model || null,
+      id: existing?.id ?? randomUUID(),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.put("answerFeedback", feedback.id, feedback);
+    return feedback;
+  }
+
+  // Feedback keeps its copy of the answer when the message goes away
+  private detachAnswerFeedback(messageId: string) {
+    for (const feedback of Array.from(this.answerFeedback.values())) {
+      if (feedback.messageId === messageId) {
+        this.put("answerFeedback", feedback.id, { ...feedback, messageId: null });
+      }
+    }
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const id = randomUUID();
+    const now = new Date();
+    const job: Job = {
+      ...insertJob,
+      documentId: insertJob.documentId || null,
+      payload: insertJob.payload || {},
+      status: insertJob.status || "pending",
+      attempts: insertJob.attempts ?? 0,
+      maxAttempts: insertJob.maxAttempts ?? 5,
+      runAt: insertJob.runAt || now,
+      lastError: insertJob.lastError || null,
+      finishedAt: insertJob.finishedAt || null,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.put("jobs", id, job);
+    return job;
+  }
+
+  async getDocumentJobs(documentId: string): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.documentId === documentId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getLatestDocumentJobs(type: string): Promise<Job[]> {
+    const latest = new Map<string, Job>();
+    // Later insertions win ties between jobs created in the same millisecond
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.type !== type || !job.documentId) continue;
+      const current = latest.get(job.documentId);
+      if (!current || job.createdAt >= current.createdAt) latest.set(job.documentId, job);
+    }
+    return Array.from(latest.values());
+  }
+
+  async claimNextJob(now: Date): Promise<Job | undefined> {
+    const [next] = Array.from(this.jobs.values())
+      .filter(job => job.status === "pending" && job.runAt <= now)
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime());
+    if (!next) return undefined;
+
+    const job: Job = { ...next, status: "running", attempts: next.attempts + 1, updatedAt: now };
+    this.put("jobs", job.id, job);
+    return job;
+  }
+
+  async updateJob(id: string, updates: Partial<Omit<Job, "id" | "createdAt">>): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob: Job = { ...job, ...updates, updatedAt: new Date() };
+    this.put("jobs", id, updatedJob);
+    return updatedJob;
+  }
+
+  async requeueRunningJobs(): Promise<number> {
+    let requeued = 0;
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.status !== "running") continue;
+      await this.updateJob(job.id, { status: "pending" });
+      requeued++;
+    }
+    return requeued;
+  }
+
+  async deleteSucceededJobs(finishedBefore: Date): Promise<number> {
+    let deleted = 0;
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.status !== "succeeded" || !job.finishedAt || job.finishedAt >= finishedBefore) continue;
+      this.remove("jobs", job.id);
+      deleted++;
+    }
+    return deleted;
+  }
+
+  async recordAIUsage(insertUsage: InsertAIUsage): Promise<AIUsage> {
+    const id = randomUUID();
+    const usage: AIUsage = {
+      ...insertUsage,
+      userId: insertUsage.userId || null,
+      id,
+      createdAt: new Date(),
+    };
+    this.put("aiUsage", id, usage);
+    return usage;
+  }
+
+  private aiUsageSince(since: Date): AIUsage[] {
+    return Array.from(this.aiUsage.values()).filter(usage => usage.createdAt >= since);
+  }
+
+  private static sumAIUsage(usages: AIUsage[]): AIUsageTotals {
+    return {
+      calls: usages.length,
+      inputTokens: usages.reduce((sum, usage) => sum + usage.inputTokens, 0),
+      outputTokens: usages.reduce((sum, usage) => sum + usage.outputTokens, 0),
+      estimatedCost: usages.reduce((sum, usage) => sum + usage.estimatedCost, 0),
+    };
+  }
+
+  async getAIUsageTotals(since: Date, userId?: string): Promise<AIUsageTotals> {
+    return MemStorage.sumAIUsage(
+      this.aiUsageSince(since).filter(usage => userId === undefined || usage.userId === userId),
+    );
+  }
+
+  async getAIUsageGroups(since: Date): Promise<AIUsageGroup[]> {
+    const groups = new Map<string, AIUsage[]>();
+    for (const usage of this.aiUsageSince(since)) {
+      const key = JSON.stringify([usage.userId, usage.operation]);
+      groups.set(key, [...(groups.get(key) || []), usage]);
+    }
+    return Array.from(groups.values()).map(usages => ({
+      userId: usages[0].userId,
+      operation: usages[0].operation,
+      ...MemStorage.sumAIUsage(usages),
+    }));
+  }
+
+  async getAICacheEntry(key: string, now: Date): Promise<AICacheEntry | undefined> {
+    const entry = this.aiCacheEntries.get(key);
+    return entry && entry.expiresAt > now ? entry : undefined;
+  }
+
+  async setAICacheEntry(insertEntry: InsertAICacheEntry): Promise<AICacheEntry> {
+    const entry: AICacheEntry = { ...insertEntry, value: insertEntry.value ?? null, createdAt: new Date() };
+    this.put("aiCacheEntries", entry.key, entry);
+    return entry;
+  }
+
+  async countAICacheEntries(): Promise<number> {
+    return this.aiCacheEntries.size;
+  }
+
+  async pruneAICache(now: Date, maxEntries: number): Promise<number> {
+    const entries = Array.from(this.aiCacheEntries.values());
+    const live = entries
+      .filter(entry => entry.expiresAt > now)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    const keep = new Set(live.slice(0, maxEntries).map(entry => entry.key));
+
+    let deleted = 0;
+    for (const entry of entries) {
+      if (keep.has(entry.key)) continue;
+      this.remove("aiCacheEntries", entry.key);
+      deleted++;
+    }
+    return deleted;
+  }
+
+  async clearAICache(): Promise<number> {
+    const deleted = this.aiCacheEntries.size;
+    for (const key of Array.from(this.aiCacheEntries.keys())) {
+      this.remove("aiCacheEntries", key);
+    }
+    return deleted;
+  }
+
+  async getSetting(key: string): Promise<Setting | undefined> {
+    return this.settings.get(key);
+  }
+
+  async setSetting(key: string, value: unknown, updatedBy: string): Promise<Setting> {
+    const setting: Setting = { key, value, updatedBy, updatedAt: new Date() };
+    this.put("settings", key, setting);
+    return setting;
+  }
+}
+
+// STORAGE_DRIVER selects the backend explicitly ("postgres" or "memory");
+// otherwise Postgres is used whenever DATABASE_URL is configured.
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  if (driver === "postgres") {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("DATABASE_URL must be set when STORAGE_DRIVER is postgres");
+    }
+    return new DbStorage(createDb(process.env.DATABASE_URL));
+  }
+
+  if (driver !== "memory") {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+  }
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
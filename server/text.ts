@@ -0,0 +1,83 @@
+// Tokenising and lexical scoring shared by the local AI provider and the
+// in-memory chunk search.
+
+const STOP_WORDS = new Set([
+  "a", "about", "above", "after", "again", "all", "also", "am", "an", "and", "any", "are", "as", "at",
+  "be", "because", "been", "before", "being", "below", "between", "both", "but", "by",
+  "can", "could", "did", "do", "does", "doing", "down", "during", "each", "few", "for", "from", "further",
+  "had", "has", "have", "having", "he", "her", "here", "hers", "him", "his", "how",
+  "i", "if", "in", "into", "is", "it", "its", "itself", "just", "may", "me", "might", "more", "most", "must", "my",
+  "no", "nor", "not", "now", "of", "off", "on", "once", "only", "or", "other", "our", "ours", "out", "over", "own",
+  "same", "she", "should", "so", "some", "such", "than", "that", "the", "their", "theirs", "them", "then", "there",
+  "these", "they", "this", "those", "through", "to", "too", "under", "until", "up", "use", "used", "using",
+  "very", "was", "we", "were", "what", "when", "where", "which", "while", "who", "whom", "why", "will", "with",
+  "would", "you", "your", "yours",
+]);
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Lowercased words with stop words removed
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+(?:['-][a-z0-9]+)*/g) || [])
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+// Crude plural folding so "documents" matches "document"
+export function stem(word: string): string {
+  if (word.length > 4 && word.endsWith("ies")) return word.slice(0, -3) + "y";
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+export function terms(text: string): string[] {
+  return tokenize(text).map(stem);
+}
+
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+export function countTerms(words: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of words) counts.set(word, (counts.get(word) || 0) + 1);
+  return counts;
+}
+
+// Fraction of the query terms that occur in the document
+export function coverage(queryTerms: string[], documentTerms: string[]): number {
+  if (queryTerms.length === 0) return 0;
+  const present = new Set(documentTerms);
+  return queryTerms.filter(term => present.has(term)).length / queryTerms.length;
+}
+
+// BM25 score of each document (given as its terms) for the query terms
+export function bm25(queryTerms: string[], documents: string[][]): number[] {
+  if (queryTerms.length === 0 || documents.length === 0) return documents.map(() => 0);
+
+  const counts = documents.map(countTerms);
+  const averageLength = documents.reduce((sum, words) => sum + words.length, 0) / documents.length || 1;
+  const idf = new Map(queryTerms.map(term => {
+    const df = counts.filter(documentCounts => documentCounts.has(term)).length;
+    return [term, Math.log(1 + (documents.length - df + 0.5) / (df + 0.5))];
+  }));
+
+  return counts.map((documentCounts, index) => {
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = documentCounts.get(term) || 0;
+      if (!tf) continue;
+      score += idf.get(term)! * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * documents[index].length / averageLength));
+    }
+    return score;
+  });
+}
+
+// Rough token count; about four characters per token in English
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
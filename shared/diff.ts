@@ -0,0 +1,361 @@
+// Text diffing and three-way merging shared by the server and the client.
+
+export type DiffOpType = "equal" | "insert" | "delete";
+
+export interface DiffOp<T> {
+  type: DiffOpType;
+  items: T[];
+}
+
+// Myers' O((N+M)D) diff. Returns runs of equal, deleted (from a) and inserted
+// (from b) items in order.
+export function diffSequences<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean = (x, y) => x === y): DiffOp<T>[] {
+  // Common prefix and suffix never take part in the edit script
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && equals(a[prefix], b[prefix])) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    equals(a[a.length - 1 - suffix], b[b.length - 1 - suffix])
+  ) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  const ops: DiffOp<T>[] = [];
+  const push = (type: DiffOpType, item: T) => {
+    const last = ops[ops.length - 1];
+    if (last && last.type === type) {
+      last.items.push(item);
+    } else {
+      ops.push({ type, items: [item] });
+    }
+  };
+
+  a.slice(0, prefix).forEach(item => push("equal", item));
+  for (const [type, item] of myers(midA, midB, equals)) push(type, item);
+  a.slice(a.length - suffix).forEach(item => push("equal", item));
+
+  return ops;
+}
+
+function myers<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): [DiffOpType, T][] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds the furthest x reached on diagonals -d..d before round d
+  const trace: Int32Array[] = [];
+
+  let done = max === 0;
+  for (let d = 0; d <= max && !done; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && equals(a[x], b[y])) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        done = true;
+        break;
+      }
+    }
+  }
+
+  const script: [DiffOpType, T][] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      script.push(["equal", a[x - 1]]);
+      x--;
+      y--;
+    }
+    if (x === prevX) {
+      script.push(["insert", b[y - 1]]);
+    } else {
+      script.push(["delete", a[x - 1]]);
+    }
+    x = prevX;
+    y = prevY;
+  }
+  while (x > 0 && y > 0) {
+    script.push(["equal", a[x - 1]]);
+    x--;
+    y--;
+  }
+
+  return script.reverse();
+}
+
+export function splitLines(text: string): string[] {
+  return text === "" ? [] : text.split(/\r?\n/);
+}
+
+export function diffLines(a: string, b: string): DiffOp<string>[] {
+  return diffSequences(splitLines(a), splitLines(b));
+}
+
+interface Hunk {
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+}
+
+// Changed regions of base, each with the lines that replace it in the other text
+function hunks(base: string[], other: string[]): Hunk[] {
+  const result: Hunk[] = [];
+  let index = 0;
+  let current: Hunk | null = null;
+
+  for (const op of diffSequences(base, other)) {
+    if (op.type === "equal") {
+      current = null;
+      index += op.items.length;
+      continue;
+    }
+    if (!current) {
+      current = { baseStart: index, baseEnd: index, lines: [] };
+      result.push(current);
+    }
+    if (op.type === "delete") {
+      index += op.items.length;
+      current.baseEnd = index;
+    } else {
+      current.lines.push(...op.items);
+    }
+  }
+
+  return result;
+}
+
+function applyHunks(base: string[], changes: Hunk[], start: number, end: number): string[] {
+  const lines: string[] = [];
+  let index = start;
+  for (const hunk of changes) {
+    lines.push(...base.slice(index, hunk.baseStart), ...hunk.lines);
+    index = hunk.baseEnd;
+  }
+  lines.push(...base.slice(index, end));
+  return lines;
+}
+
+export interface MergeResult {
+  text: string;
+  conflicts: number;
+}
+
+export const CONFLICT_MARKERS = {
+  start: "<<<<<<< Mine",
+  separator: "=======",
+  end: ">>>>>>> Theirs",
+};
+
+// Line-based three-way merge. Regions changed on only one side are taken from
+// that side; regions changed differently on both sides are emitted between
+// conflict markers.
+export function mergeText(base: string, mine: string, theirs: string): MergeResult {
+  const baseLines = splitLines(base);
+  const mineHunks = hunks(baseLines, splitLines(mine));
+  const theirHunks = hunks(baseLines, splitLines(theirs));
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let index = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < mineHunks.length || j < theirHunks.length) {
+    const first = j >= theirHunks.length || (i < mineHunks.length && mineHunks[i].baseStart <= theirHunks[j].baseStart)
+      ? mineHunks[i]
+      : theirHunks[j];
+    const start = first.baseStart;
+    let end = first.baseEnd;
+    const mineRegion: Hunk[] = [];
+    const theirRegion: Hunk[] = [];
+
+    // Grow the region until no hunk from either side touches it
+    let grew = true;
+    while (grew) {
+      grew = false;
+      while (i < mineHunks.length && mineHunks[i].baseStart <= end) {
+        end = Math.max(end, mineHunks[i].baseEnd);
+        mineRegion.push(mineHunks[i++]);
+        grew = true;
+      }
+      while (j < theirHunks.length && theirHunks[j].baseStart <= end) {
+        end = Math.max(end, theirHunks[j].baseEnd);
+        theirRegion.push(theirHunks[j++]);
+        grew = true;
+      }
+    }
+
+    output.push(...baseLines.slice(index, start));
+    const mineLines = applyHunks(baseLines, mineRegion, start, end);
+    const theirLines = applyHunks(baseLines, theirRegion, start, end);
+
+    if (theirRegion.length === 0) {
+      output.push(...mineLines);
+    } else if (mineRegion.length === 0 || mineLines.join("\n") === theirLines.join("\n")) {
+      output.push(...theirLines);
+    } else {
+      conflicts++;
+      output.push(CONFLICT_MARKERS.start, ...mineLines, CONFLICT_MARKERS.separator, ...theirLines, CONFLICT_MARKERS.end);
+    }
+    index = end;
+  }
+
+  output.push(...baseLines.slice(index));
+  return { text: output.join("\n"), conflicts };
+}
+
+// Splits text into words and the whitespace between them, so a word diff can
+// be rendered back into the original text.
+export function splitWords(text: string): string[] {
+  return text.split(/(\s+)/).filter(Boolean);
+}
+
+export function diffWords(a: string, b: string): DiffOp<string>[] {
+  return diffSequences(splitWords(a), splitWords(b));
+}
+
+export interface LineChange {
+  type: "equal" | "insert" | "delete" | "modify";
+  // 1-based line numbers in the old and new text
+  oldLine?: number;
+  newLine?: number;
+  oldText?: string;
+  newText?: string;
+  // Word-level changes for modified lines
+  words?: DiffOp<string>[];
+}
+
+// Line diff where deleted and inserted lines at the same position are paired
+// up as modifications carrying a word diff.
+export function diffContent(a: string, b: string): LineChange[] {
+  const changes: LineChange[] = [];
+  const ops = diffLines(a, b);
+  let oldLine = 1;
+  let newLine = 1;
+
+  for (let i = 0; i < ops.length; i++) {
+    const op = ops[i];
+    if (op.type === "equal") {
+      for (const text of op.items) {
+        changes.push({ type: "equal", oldLine: oldLine++, newLine: newLine++, oldText: text, newText: text });
+      }
+      continue;
+    }
+
+    const next = ops[i + 1];
+    const deleted = op.type === "delete" ? op.items : [];
+    const inserted = op.type === "insert" ? op.items : next?.type === "insert" ? next.items : [];
+    if (op.type === "delete" && next?.type === "insert") i++;
+
+    const paired = Math.min(deleted.length, inserted.length);
+    for (let j = 0; j < paired; j++) {
+      changes.push({
+        type: "modify",
+        oldLine: oldLine++,
+        newLine: newLine++,
+        oldText: deleted[j],
+        newText: inserted[j],
+        words: diffWords(deleted[j], inserted[j]),
+      });
+    }
+    for (const text of deleted.slice(paired)) {
+      changes.push({ type: "delete", oldLine: oldLine++, oldText: text });
+    }
+    for (const text of inserted.slice(paired)) {
+      changes.push({ type: "insert", newLine: newLine++, newText: text });
+    }
+  }
+
+  return changes;
+}
+
+export interface TagChanges {
+  added: string[];
+  removed: string[];
+  unchanged: string[];
+}
+
+export function diffTags(a: string[], b: string[]): TagChanges {
+  return {
+    added: b.filter(tag => !a.includes(tag)),
+    removed: a.filter(tag => !b.includes(tag)),
+    unchanged: b.filter(tag => a.includes(tag)),
+  };
+}
+
+export interface VersionSnapshot {
+  id: string;
+  version: number;
+  title: string;
+  content: string;
+  summary: string | null;
+  tags: string[] | null;
+}
+
+export interface VersionDiff {
+  from: { id: string; version: number };
+  to: { id: string; version: number };
+  title: DiffOp<string>[];
+  summary: DiffOp<string>[];
+  content: LineChange[];
+  tags: TagChanges;
+}
+
+export function diffVersions(from: VersionSnapshot, to: VersionSnapshot): VersionDiff {
+  return {
+    from: { id: from.id, version: from.version },
+    to: { id: to.id, version: to.version },
+    title: diffWords(from.title, to.title),
+    summary: diffWords(from.summary || "", to.summary || ""),
+    content: diffContent(from.content, to.content),
+    tags: diffTags(from.tags || [], to.tags || []),
+  };
+}
+
+export interface BlameLine<T> {
+  text: string;
+  revision: T;
+}
+
+// Attributes each line of the last revision to the revision that last changed
+// it. Revisions must be ordered oldest first.
+export function blameLines<T>(revisions: { content: string; revision: T }[]): BlameLine<T>[] {
+  let lines: BlameLine<T>[] = [];
+
+  for (const { content, revision } of revisions) {
+    const next: BlameLine<T>[] = [];
+    let index = 0;
+    for (const op of diffSequences(lines.map(line => line.text), splitLines(content))) {
+      if (op.type === "equal") {
+        next.push(...lines.slice(index, index + op.items.length));
+        index += op.items.length;
+      } else if (op.type === "delete") {
+        index += op.items.length;
+      } else {
+        next.push(...op.items.map(text => ({ text, revision })));
+      }
+    }
+    lines = next;
+  }
+
+  return lines;
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, jsonb, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, jsonb, integer, boolean, doublePrecision, index, uniqueIndex, vector } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,10 +9,74 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   name: text("name").notNull(),
   role: text("role").notNull().default("user"), // 'user' or 'admin'
+  // Disabled accounts cannot sign in, and their existing sessions stop working
+  disabled: boolean("disabled").notNull().default(false),
+  emailVerified: boolean("email_verified").notNull().default(false),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// A signed-in device. Its refresh token is rotated on every use; the hash of
+// the token it replaced is kept so a replayed old token can be detected.
+export const sessions = pgTable("sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  refreshTokenHash: text("refresh_token_hash").notNull(), // SHA-256 of the current refresh token
+  previousRefreshTokenHash: text("previous_refresh_token_hash"),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastUsedAt: timestamp("last_used_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+}, (table) => [
+  uniqueIndex("sessions_refresh_token_hash_idx").on(table.refreshTokenHash),
+  index("sessions_previous_refresh_token_hash_idx").on(table.previousRefreshTokenHash),
+  index("sessions_user_id_idx").on(table.userId),
+]);
+
+// A user's TOTP authenticator. Kept out of the users table, whose rows are
+// returned with documents and activities. Until enabledAt is set the secret
+// is only pending confirmation with a first code.
+export const twoFactor = pgTable("two_factor", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(), // base32, as shown to authenticator apps
+  enabledAt: timestamp("enabled_at"),
+  // The last 30-second time step a code was accepted for, so a code cannot
+  // be used twice
+  lastUsedStep: integer("last_used_step"),
+  recoveryCodeHashes: text("recovery_code_hashes").array().notNull().default([]),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Failed sign-in attempts per client IP address and per account email, for
+// brute-force protection. Counts start over once a window has passed
+// without being locked.
+export const loginThrottles = pgTable("login_throttles", {
+  key: text("key").primaryKey(), // 'ip:<address>' or 'account:<email>'
+  failures: integer("failures").notNull(),
+  firstFailureAt: timestamp("first_failure_at").notNull(),
+  lastFailureAt: timestamp("last_failure_at").notNull(),
+  lockedUntil: timestamp("locked_until"),
+}, (table) => [
+  index("login_throttles_locked_until_idx").on(table.lockedUntil),
+]);
+
+// Single-use tokens sent by email to reset a password or verify an address
+export const accountTokens = pgTable("account_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  purpose: text("purpose").notNull(), // 'password_reset' or 'email_verification'
+  tokenHash: text("token_hash").notNull(), // SHA-256 of the emailed token
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+}, (table) => [
+  uniqueIndex("account_tokens_token_hash_idx").on(table.tokenHash),
+  index("account_tokens_user_id_idx").on(table.userId),
+]);
+
 export const documents = pgTable("documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   title: text("title").notNull(),
@@ -23,6 +87,17 @@ export const documents = pgTable("documents", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
   version: integer("version").notNull().default(1),
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: varchar("deleted_by").references(() => users.id),
+  // Kinds of prompt injection attempt found in the text when it was last saved
+  injectionWarnings: text("injection_warnings").array().notNull().default([]),
+  // Who last wrote the summary and the tags, one of fieldSources, or null if
+  // nobody has. AI-written ones are regenerated when the content changes;
+  // the author's are kept, even when left empty.
+  summarySource: text("summary_source"),
+  tagsSource: text("tags_source"),
+  // Version the enrichment job last generated the summary and tags for
+  enrichedVersion: integer("enriched_version"),
 });
 
 export const documentVersions = pgTable("document_versions", {
@@ -36,30 +111,183 @@ export const documentVersions = pgTable("document_versions", {
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   changeDescription: text("change_description"),
+  // Set when the summary or tags of this version were written by the AI
+  aiGenerated: boolean("ai_generated").notNull().default(false),
 });
 
 export const activities = pgTable("activities", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  type: text("type").notNull(), // 'created', 'updated', 'deleted'
+  type: text("type").notNull(), // 'created', 'updated', 'enriched', 'restored', 'deleted', 'purged', or one of accountActivityTypes
   documentId: varchar("document_id").references(() => documents.id, { onDelete: "cascade" }),
   userId: varchar("user_id").notNull().references(() => users.id),
   description: text("description").notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Length of the embedding vectors stored for document chunks
+export const EMBEDDING_DIMENSIONS = 768;
+
+// Passages of a document's content with their embeddings, rebuilt whenever
+// the content changes. Offsets are character positions in the content.
+export const documentChunks = pgTable("document_chunks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  chunkIndex: integer("chunk_index").notNull(),
+  content: text("content").notNull(),
+  startOffset: integer("start_offset").notNull(),
+  endOffset: integer("end_offset").notNull(),
+  embedding: vector("embedding", { dimensions: EMBEDDING_DIMENSIONS }).notNull(),
+}, (table) => [
+  index("document_chunks_document_id_idx").on(table.documentId),
+  index("document_chunks_embedding_idx").using("hnsw", table.embedding.op("vector_cosine_ops")),
+]);
+
+// Q&A conversations. A shared conversation can be opened read-only by any
+// signed-in user who has its link.
+export const conversations = pgTable("conversations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  shared: boolean("shared").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("conversations_user_id_idx").on(table.userId),
+]);
+
+export const conversationMessages = pgTable("conversation_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: varchar("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
+  role: text("role").notNull(), // 'user' or 'assistant'
+  content: text("content").notNull(),
+  citations: jsonb("citations").$type<Citation[]>().notNull().default([]),
+  model: text("model"), // model that wrote an assistant message, if any
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("conversation_messages_conversation_id_idx").on(table.conversationId),
+]);
+
+// A rating of an AI answer by the user who asked. The question, answer and
+// cited documents are copied so the feedback outlives the conversation.
+export const answerFeedback = pgTable("answer_feedback", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  messageId: varchar("message_id").references(() => conversationMessages.id, { onDelete: "set null" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  rating: text("rating").notNull(), // 'up' or 'down'
+  comment: text("comment"),
+  question: text("question").notNull(),
+  answer: text("answer").notNull(),
+  citedDocumentIds: text("cited_document_ids").array().notNull().default([]),
+  model: text("model"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("answer_feedback_message_id_idx").on(table.messageId),
+  index("answer_feedback_created_at_idx").on(table.createdAt),
+]);
+
+// Background work run by the in-process job queue. Failed attempts are
+// retried at runAt until maxAttempts is reached.
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(), // 'enrich_document'
+  documentId: varchar("document_id").references(() => documents.id, { onDelete: "cascade" }),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull().default({}),
+  status: text("status").notNull().default("pending"), // 'pending', 'running', 'succeeded' or 'failed'
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  index("jobs_status_run_at_idx").on(table.status, table.runAt),
+  index("jobs_document_id_idx").on(table.documentId),
+]);
+
+// Responses of the AI service, reused for identical requests until they expire
+export const aiCacheEntries = pgTable("ai_cache_entries", {
+  key: text("key").primaryKey(), // SHA-256 of the operation, model, prompt version and input
+  operation: text("operation").notNull(),
+  value: jsonb("value").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("ai_cache_entries_expires_at_idx").on(table.expiresAt),
+  index("ai_cache_entries_created_at_idx").on(table.createdAt),
+]);
+
+// One row per call to an AI model. userId is null for work not done on behalf
+// of a user, such as indexing at startup.
+export const aiUsage = pgTable("ai_usage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  operation: text("operation").notNull(), // 'summarize', 'generateTags', 'answerQuestion', 'embed' or 'describeChanges'
+  model: text("model").notNull(),
+  inputTokens: integer("input_tokens").notNull(),
+  outputTokens: integer("output_tokens").notNull(),
+  estimatedCost: doublePrecision("estimated_cost").notNull(), // US dollars
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("ai_usage_created_at_idx").on(table.createdAt),
+  index("ai_usage_user_id_created_at_idx").on(table.userId, table.createdAt),
+]);
+
+export const settings = pgTable("settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
+  disabled: true,
+  emailVerified: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertSessionSchema = createInsertSchema(sessions).omit({
+  id: true,
+  createdAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+});
+
+export const insertTwoFactorSchema = createInsertSchema(twoFactor).omit({
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const accountTokenPurposes = ["password_reset", "email_verification"] as const;
+
+export const insertAccountTokenSchema = createInsertSchema(accountTokens, {
+  purpose: z.enum(accountTokenPurposes),
+}).omit({
+  id: true,
+  createdAt: true,
+  usedAt: true,
+});
+
+// Who wrote a document's summary or tags
+export const fieldSources = ["author", "ai"] as const;
+
 export const insertDocumentSchema = createInsertSchema(documents).omit({
   id: true,
   createdBy: true,
   createdAt: true,
   updatedAt: true,
   version: true,
+  deletedAt: true,
+  deletedBy: true,
+  injectionWarnings: true,
+  summarySource: true,
+  tagsSource: true,
+  enrichedVersion: true,
 });
 
 export const insertDocumentVersionSchema = createInsertSchema(documentVersions).omit({
@@ -67,11 +295,68 @@ export const insertDocumentVersionSchema = createInsertSchema(documentVersions).
   createdAt: true,
 });
 
+export const insertDocumentChunkSchema = createInsertSchema(documentChunks).omit({
+  id: true,
+});
+
+// Security events about an account rather than a document. They are kept
+// out of the team activity feed and shown to admins instead.
+export const accountActivityTypes = ["account_locked", "account_unlocked"] as const;
+
 export const insertActivitySchema = createInsertSchema(activities).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertConversationSchema = createInsertSchema(conversations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertConversationMessageSchema = createInsertSchema(conversationMessages, {
+  role: z.enum(["user", "assistant"]),
+  citations: z.array(z.custom<Citation>()),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const answerRatings = ["up", "down"] as const;
+
+export const insertAnswerFeedbackSchema = createInsertSchema(answerFeedback, {
+  rating: z.enum(answerRatings),
+  comment: z.string().trim().max(2000).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const jobTypes = ["enrich_document"] as const;
+export const jobStatuses = ["pending", "running", "succeeded", "failed"] as const;
+
+export const insertJobSchema = createInsertSchema(jobs, {
+  type: z.enum(jobTypes),
+  status: z.enum(jobStatuses),
+  payload: z.record(z.unknown()),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertAIUsageSchema = createInsertSchema(aiUsage).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAICacheEntrySchema = createInsertSchema(aiCacheEntries, {
+  value: z.unknown(),
+}).omit({
+  createdAt: true,
+});
+
 // Auth schemas
 export const loginSchema = z.object({
   email: z.string().email(),
@@ -82,24 +367,220 @@ export const registerSchema = insertUserSchema.extend({
   password: z.string().min(6),
 });
 
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+// Second sign-in step for accounts with two-factor authentication. The code
+// is one from the authenticator app or a recovery code.
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1),
+  code: z.string().trim().min(1, "Code required").max(32),
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Code required").max(32),
+});
+
+export const disableTwoFactorSchema = twoFactorCodeSchema.extend({
+  password: z.string().min(1, "Password required"),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6),
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+export const unlockAccountSchema = z.object({
+  email: z.string().email(),
+});
+
+// Admin-configurable application settings, stored one row per key
+// AI quotas are in tokens (input and output together); 0 means unlimited.
+// Days and months start at midnight UTC.
+export const appSettingsSchema = z.object({
+  trashRetentionDays: z.number().int().min(1).max(3650),
+  aiUserDailyTokens: z.number().int().min(0),
+  aiUserMonthlyTokens: z.number().int().min(0),
+  aiWorkspaceDailyTokens: z.number().int().min(0),
+  aiWorkspaceMonthlyTokens: z.number().int().min(0),
+  // Admins without two-factor authentication act as regular users until
+  // they set it up
+  requireAdminTwoFactor: z.boolean(),
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type Session = typeof sessions.$inferSelect;
+export type InsertSession = z.infer<typeof insertSessionSchema>;
+export type TwoFactor = typeof twoFactor.$inferSelect;
+export type InsertTwoFactor = z.infer<typeof insertTwoFactorSchema>;
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+export type AccountToken = typeof accountTokens.$inferSelect;
+export type InsertAccountToken = z.infer<typeof insertAccountTokenSchema>;
+export type AccountTokenPurpose = (typeof accountTokenPurposes)[number];
+export type FieldSource = (typeof fieldSources)[number];
 export type Document = typeof documents.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
+// Document fields as written by the server, which sets the ones authors cannot
+export type DocumentWrite = InsertDocument & Partial<Pick<Document, "injectionWarnings" | "summarySource" | "tagsSource">>;
+// Summary and tags generated in the background. Saved without a new version.
+export type DocumentEnrichment = Partial<Pick<Document, "summary" | "tags" | "summarySource" | "tagsSource">> & { enrichedVersion: number };
 export type DocumentVersion = typeof documentVersions.$inferSelect;
 export type InsertDocumentVersion = z.infer<typeof insertDocumentVersionSchema>;
+export type DocumentChunk = typeof documentChunks.$inferSelect;
+export type InsertDocumentChunk = z.infer<typeof insertDocumentChunkSchema>;
 export type Activity = typeof activities.$inferSelect;
 export type InsertActivity = z.infer<typeof insertActivitySchema>;
+export type Conversation = typeof conversations.$inferSelect;
+export type InsertConversation = z.infer<typeof insertConversationSchema>;
+export type ConversationMessage = typeof conversationMessages.$inferSelect;
+export type InsertConversationMessage = z.infer<typeof insertConversationMessageSchema>;
+export type AnswerFeedback = typeof answerFeedback.$inferSelect;
+export type InsertAnswerFeedback = z.infer<typeof insertAnswerFeedbackSchema>;
+export type AnswerRating = (typeof answerRatings)[number];
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type JobType = (typeof jobTypes)[number];
+export type JobStatus = (typeof jobStatuses)[number];
+export type AIUsage = typeof aiUsage.$inferSelect;
+export type InsertAIUsage = z.infer<typeof insertAIUsageSchema>;
+export type AICacheEntry = typeof aiCacheEntries.$inferSelect;
+export type InsertAICacheEntry = z.infer<typeof insertAICacheEntrySchema>;
+export type Setting = typeof settings.$inferSelect;
+export type AppSettings = z.infer<typeof appSettingsSchema>;
 export type LoginData = z.infer<typeof loginSchema>;
 export type RegisterData = z.infer<typeof registerSchema>;
+export type ForgotPasswordData = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordData = z.infer<typeof resetPasswordSchema>;
+export type TwoFactorLoginData = z.infer<typeof twoFactorLoginSchema>;
+
+// Returned by GET /api/auth/two-factor
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// Returned by POST /api/auth/two-factor/setup
+export interface TwoFactorSetup {
+  secret: string;
+  // otpauth:// URI for authenticator apps, and the same as a QR code image
+  uri: string;
+  qrCode: string;
+}
+
+// An account that cannot sign in until lockedUntil after too many failed
+// attempts. The email need not belong to an account.
+export interface LockedAccount {
+  email: string;
+  failures: number;
+  lockedUntil: string;
+}
+
+// Returned by GET /api/admin/lockouts
+export interface LockoutReport {
+  locked: LockedAccount[];
+  // Recent account_locked and account_unlocked activity
+  activity: (Activity & { user: Pick<User, "id" | "name" | "email"> })[];
+}
 
 // Extended types with relations
-export type DocumentWithUser = Document & {
+export type DocumentWithUser = Omit<Document, "createdBy"> & {
   createdBy: User;
 };
 
-export type DocumentWithDetails = Document & {
+export type TrashedDocument = Omit<Document, "createdBy" | "deletedBy"> & {
+  createdBy: User;
+  deletedBy: Pick<User, "id" | "name"> | null;
+};
+
+export type DocumentWithDetails = Omit<Document, "createdBy"> & {
   createdBy: User;
   versions?: DocumentVersion[];
 };
+
+// An assistant message with the user message it answers
+export type AnsweredQuestion = {
+  question: string;
+  answer: ConversationMessage;
+};
+
+export type ConversationMessageWithFeedback = ConversationMessage & {
+  feedback: Pick<AnswerFeedback, "rating" | "comment"> | null;
+};
+
+export type ConversationWithMessages = Conversation & {
+  owner: Pick<User, "id" | "name">;
+  messages: ConversationMessageWithFeedback[];
+};
+
+// Admin report on answer quality over a recent period
+export interface QAReport {
+  since: string;
+  totals: { answers: number; uncited: number; ratedUp: number; ratedDown: number };
+  lowRated: (Pick<AnswerFeedback, "id" | "question" | "answer" | "comment" | "model" | "createdAt"> & {
+    user: Pick<User, "id" | "name">;
+    citedDocuments: Pick<Document, "id" | "title">[];
+  })[];
+  // Questions asked repeatedly that were answered without a source or rated
+  // down, grouped by their wording
+  unsourcedQuestions: { question: string; count: number; ratedDown: number; lastAskedAt: string }[];
+}
+
+// Summed AI usage, overall or for one group of calls
+export interface AIUsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCost: number;
+}
+
+// AI usage summed per user and operation, as stored
+export type AIUsageGroup = AIUsageTotals & {
+  userId: string | null;
+  operation: string;
+};
+
+// Admin report on AI usage over a recent period
+export interface AIUsageReport {
+  since: string;
+  totals: AIUsageTotals;
+  // Users are null for work not done on behalf of a user
+  byUser: (AIUsageTotals & { user: Pick<User, "id" | "name" | "email"> | null })[];
+  byOperation: (AIUsageTotals & { operation: string })[];
+  quotas: Pick<AppSettings, "aiUserDailyTokens" | "aiUserMonthlyTokens" | "aiWorkspaceDailyTokens" | "aiWorkspaceMonthlyTokens">;
+}
+
+// AI response cache counters since the server started
+export interface AICacheStats {
+  store: string;
+  ttlSeconds: number;
+  maxEntries: number;
+  entries: number;
+  operations: Record<string, { hits: number; misses: number }>;
+}
+
+export type ChunkMatch = Omit<DocumentChunk, "embedding"> & {
+  similarity: number;
+};
+
+// A passage quoted in an AI answer. Offsets are character positions in the
+// content of the cited version; marker is the [n] used for it in the answer.
+export interface Citation {
+  marker: number;
+  documentId: string;
+  title: string;
+  version: number;
+  startOffset: number;
+  endOffset: number;
+  quote: string;
+}
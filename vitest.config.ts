@@ -0,0 +1,17 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+    // Services under test use the storage singleton, which is kept in memory
+    // even where DATABASE_URL is set
+    env: { STORAGE_DRIVER: "memory" },
+  },
+});